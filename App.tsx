@@ -1,9 +1,25 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Search, Sparkles, ArrowRight, Loader2, Info, ChevronRight, Container, Camera, X, ScanLine, Moon, Sun, Mic } from 'lucide-react';
-import { identifyHSCode } from './services/geminiService';
-import { HSCodeResult, TargetRegion } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Search, Sparkles, ArrowRight, Loader2, Info, ChevronRight, Container, Camera, X, ScanLine, FileText, Moon, Sun, Mic, BookOpen, FileSpreadsheet, History, Columns3, ArrowRightLeft, Hash, ListTree, Receipt, Palette, AlertTriangle } from 'lucide-react';
+import { identifyHSCode, classifyOrClarify, isClarificationRequest, refineClassification, lookupHSCode } from './services/geminiService';
+import { recordClassification } from './services/historyStore';
+import { compareMarkets, MarketEntry } from './services/marketComparison';
+import { HSCodeResult, TargetRegion, ClassificationRecord, ChatMessage, ClarifyingQuestion, ClarificationAnswer, EvidenceFile } from './types';
+import { EVIDENCE_ACCEPT, MAX_EVIDENCE_BYTES, readEvidenceFile, evidenceBytes, isImageEvidence, fingerprintEvidence } from './services/evidence';
 import { RegionSelector } from './components/RegionSelector';
+import { OriginSelector } from './components/OriginSelector';
 import { ResultCard } from './components/ResultCard';
+import { TariffBookManager } from './components/TariffBookManager';
+import { EditionConverter } from './components/EditionConverter';
+import { LegalNotesManager } from './components/LegalNotesManager';
+import { ControlListManager } from './components/ControlListManager';
+import { ReportSettings } from './components/ReportSettings';
+import { HierarchyBrowser } from './components/HierarchyBrowser';
+import { BatchClassifier } from './components/BatchClassifier';
+import { InvoiceClassifier } from './components/InvoiceClassifier';
+import { HistoryPanel } from './components/HistoryPanel';
+import { MarketComparison } from './components/MarketComparison';
+import { RefinementThread } from './components/RefinementThread';
+import { ClarificationWizard } from './components/ClarificationWizard';
 
 // Custom Logo Component - Hexagon C
 const CentrovertLogo = ({ className }: { className?: string }) => (
@@ -15,21 +31,96 @@ const CentrovertLogo = ({ className }: { className?: string }) => (
   </svg>
 );
 
+type AppMode = 'single' | 'compare' | 'batch' | 'invoice' | 'lookup';
+
+// History input of a reverse lookup, so a re-run looks the code up again
+const LOOKUP_PREFIX = 'HS code lookup: ';
+
+// The code and market a reverse-lookup result belongs to
+interface LookupSource {
+  code: string;
+  region: TargetRegion;
+}
+
+// The request a refinement thread belongs to; the input box may change while the thread is open
+interface ThreadSource {
+  input: string;
+  region: TargetRegion;
+  evidence: EvidenceFile[];
+  clarifications?: ClarificationAnswer[];
+  originalsMissing?: boolean; // Reopened from history; its files were not kept and must be re-attached
+}
+
+interface PendingClarification {
+  questions: ClarifyingQuestion[];
+  source: ThreadSource;
+}
+
+// History stores the answers with the input so a re-run classifies the same product
+const withClarifications = (text: string, clarifications?: ClarificationAnswer[]) =>
+  clarifications && clarifications.length > 0 ? `${text} (${clarifications.map(c => c.answer).join('; ')})` : text;
+
+const createMessage = (role: ChatMessage['role'], content: ChatMessage['content']): ChatMessage => ({
+  id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  content,
+  timestamp: Date.now(),
+});
+
 const App: React.FC = () => {
+  const [mode, setMode] = useState<AppMode>('single');
   const [input, setInput] = useState('');
   const [region, setRegion] = useState<TargetRegion>(TargetRegion.SINGAPORE);
+  const [origin, setOrigin] = useState(''); // Country of origin for preferential rates
   const [loading, setLoading] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState("Initializing...");
   const [result, setResult] = useState<HSCodeResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+
+  // Result Cache
+  const [bypassCache, setBypassCache] = useState(false);
+
+  // Reverse Lookup State
+  const [codeInput, setCodeInput] = useState('');
+  const [lookupSource, setLookupSource] = useState<LookupSource | null>(null);
+
+  // Clarifying Questions State
+  const [clarification, setClarification] = useState<PendingClarification | null>(null);
+
+  // Refinement Thread State
+  const [thread, setThread] = useState<ChatMessage[]>([]);
+  const [threadSource, setThreadSource] = useState<ThreadSource | null>(null);
+  const [refining, setRefining] = useState(false);
+  const [refineStatus, setRefineStatus] = useState("Reassessing classification...");
   
+  // Multi-Market Comparison State
+  const [compareRegions, setCompareRegions] = useState<TargetRegion[]>([TargetRegion.SINGAPORE, TargetRegion.UAE, TargetRegion.SAUDI_ARABIA]);
+  const [comparison, setComparison] = useState<MarketEntry[] | null>(null);
+  const [comparisonRegion, setComparisonRegion] = useState<TargetRegion | null>(null);
+
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(false);
 
-  // Image State
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // Offline Tariff Book Panel
+  const [showTariffBooks, setShowTariffBooks] = useState(false);
+  const [showConverter, setShowConverter] = useState(false);
+  const [showReportSettings, setShowReportSettings] = useState(false);
+
+  // HS Hierarchy Browser, opened from the header or at a code from a result card
+  const [browser, setBrowser] = useState<{ region: TargetRegion; code?: string } | null>(null);
+
+  // History Panel
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Evidence State
+  const [evidence, setEvidence] = useState<EvidenceFile[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // A history record whose original files have to be re-attached before it is re-run
+  const [reattachRecord, setReattachRecord] = useState<ClassificationRecord | null>(null);
+  const evidenceHashes = useMemo(() => reattachRecord?.evidenceHashes ? evidence.map(fingerprintEvidence) : [], [evidence, reattachRecord]);
+
   // Voice State
   const [isListening, setIsListening] = useState(false);
 
@@ -44,40 +135,220 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setIsDarkMode(!isDarkMode);
 
-  const handleSearch = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!input.trim() && !imagePreview) return;
-
+  const runClassification = async (
+    text: string,
+    targetRegion: TargetRegion,
+    files: EvidenceFile[],
+    options: { askClarification?: boolean; clarifications?: ClarificationAnswer[]; bypassCache?: boolean } = {}
+  ) => {
     setLoading(true);
     setLoadingStatus("Preparing analysis...");
     setError(null);
     setResult(null);
+    setThread([]);
+    setClarification(null);
 
     try {
-      const data = await identifyHSCode(input, region, imagePreview || undefined, (status) => {
-        setLoadingStatus(status);
-      });
+      const skipCache = options.bypassCache ?? bypassCache;
+      const data = options.askClarification
+        ? await classifyOrClarify(text, targetRegion, files, setLoadingStatus, { bypassCache: skipCache })
+        : await identifyHSCode(text, targetRegion, files, setLoadingStatus, { clarifications: options.clarifications, bypassCache: skipCache });
+      if (isClarificationRequest(data)) {
+        setClarification({ questions: data.questions, source: { input: text, region: targetRegion, evidence: files } });
+        return;
+      }
       setResult(data);
+      startThread(data, { input: text, region: targetRegion, evidence: files, clarifications: options.clarifications });
+      await recordClassification(withClarifications(text, options.clarifications), targetRegion, data, files);
+      setHistoryVersion(v => v + 1);
     } catch (err) {
-      setError("Failed to classify product. Please ensure the description or image is clear.");
+      setError("Failed to classify product. Please ensure the description or attached files are clear.");
     } finally {
       setLoading(false);
     }
   };
 
+  const answerClarification = (answers?: ClarificationAnswer[]) => {
+    if (!clarification) return;
+    const { input: text, region: targetRegion, evidence: files } = clarification.source;
+    runClassification(text, targetRegion, files, { clarifications: answers });
+  };
+
+  // Re-runs the shown classification against the model and replaces its cache entry
+  const handleRefreshResult = () => {
+    if (!threadSource || threadSource.originalsMissing) return;
+    runClassification(threadSource.input, threadSource.region, threadSource.evidence, {
+      clarifications: threadSource.clarifications,
+      bypassCache: true,
+    });
+  };
+
+  const handleRefreshLookup = () => {
+    if (!lookupSource) return;
+    runLookup(lookupSource.code, lookupSource.region, { bypassCache: true });
+  };
+
+  const startThread = (initial: HSCodeResult, source: ThreadSource) => {
+    setThread([createMessage('model', initial)]);
+    setThreadSource(source);
+  };
+
+  const handleRefine = async (message: string) => {
+    if (!threadSource || threadSource.originalsMissing) return;
+    const nextThread = [...thread, createMessage('user', message)];
+    setThread(nextThread);
+    setRefining(true);
+    setRefineStatus("Reassessing classification...");
+
+    try {
+      const revised = await refineClassification(threadSource.input, threadSource.region, nextThread, threadSource.evidence, setRefineStatus, threadSource.clarifications);
+      setThread(current => [...current, createMessage('model', revised)]);
+      setResult(revised);
+      // Audit trail keeps the follow-up that led to the revision alongside the original input
+      await recordClassification(`${withClarifications(threadSource.input, threadSource.clarifications)} — follow-up: ${message}`, threadSource.region, revised, threadSource.evidence);
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      setThread(current => [...current, createMessage('system', "Could not refine the classification. Try rephrasing the follow-up.")]);
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  const runLookup = async (code: string, targetRegion: TargetRegion, options: { bypassCache?: boolean } = {}) => {
+    setLoading(true);
+    setLoadingStatus("Preparing lookup...");
+    setError(null);
+    setResult(null);
+    setThread([]);
+    setThreadSource(null);
+    setClarification(null);
+
+    try {
+      const data = await lookupHSCode(code, targetRegion, setLoadingStatus, { bypassCache: options.bypassCache ?? bypassCache });
+      setResult(data);
+      setLookupSource({ code, region: targetRegion });
+      await recordClassification(`${LOOKUP_PREFIX}${code}`, targetRegion, data);
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      setError("Failed to look up this code. Check that it has at least 4 digits and try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLookup = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!codeInput.trim()) return;
+    await runLookup(codeInput.trim(), region);
+  };
+
+  const runComparison = async (text: string, regions: TargetRegion[], files: EvidenceFile[]) => {
+    setLoading(true);
+    setLoadingStatus("Preparing analysis...");
+    setError(null);
+    setComparison(null);
+    setComparisonRegion(null);
+
+    try {
+      const entries = await compareMarkets(text, regions, files, setLoadingStatus);
+      if (entries.every(entry => !entry.result)) {
+        setError("Failed to classify product for any selected market. Please ensure the description or attached files are clear.");
+      } else {
+        setComparison(entries);
+      }
+      setHistoryVersion(v => v + 1);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!input.trim() && evidence.length === 0) return;
+    if (mode === 'compare') {
+      if (compareRegions.length < 2) {
+        setError("Select at least two markets to compare.");
+        return;
+      }
+      await runComparison(input, compareRegions, evidence);
+      return;
+    }
+    setReattachRecord(null);
+    await runClassification(input, region, evidence, { askClarification: true });
+  };
+
+  const clearResults = () => {
+    setResult(null);
+    setThread([]);
+    setThreadSource(null);
+    setClarification(null);
+    setComparison(null);
+    setComparisonRegion(null);
+    setLookupSource(null);
+    setInput('');
+    setCodeInput('');
+    setEvidence([]);
+    setReattachRecord(null);
+  };
+
+  const hadEvidence = (record: ClassificationRecord) => !!(record.evidenceFiles?.length || record.thumbnail);
+
+  // The form never takes the thumbnail as evidence; the originals are asked for instead
+  const showRecord = (record: ClassificationRecord) => {
+    setMode('single');
+    setRegion(record.region);
+    setInput(record.input);
+    setEvidence([]);
+    setReattachRecord(hadEvidence(record) ? record : null);
+    setClarification(null);
+  };
+
+  const handleViewRecord = (record: ClassificationRecord) => {
+    showRecord(record);
+    setError(null);
+    setResult(record.result);
+    // Refreshing or refining needs the original files; the history thumbnail never stands in for them
+    startThread(record.result, { input: record.input, region: record.region, evidence: [], originalsMissing: hadEvidence(record) });
+  };
+
+  const handleRerunRecord = (record: ClassificationRecord) => {
+    if (record.input.startsWith(LOOKUP_PREFIX)) {
+      const code = record.input.slice(LOOKUP_PREFIX.length);
+      setMode('lookup');
+      setRegion(record.region);
+      setCodeInput(code);
+      runLookup(code, record.region);
+      return;
+    }
+    showRecord(record);
+    // Re-running on the thumbnail would classify different evidence than the recorded result
+    if (hadEvidence(record)) {
+      setError(null);
+      return;
+    }
+    runClassification(record.input, record.region, []);
+  };
+
   const loadExample = (text: string) => {
     setInput(text);
-    setImagePreview(null);
+    setEvidence([]);
+    setReattachRecord(null);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const added = await Promise.all(files.map(readEvidenceFile));
+      if (evidenceBytes([...evidence, ...added]) > MAX_EVIDENCE_BYTES) {
+        setError("The attached files are too large to send together. Remove some files or attach smaller ones.");
+        return;
+      }
+      setError(null);
+      setEvidence(current => [...current, ...added]);
+    } catch (err: any) {
+      setError(err.message || "Failed to read the attached file.");
     }
   };
 
@@ -85,9 +356,8 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
-  const removeImage = () => {
-    setImagePreview(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeEvidence = (index: number) => {
+    setEvidence(current => current.filter((_, i) => i !== index));
   };
 
   const startListening = () => {
@@ -119,6 +389,21 @@ const App: React.FC = () => {
     }
   };
 
+  const bypassCacheToggle = (
+    <label className="flex items-center gap-1.5 text-xs font-medium text-slate-500 dark:text-slate-400 cursor-pointer select-none" title="Ignore cached results and ask the model again">
+        <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            className="accent-electric"
+        />
+        Bypass cache
+    </label>
+  );
+
+  // The market the shown result was classified for; the selector may have moved on since
+  const resultRegion = (mode === 'lookup' ? lookupSource?.region : threadSource?.region) || region;
+
   return (
     <div className="min-h-screen flex flex-col font-sans transition-colors duration-300 bg-slate-50 dark:bg-slate-950">
       
@@ -141,6 +426,51 @@ const App: React.FC = () => {
             </div>
             
             <span className="h-5 w-px bg-slate-600 hidden sm:block"></span>
+
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`p-2 rounded-full border transition-colors ${showHistory ? 'bg-electric border-electric text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white border-slate-700'}`}
+              aria-label="History"
+              title="Classification History"
+            >
+              <History className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={() => setShowTariffBooks(!showTariffBooks)}
+              className={`p-2 rounded-full border transition-colors ${showTariffBooks ? 'bg-electric border-electric text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white border-slate-700'}`}
+              aria-label="Tariff Books"
+              title="Offline Tariff Books, Legal Notes & Control Lists"
+            >
+              <BookOpen className="w-4 h-4" />
+            </button>
+            
+            <button
+              onClick={() => setShowConverter(!showConverter)}
+              className={`p-2 rounded-full border transition-colors ${showConverter ? 'bg-electric border-electric text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white border-slate-700'}`}
+              aria-label="HS Edition Converter"
+              title="HS Edition Converter"
+            >
+              <ArrowRightLeft className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={() => setBrowser(browser ? null : { region })}
+              className={`p-2 rounded-full border transition-colors ${browser ? 'bg-electric border-electric text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white border-slate-700'}`}
+              aria-label="HS Hierarchy Browser"
+              title="HS Hierarchy Browser"
+            >
+              <ListTree className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={() => setShowReportSettings(!showReportSettings)}
+              className={`p-2 rounded-full border transition-colors ${showReportSettings ? 'bg-electric border-electric text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white border-slate-700'}`}
+              aria-label="Report Branding"
+              title="Report Branding & Letterhead"
+            >
+              <Palette className="w-4 h-4" />
+            </button>
             
             {/* Theme Toggle */}
             <button 
@@ -171,39 +501,154 @@ const App: React.FC = () => {
             </p>
           </div>
 
+          {showTariffBooks && (
+            <>
+              <TariffBookManager />
+              <LegalNotesManager />
+              <ControlListManager />
+            </>
+          )}
+
+          {showConverter && <EditionConverter />}
+
+          {showReportSettings && <ReportSettings />}
+
+          {browser && <HierarchyBrowser region={browser.region} focusCode={browser.code} onClose={() => setBrowser(null)} />}
+
+          {showHistory && (
+            <HistoryPanel refreshKey={historyVersion} onView={handleViewRecord} onRerun={handleRerunRecord} />
+          )}
+
           {/* Main Input Card */}
           <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 overflow-hidden transition-all duration-300">
              
              <div className="p-6 sm:p-10">
-                <RegionSelector selectedRegion={region} onRegionChange={setRegion} />
+                {/* Mode Tabs */}
+                <div className="flex items-center gap-1 p-1 mb-8 bg-slate-100 dark:bg-slate-800 rounded-lg w-fit">
+                    {([
+                        { id: 'single', label: 'Single Product', icon: Search },
+                        { id: 'compare', label: 'Compare Markets', icon: Columns3 },
+                        { id: 'batch', label: 'Batch Upload', icon: FileSpreadsheet },
+                        { id: 'invoice', label: 'Invoice', icon: Receipt },
+                        { id: 'lookup', label: 'Code Lookup', icon: Hash },
+                    ] as const).map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-md text-xs font-bold uppercase tracking-wide transition-all ${mode === id ? 'bg-white dark:bg-slate-900 text-electric shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-navy dark:hover:text-white'}`}
+                        >
+                            <Icon className="w-4 h-4" /> {label}
+                        </button>
+                    ))}
+                </div>
+
+                <RegionSelector
+                    selectedRegion={region}
+                    onRegionChange={setRegion}
+                    multiSelect={mode === 'compare'}
+                    selectedRegions={compareRegions}
+                    onRegionsChange={setCompareRegions}
+                />
+
+                {mode !== 'batch' && mode !== 'invoice' && <OriginSelector origin={origin} onOriginChange={setOrigin} />}
                 
+                {mode === 'batch' ? (
+                  <BatchClassifier region={region} />
+                ) : mode === 'invoice' ? (
+                  <InvoiceClassifier region={region} />
+                ) : mode === 'lookup' ? (
+                <form onSubmit={handleLookup} className="space-y-4 mt-8">
+                    <div className="flex justify-between items-center">
+                        <label className="block text-sm font-bold text-navy dark:text-white pl-1">
+                           HS Code
+                        </label>
+                        {bypassCacheToggle}
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input
+                            value={codeInput}
+                            onChange={(e) => setCodeInput(e.target.value)}
+                            placeholder="e.g., '8517.13.00' or '3924.10'"
+                            className="flex-grow bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl px-5 py-4 text-lg font-mono text-slate-900 dark:text-white placeholder:text-slate-400 focus:bg-white dark:focus:bg-slate-900 focus:border-electric dark:focus:border-electric focus:ring-2 focus:ring-electric/20 outline-none transition-all"
+                        />
+                        <button
+                            type="submit"
+                            disabled={loading || !codeInput.trim()}
+                            className="bg-electric hover:bg-blue-600 text-white rounded-xl px-8 py-4 text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-blue-500/20 active:scale-95"
+                        >
+                            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <>Look Up <ArrowRight className="w-4 h-4" /></>}
+                        </button>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 pl-1">
+                        Returns the official description, duty and tax, restrictions, required documents and sibling subheadings for {region}.
+                    </p>
+                </form>
+                ) : (
                 <div className="space-y-4 mt-8">
                     <div className="flex justify-between items-center">
                         <label className="block text-sm font-bold text-navy dark:text-white pl-1">
                            Product Description
                         </label>
-                        <span className="text-xs font-medium text-electric uppercase tracking-wider">
-                           Text or Image
-                        </span>
+                        <div className="flex items-center gap-4">
+                            {bypassCacheToggle}
+                            <span className="text-xs font-medium text-electric uppercase tracking-wider">
+                               Text, Photos or PDFs
+                            </span>
+                        </div>
                     </div>
 
-                    {/* Image Preview Thumbnail */}
-                    {imagePreview && (
-                        <div className="relative w-24 h-24 rounded-lg overflow-hidden border-2 border-electric shadow-md group">
-                            <img src={imagePreview} alt="Product Preview" className="w-full h-full object-cover" />
-                            <div className="absolute inset-0 bg-navy/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                                <button 
-                                    onClick={removeImage}
-                                    className="p-1.5 bg-white rounded-full text-electric hover:scale-110 transition-transform"
-                                >
-                                    <X className="w-4 h-4" />
-                                </button>
+                    {/* Re-run Prompt: the recorded evidence is not kept, only its fingerprints */}
+                    {reattachRecord && (
+                        <div className="flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-xs text-amber-700 dark:text-amber-400">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                            <div className="flex-1 space-y-1">
+                                <p className="font-bold">Re-attach the original files to re-run this classification</p>
+                                <p>
+                                    It was classified with {reattachRecord.evidenceFiles?.join(', ') || 'a product photo'}.
+                                    History keeps only a thumbnail, which is not sent as evidence.
+                                </p>
+                                {reattachRecord.evidenceHashes && evidence.length > 0 && (
+                                    <p className="font-medium">
+                                        {reattachRecord.evidenceHashes.filter(hash => evidenceHashes.includes(hash)).length} of {reattachRecord.evidenceHashes.length} original files attached
+                                        {evidenceHashes.some(hash => !reattachRecord.evidenceHashes!.includes(hash)) && '; some attached files differ from the recorded ones'}.
+                                    </p>
+                                )}
                             </div>
-                            {loading && (
-                                <div className="absolute inset-0 bg-navy/20 flex flex-col items-center justify-center">
-                                    <div className="w-full h-0.5 bg-electric shadow-[0_0_10px_#0066ff] animate-[scan_2s_ease-in-out_infinite]" />
+                            <button onClick={() => setReattachRecord(null)} className="text-amber-500 hover:text-amber-700" title="Dismiss">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Evidence Thumbnail Strip */}
+                    {evidence.length > 0 && (
+                        <div className="flex flex-wrap gap-3">
+                            {evidence.map((file, index) => (
+                                <div key={`${file.name}-${index}`} className="relative w-24 h-24 rounded-lg overflow-hidden border-2 border-electric shadow-md group" title={file.name}>
+                                    {isImageEvidence(file) ? (
+                                        <img src={file.dataUrl} alt={file.name} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <div className="w-full h-full bg-slate-50 dark:bg-slate-950 flex flex-col items-center justify-center gap-1 p-2">
+                                            <FileText className="w-8 h-8 text-electric" />
+                                            <span className="text-[10px] text-slate-500 dark:text-slate-400 w-full truncate text-center">{file.name}</span>
+                                        </div>
+                                    )}
+                                    <div className="absolute inset-0 bg-navy/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                                        <button 
+                                            onClick={() => removeEvidence(index)}
+                                            className="p-1.5 bg-white rounded-full text-electric hover:scale-110 transition-transform"
+                                            title={`Remove ${file.name}`}
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {loading && (
+                                        <div className="absolute inset-0 bg-navy/20 flex flex-col items-center justify-center">
+                                            <div className="w-full h-0.5 bg-electric shadow-[0_0_10px_#0066ff] animate-[scan_2s_ease-in-out_infinite]" />
+                                        </div>
+                                    )}
                                 </div>
-                            )}
+                            ))}
                         </div>
                     )}
 
@@ -211,8 +656,8 @@ const App: React.FC = () => {
                         <textarea
                             value={input}
                             onChange={(e) => setInput(e.target.value)}
-                            placeholder="e.g., 'Wireless Bluetooth Headphones' or upload a product image..."
-                            className={`w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl px-5 py-5 text-lg text-slate-900 dark:text-white placeholder:text-slate-400 focus:bg-white dark:focus:bg-slate-900 focus:border-electric dark:focus:border-electric focus:ring-2 focus:ring-electric/20 outline-none transition-all resize-none ${imagePreview ? 'min-h-[100px]' : 'min-h-[160px]'}`}
+                            placeholder="e.g., 'Wireless Bluetooth Headphones' or attach product photos and datasheets..."
+                            className={`w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl px-5 py-5 text-lg text-slate-900 dark:text-white placeholder:text-slate-400 focus:bg-white dark:focus:bg-slate-900 focus:border-electric dark:focus:border-electric focus:ring-2 focus:ring-electric/20 outline-none transition-all resize-none ${evidence.length > 0 ? 'min-h-[100px]' : 'min-h-[160px]'}`}
                             onKeyDown={(e) => {
                                 if (e.key === 'Enter' && !e.shiftKey) {
                                     e.preventDefault();
@@ -228,7 +673,8 @@ const App: React.FC = () => {
                                 type="file" 
                                 ref={fileInputRef} 
                                 onChange={handleFileSelect} 
-                                accept="image/*" 
+                                accept={EVIDENCE_ACCEPT}
+                                multiple
                                 className="hidden" 
                              />
                              
@@ -243,7 +689,7 @@ const App: React.FC = () => {
                              <button
                                 onClick={triggerCamera}
                                 className="text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800 p-2 rounded-md transition-all"
-                                title="Upload Image"
+                                title="Attach Photos or PDFs"
                              >
                                 <Camera className="w-5 h-5" />
                              </button>
@@ -252,24 +698,25 @@ const App: React.FC = () => {
 
                              <button
                                 onClick={(e) => handleSearch(e)}
-                                disabled={loading || (!input && !imagePreview)}
+                                disabled={loading || (!input && evidence.length === 0)}
                                 className="bg-electric hover:bg-blue-600 text-white rounded-md px-6 py-2 text-sm font-bold flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-blue-500/20 active:scale-95"
                              >
                                 {loading ? (
                                     <Loader2 className="w-4 h-4 animate-spin" />
                                 ) : (
                                     <>
-                                    {imagePreview ? 'Scan' : 'Classify'} <ArrowRight className="w-4 h-4" />
+                                    {evidence.length > 0 ? 'Scan' : 'Classify'} <ArrowRight className="w-4 h-4" />
                                     </>
                                 )}
                             </button>
                         </div>
                     </div>
                 </div>
+                )}
              </div>
 
              {/* Suggestions Bar */}
-             {!result && !imagePreview && (
+             {(mode === 'single' || mode === 'compare') && !result && !comparison && evidence.length === 0 && (
                  <div className="bg-slate-50 dark:bg-slate-800/50 border-t border-slate-100 dark:border-slate-800 px-10 py-4 flex flex-wrap items-center gap-3 text-sm">
                     <span className="text-slate-500 dark:text-slate-400 font-medium mr-2 text-xs uppercase tracking-wide">Quick Search:</span>
                     {[
@@ -290,15 +737,15 @@ const App: React.FC = () => {
           </div>
 
           {/* Loading State */}
-          {loading && !result && (
+          {mode !== 'batch' && mode !== 'invoice' && loading && !result && !comparison && (
             <div className="w-full max-w-2xl mx-auto text-center py-12 animate-pulse">
                 <div className="w-16 h-16 bg-blue-50 dark:bg-slate-800 rounded-full mx-auto mb-6 flex items-center justify-center text-electric shadow-lg shadow-blue-100 dark:shadow-none">
-                    {imagePreview ? <ScanLine className="w-8 h-8 animate-pulse" /> : <Loader2 className="w-8 h-8 animate-spin" />}
+                    {evidence.length > 0 && mode !== 'lookup' ? <ScanLine className="w-8 h-8 animate-pulse" /> : <Loader2 className="w-8 h-8 animate-spin" />}
                 </div>
                 <h3 className="text-xl font-bold text-navy dark:text-white transition-all duration-300">
                   {loadingStatus}
                 </h3>
-                <p className="text-slate-500 dark:text-slate-400 mt-2">Cross-referencing tariff schedules for {region}</p>
+                <p className="text-slate-500 dark:text-slate-400 mt-2">Cross-referencing tariff schedules for {mode === 'compare' ? compareRegions.join(', ') : region}</p>
             </div>
           )}
 
@@ -313,22 +760,77 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Clarifying Questions */}
+          {mode === 'single' && clarification && !loading && (
+            <ClarificationWizard
+              questions={clarification.questions}
+              onSubmit={answerClarification}
+              onSkip={() => answerClarification()}
+            />
+          )}
+
           {/* Results Section */}
-          {result && (
+          {(mode === 'single' || mode === 'lookup') && result && (
             <div className="animate-in slide-in-from-bottom-6 duration-700 pb-20">
                 <div className="flex items-center justify-between mb-6 px-2">
                     <h2 className="text-2xl font-bold text-navy dark:text-white flex items-center gap-3">
                         <Container className="w-6 h-6 text-electric" />
-                        Classification Results
+                        {mode === 'lookup' ? 'Tariff Profile' : 'Classification Results'}
+                    </h2>
+                    <button 
+                        onClick={clearResults}
+                        className="text-sm font-semibold text-slate-500 hover:text-electric transition-colors flex items-center gap-1"
+                    >
+                        <X className="w-4 h-4" /> Clear
+                    </button>
+                </div>
+                <ResultCard
+                    result={result}
+                    region={resultRegion}
+                    onRefresh={mode === 'lookup' ? (lookupSource ? handleRefreshLookup : undefined) : (threadSource && !threadSource.originalsMissing ? handleRefreshResult : undefined)}
+                    onBrowseCode={(code) => setBrowser({ region: resultRegion, code })}
+                    origin={origin}
+                />
+                {thread.length > 0 && (
+                    <div className="mt-8">
+                        <RefinementThread
+                            thread={thread}
+                            activeResult={result}
+                            loading={refining}
+                            loadingStatus={refineStatus}
+                            onSend={handleRefine}
+                            onShowResult={setResult}
+                            blockedReason={threadSource?.originalsMissing ? "This result was reopened from history without its attached files. Re-attach the originals above and classify again to refine it." : undefined}
+                        />
+                    </div>
+                )}
+            </div>
+          )}
+
+          {/* Comparison Section */}
+          {mode === 'compare' && comparison && (
+            <div className="animate-in slide-in-from-bottom-6 duration-700 pb-20 space-y-8">
+                <div className="flex items-center justify-between px-2">
+                    <h2 className="text-2xl font-bold text-navy dark:text-white flex items-center gap-3">
+                        <Columns3 className="w-6 h-6 text-electric" />
+                        Market Comparison
                     </h2>
                     <button 
-                        onClick={() => { setResult(null); setInput(''); setImagePreview(null); }}
+                        onClick={clearResults}
                         className="text-sm font-semibold text-slate-500 hover:text-electric transition-colors flex items-center gap-1"
                     >
                         <X className="w-4 h-4" /> Clear
                     </button>
                 </div>
-                <ResultCard result={result} region={region} />
+                <MarketComparison entries={comparison} selectedRegion={comparisonRegion} onSelect={setComparisonRegion} description={input} origin={origin} />
+                {comparisonRegion && comparison.find(entry => entry.region === comparisonRegion)?.result && (
+                    <ResultCard
+                        result={comparison.find(entry => entry.region === comparisonRegion)!.result!}
+                        region={comparisonRegion}
+                        onBrowseCode={(code) => setBrowser({ region: comparisonRegion, code })}
+                        origin={origin}
+                    />
+                )}
             </div>
           )}
 
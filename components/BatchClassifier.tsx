@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { TargetRegion } from '../types';
+import { BatchItem, BatchRow, BatchProgress, BatchRun, readBatchFile, createBatchRun, exportBatchResults } from '../services/batchClassifier';
+import { formatRate } from '../services/rateParser';
+import { downloadReport } from '../services/pdfReport';
+import { FileSpreadsheet, Upload, Play, Pause, RotateCcw, Download, Loader2, CheckCircle2, XCircle, Clock, AlertTriangle, FileText } from 'lucide-react';
+
+interface BatchClassifierProps {
+  region: TargetRegion;
+}
+
+const CONCURRENCY = 3;
+
+export const BatchClassifier: React.FC<BatchClassifierProps> = ({ region }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<BatchRun | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isRunning = !!progress && !progress.paused && progress.running > 0;
+  const isFinished = !!progress && progress.completed + progress.failed === progress.total;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setRows([]);
+    setProgress(null);
+    runRef.current = null;
+    try {
+      setItems(await readBatchFile(file));
+      setFileName(file.name);
+    } catch (err: any) {
+      setItems([]);
+      setFileName(null);
+      setError(err.message || "Could not read the spreadsheet.");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleStart = () => {
+    const run = createBatchRun(items, region, {
+      concurrency: CONCURRENCY,
+      onUpdate: (nextRows, nextProgress) => {
+        setRows(nextRows);
+        setProgress(nextProgress);
+      },
+    });
+    runRef.current = run;
+    run.start();
+  };
+
+  const statusIcon = (row: BatchRow) => {
+    switch (row.status) {
+      case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+      case 'failed': return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'running': return <Loader2 className="w-4 h-4 text-electric animate-spin" />;
+      default: return <Clock className="w-4 h-4 text-slate-400" />;
+    }
+  };
+
+  const percent = progress ? Math.round(((progress.completed + progress.failed) / progress.total) * 100) : 0;
+  const displayRows: BatchRow[] = rows.length > 0 ? rows : items.map(item => ({ item, status: 'pending', attempts: 0 }));
+
+  return (
+    <div className="space-y-6 mt-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <label className="block text-sm font-bold text-navy dark:text-white">Product List</label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            CSV or XLSX with a <code>description</code> column. Optional: <code>sku</code>, <code>origin</code>, <code>image_url</code>.
+          </p>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning}
+          className="flex items-center gap-2 bg-white dark:bg-slate-800 hover:bg-blue-50 dark:hover:bg-slate-700 text-navy dark:text-white border border-slate-200 dark:border-slate-700 text-xs font-bold px-4 py-3 rounded-lg transition-all shadow-sm uppercase tracking-wide disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4 text-electric" /> Upload Spreadsheet
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-slate-50 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-slate-800">
+            <div className="flex items-center gap-3 text-sm">
+              <FileSpreadsheet className="w-5 h-5 text-electric" />
+              <span className="font-semibold text-navy dark:text-white">{fileName}</span>
+              <span className="text-slate-500">{items.length} products · {region}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {!progress && (
+                <button onClick={handleStart} className="bg-electric hover:bg-blue-600 text-white rounded-md px-5 py-2 text-sm font-bold flex items-center gap-2 shadow-md shadow-blue-500/20">
+                  <Play className="w-4 h-4" /> Start Batch
+                </button>
+              )}
+              {progress && !isFinished && !progress.paused && (
+                <button onClick={() => runRef.current?.pause()} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Pause className="w-4 h-4" /> Pause
+                </button>
+              )}
+              {progress && progress.paused && !isFinished && (
+                <button onClick={() => runRef.current?.resume()} className="bg-electric hover:bg-blue-600 text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Play className="w-4 h-4" /> Resume
+                </button>
+              )}
+              {progress && progress.failed > 0 && (
+                <button onClick={() => runRef.current?.retryFailed()} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <RotateCcw className="w-4 h-4" /> Retry Failed
+                </button>
+              )}
+              {progress && progress.completed > 0 && (
+                <button onClick={() => exportBatchResults(rows, region)} className="bg-navy hover:bg-slate-800 text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Download className="w-4 h-4" /> Download Results
+                </button>
+              )}
+              {progress && progress.completed > 0 && (
+                <button
+                  onClick={() => downloadReport(rows.flatMap(row => row.result ? [{ result: row.result, region, input: row.item.description }] : []), { title: 'Batch Classification Report' })}
+                  className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2"
+                >
+                  <FileText className="w-4 h-4 text-electric" /> Report PDF
+                </button>
+              )}
+            </div>
+          </div>
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs font-bold text-slate-500 dark:text-slate-400 mb-2 uppercase">
+                <span>
+                  {progress.paused && !isFinished ? 'Paused' : isFinished ? 'Finished' : 'Classifying'} · {progress.completed} done · {progress.failed} failed
+                </span>
+                <span className="text-electric">{percent}%</span>
+              </div>
+              <div className="h-2 w-full bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-electric transition-all duration-500" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-[480px] overflow-y-auto rounded-xl border border-slate-100 dark:border-slate-800">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-800/50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider"></th>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">SKU</th>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Description</th>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">HS Code</th>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Duty</th>
+                  <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Confidence</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {displayRows.map(row => (
+                  <tr key={row.item.id} className="hover:bg-blue-50/30 dark:hover:bg-slate-800/30 transition-colors">
+                    <td className="px-4 py-3">{statusIcon(row)}</td>
+                    <td className="px-4 py-3 text-xs text-slate-500 whitespace-nowrap">{row.item.sku || '—'}</td>
+                    <td className="px-4 py-3 text-slate-700 dark:text-slate-200">
+                      {row.item.description}
+                      {row.error && row.status === 'failed' && <p className="text-[10px] text-red-500 mt-1">{row.error}</p>}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-electric font-bold whitespace-nowrap">{row.result?.hsCode || ''}</td>
+                    <td className="px-4 py-3 text-xs text-slate-600 dark:text-slate-300 whitespace-nowrap">{row.result ? formatRate(row.result.dutyRate) : ''}</td>
+                    <td className="px-4 py-3 text-xs text-slate-600 dark:text-slate-300">{row.result ? `${row.result.confidenceScore}%` : ''}</td>
+                    <td className="px-4 py-3 text-right">
+                      {row.status === 'failed' && (
+                        <button onClick={() => runRef.current?.retryRow(row.item.id)} className="p-1.5 rounded-md text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800" title="Retry row">
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
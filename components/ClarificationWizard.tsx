@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ClarifyingQuestion, ClarificationAnswer } from '../types';
+import { HelpCircle, ArrowLeft, ArrowRight, Check, SkipForward } from 'lucide-react';
+
+interface ClarificationWizardProps {
+  questions: ClarifyingQuestion[];
+  onSubmit: (answers: ClarificationAnswer[]) => void;
+  onSkip: () => void; // Classify with the original description only
+}
+
+const OTHER = '__other__';
+
+export const ClarificationWizard: React.FC<ClarificationWizardProps> = ({ questions, onSubmit, onSkip }) => {
+  const [step, setStep] = useState(0);
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [otherText, setOtherText] = useState<Record<string, string>>({});
+
+  const question = questions[step];
+  const isLast = step === questions.length - 1;
+
+  const answerFor = (q: ClarifyingQuestion) => selected[q.id] === OTHER ? (otherText[q.id] || '').trim() : selected[q.id];
+  const canContinue = !!answerFor(question);
+
+  const handleNext = () => {
+    if (!canContinue) return;
+    if (!isLast) {
+      setStep(step + 1);
+      return;
+    }
+    onSubmit(questions.map(q => ({ questionId: q.id, question: q.question, answer: answerFor(q) })));
+  };
+
+  const optionClass = (active: boolean) => `w-full text-left px-4 py-3 rounded-xl border text-sm transition-all ${active
+    ? 'border-electric bg-blue-50 dark:bg-slate-800 text-navy dark:text-white font-semibold'
+    : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-electric'}`;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200 dark:shadow-black border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <HelpCircle className="w-4 h-4 text-electric" /> A few details decide the classification
+        </h3>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+          Question {step + 1} of {questions.length}
+        </span>
+      </div>
+
+      <div className="h-1 w-full bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-6">
+        <div className="h-full bg-electric transition-all duration-300" style={{ width: `${((step + 1) / questions.length) * 100}%` }} />
+      </div>
+
+      <p className="text-lg font-bold text-navy dark:text-white">{question.question}</p>
+      {question.basis && (
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1">{question.basis}</p>
+      )}
+
+      <div className="space-y-2 mt-5">
+        {question.options.map(option => (
+          <button
+            key={option}
+            onClick={() => setSelected({ ...selected, [question.id]: option })}
+            className={optionClass(selected[question.id] === option)}
+          >
+            {option}
+          </button>
+        ))}
+        <button
+          onClick={() => setSelected({ ...selected, [question.id]: OTHER })}
+          className={optionClass(selected[question.id] === OTHER)}
+        >
+          Other
+        </button>
+        {selected[question.id] === OTHER && (
+          <input
+            autoFocus
+            value={otherText[question.id] || ''}
+            onChange={(e) => setOtherText({ ...otherText, [question.id]: e.target.value })}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleNext(); }}
+            placeholder="Describe it in your own words..."
+            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-2.5 text-sm text-slate-900 dark:text-white focus:border-electric outline-none"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-8">
+        <button
+          onClick={onSkip}
+          className="text-xs font-bold text-slate-500 hover:text-electric uppercase tracking-wide flex items-center gap-1"
+          title="Classify from the description alone"
+        >
+          <SkipForward className="w-4 h-4" /> Classify Anyway
+        </button>
+        <div className="flex items-center gap-2">
+          {step > 0 && (
+            <button
+              onClick={() => setStep(step - 1)}
+              className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" /> Back
+            </button>
+          )}
+          <button
+            onClick={handleNext}
+            disabled={!canContinue}
+            className="bg-electric hover:bg-blue-600 text-white rounded-md px-5 py-2 text-sm font-bold flex items-center gap-2 shadow-md shadow-blue-500/20 disabled:opacity-50"
+          >
+            {isLast ? <>Classify <Check className="w-4 h-4" /></> : <>Next <ArrowRight className="w-4 h-4" /></>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
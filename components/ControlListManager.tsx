@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ControlListInfo, TargetRegion } from '../types';
+import { importControlList, listControlLists, deleteControlList } from '../services/controlLists';
+import { ShieldAlert, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+
+const ALL_MARKETS = '';
+
+export const ControlListManager: React.FC = () => {
+  const [lists, setLists] = useState<ControlListInfo[]>([]);
+  const [region, setRegion] = useState<string>(ALL_MARKETS);
+  const [permit, setPermit] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listControlLists().then(setLists).catch(() => setLists([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      await importControlList(file, {
+        regions: region === ALL_MARKETS ? [] : [region as TargetRegion],
+        permit: permit.trim() || 'Export or import permit from the national control authority',
+      });
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to import control list.");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteControlList(id);
+    await refresh();
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4 text-electric" />
+          Strategic Goods & Dual-Use Lists
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">CSV, XLSX or JSON</span>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        One controlled item per row with columns such as <code>entry</code>, <code>description</code>, <code>hs_codes</code> and <code>keywords</code> (separated by semicolons), and optionally <code>permit</code>. Every classification is screened against the lists enforced in its market.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select value={region} onChange={(e) => setRegion(e.target.value)} className={inputClass}>
+          <option value={ALL_MARKETS}>All markets</option>
+          {Object.values(TargetRegion).filter(r => r !== TargetRegion.GLOBAL).map(r => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <input
+          value={permit}
+          onChange={(e) => setPermit(e.target.value)}
+          className={`${inputClass} flex-grow`}
+          placeholder="Permit required, e.g. Strategic Goods Permit"
+        />
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="bg-electric hover:bg-blue-600 text-white rounded-lg px-5 py-2 text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 shadow-md shadow-blue-500/20 shrink-0"
+        >
+          {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import List
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      <ul className="mt-6 divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl">
+        {lists.map(list => (
+          <li key={list.id} className="flex items-center justify-between px-4 py-3 text-sm">
+            <div>
+              <span className="font-semibold text-navy dark:text-white">{list.name}</span>
+              <p className="text-xs text-slate-400">
+                {list.entryCount.toLocaleString()} entries · {list.regions.length > 0 ? list.regions.join(', ') : 'All markets'} · {list.builtIn ? 'Bundled' : `Imported ${new Date(list.importedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            {!list.builtIn && (
+              <button
+                onClick={() => handleDelete(list.id)}
+                className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 transition-colors"
+                title="Remove list"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TargetRegion } from '../types';
+import {
+  DeclarationShipment, DeclarationItem, DeclarationFormatId, TRANSPORT_MODES, QUANTITY_UNITS,
+  emptyShipment, listDeclarationFormats, validateDeclaration, exportDeclaration,
+} from '../services/customsDeclaration';
+import { LOCAL_CURRENCIES } from '../services/landedCost';
+import { FileOutput, Download, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface DeclarationExporterProps {
+  region: TargetRegion;
+  items: DeclarationItem[];               // Classified lines; quantities and values can be completed here
+  shipment?: Partial<DeclarationShipment>; // Details already known, e.g. from an extracted invoice
+}
+
+// Only details that are actually known overwrite what the user typed
+const knownDetails = (shipment?: Partial<DeclarationShipment>): Partial<DeclarationShipment> =>
+  Object.fromEntries(Object.entries(shipment || {}).filter(([, value]) => value !== undefined && value !== ''));
+
+// Rebuilds the editable lines only when the classified lines themselves change
+const itemsSignature = (items: DeclarationItem[]) =>
+  items.map(item => [item.hsCode, item.description, item.origin, item.quantity, item.value].join('|')).join('\n');
+
+export const DeclarationExporter: React.FC<DeclarationExporterProps> = ({ region, items: classifiedItems, shipment: knownShipment }) => {
+  const formats = listDeclarationFormats(region);
+  const [formatId, setFormatId] = useState<DeclarationFormatId>((formats.find(f => f.regional) || formats[0]).id);
+  const [shipment, setShipment] = useState<DeclarationShipment>({ ...emptyShipment(LOCAL_CURRENCIES[region]), ...knownDetails(knownShipment) });
+  const [items, setItems] = useState<DeclarationItem[]>(classifiedItems);
+  const [attempted, setAttempted] = useState(false);
+  const [written, setWritten] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFormatId((formats.find(f => f.regional) || formats[0]).id);
+  }, [region]);
+
+  useEffect(() => {
+    setShipment(current => ({ ...current, ...knownDetails(knownShipment) }));
+  }, [JSON.stringify(knownShipment)]);
+
+  useEffect(() => {
+    setItems(classifiedItems);
+  }, [itemsSignature(classifiedItems)]);
+
+  const issues = useMemo(() => validateDeclaration(formatId, shipment, items, region), [formatId, shipment, items, region]);
+
+  const update = (changes: Partial<DeclarationShipment>) => {
+    setShipment(current => ({ ...current, ...changes }));
+    setWritten(null);
+  };
+
+  const updateItem = (index: number, changes: Partial<DeclarationItem>) => {
+    setItems(current => current.map((item, i) => i === index ? { ...item, ...changes } : item));
+    setWritten(null);
+  };
+
+  // Missing fields are reported instead of writing an incomplete file
+  const handleExport = () => {
+    setAttempted(true);
+    if (issues.length > 0) return;
+    setWritten(exportDeclaration(formatId, shipment, items, region));
+  };
+
+  const parseNumber = (value: string) => value ? parseFloat(value) || undefined : undefined;
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+  const cellInput = "w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-700 focus:border-electric rounded px-2 py-1 text-sm text-slate-700 dark:text-slate-200 outline-none";
+  const labelClass = "block text-slate-400 text-[10px] font-bold uppercase mb-1";
+  const headerCell = "px-3 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider";
+
+  const textField = (field: keyof DeclarationShipment, label: string, placeholder = '') => (
+    <label>
+      <span className={labelClass}>{label}</span>
+      <input value={(shipment[field] as string) || ''} onChange={(e) => update({ [field]: e.target.value })} className={inputClass} placeholder={placeholder} />
+    </label>
+  );
+
+  return (
+    <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+      <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+        <FileOutput className="w-4 h-4 text-electric" /> Customs Declaration
+      </h4>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label>
+          <span className={labelClass}>Format</span>
+          <select value={formatId} onChange={(e) => { setFormatId(e.target.value as DeclarationFormatId); setWritten(null); }} className={inputClass}>
+            {formats.map(format => <option key={format.id} value={format.id}>{format.name}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Declaration</span>
+          <select value={shipment.declarationType} onChange={(e) => update({ declarationType: e.target.value as DeclarationShipment['declarationType'] })} className={inputClass}>
+            <option value="import">Import</option>
+            <option value="export">Export</option>
+          </select>
+        </label>
+        {textField('declarantId', 'Declarant ID', 'UEN, IEC, client code')}
+        {textField('declarantName', 'Declarant Name')}
+        {textField('consignorName', 'Consignor')}
+        {textField('consigneeName', 'Consignee')}
+        <label>
+          <span className={labelClass}>Transport</span>
+          <select value={shipment.transportMode} onChange={(e) => update({ transportMode: e.target.value as DeclarationShipment['transportMode'] })} className={inputClass}>
+            {TRANSPORT_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+          </select>
+        </label>
+        {textField('transportDocument', 'BL / AWB No.')}
+        {textField('portCode', 'Port Code', 'e.g. SGSIN, AEJEA, INNSA1')}
+        <label>
+          <span className={labelClass}>{shipment.declarationType === 'import' ? 'Shipped From' : 'Shipped To'}</span>
+          <input value={shipment.partnerCountry} onChange={(e) => update({ partnerCountry: e.target.value.toUpperCase().slice(0, 2) })} className={inputClass} placeholder="ISO code, e.g. CN" />
+        </label>
+        {textField('invoiceNumber', 'Invoice No.')}
+        <label>
+          <span className={labelClass}>Invoice Date</span>
+          <input type="date" value={shipment.invoiceDate} onChange={(e) => update({ invoiceDate: e.target.value })} className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Currency</span>
+          <input value={shipment.currency} onChange={(e) => update({ currency: e.target.value.toUpperCase().slice(0, 3) })} className={inputClass} />
+        </label>
+        {textField('incoterm', 'Incoterm', 'e.g. CIF, FOB')}
+        <label>
+          <span className={labelClass}>Gross Weight (kg)</span>
+          <input type="number" min="0" step="any" value={shipment.grossWeightKg ?? ''} onChange={(e) => update({ grossWeightKg: parseNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Packages</span>
+          <input type="number" min="0" step="1" value={shipment.packages ?? ''} onChange={(e) => update({ packages: parseNumber(e.target.value) })} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="mt-6 overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-800">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className={headerCell}>#</th>
+              <th className={headerCell}>HS Code</th>
+              <th className={headerCell}>Description</th>
+              <th className={headerCell}>Origin</th>
+              <th className={headerCell}>Qty</th>
+              <th className={headerCell}>Unit</th>
+              <th className={headerCell}>Value</th>
+              <th className={headerCell}>Net kg</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            {items.map((item, i) => (
+              <tr key={i}>
+                <td className="px-3 py-2 text-xs text-slate-400">{i + 1}</td>
+                <td className="px-2 py-1 w-32"><input value={item.hsCode} onChange={(e) => updateItem(i, { hsCode: e.target.value })} className={`${cellInput} font-mono font-bold text-electric`} /></td>
+                <td className="px-2 py-1 min-w-[200px]"><input value={item.description} onChange={(e) => updateItem(i, { description: e.target.value })} className={cellInput} /></td>
+                <td className="px-2 py-1 w-20"><input value={item.origin} onChange={(e) => updateItem(i, { origin: e.target.value.toUpperCase().slice(0, 2) })} className={cellInput} placeholder="CN" /></td>
+                <td className="px-2 py-1 w-24"><input type="number" min="0" step="any" value={item.quantity ?? ''} onChange={(e) => updateItem(i, { quantity: parseNumber(e.target.value) })} className={cellInput} /></td>
+                <td className="px-2 py-1 w-24">
+                  <select value={item.unit} onChange={(e) => updateItem(i, { unit: e.target.value })} className={cellInput}>
+                    {QUANTITY_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-1 w-28"><input type="number" min="0" step="any" value={item.value ?? ''} onChange={(e) => updateItem(i, { value: parseNumber(e.target.value) })} className={cellInput} /></td>
+                <td className="px-2 py-1 w-24"><input type="number" min="0" step="any" value={item.netWeightKg ?? ''} onChange={(e) => updateItem(i, { netWeightKg: parseNumber(e.target.value) })} className={cellInput} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="text-xs">
+          {attempted && issues.length > 0 && (
+            <ul className="space-y-1">
+              {issues.map((issue, i) => (
+                <li key={i} className="text-red-500 flex items-start gap-2">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {issue}
+                </li>
+              ))}
+            </ul>
+          )}
+          {written && (
+            <p className="text-emerald-600 dark:text-emerald-400 flex items-center gap-2">
+              <CheckCircle2 className="w-3 h-3" /> Written {written}
+            </p>
+          )}
+          {!attempted && (
+            <p className="text-slate-400">Required fields depend on the format; anything missing is listed before the file is written.</p>
+          )}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={items.length === 0}
+          className="bg-navy hover:bg-slate-800 text-white rounded-md px-4 py-2 text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50 shrink-0"
+        >
+          <Download className="w-4 h-4" /> Export Declaration
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HSEdition, CodeConversion, CorrelationTableInfo, CorrelationKind } from '../types';
+import { HS_EDITIONS, CURRENT_EDITION, formatEdition, nextEdition, convertHSCode, describeStep, importCorrelationTable, listCorrelationTables, deleteCorrelationTable } from '../services/hsCorrelation';
+import { formatHSCode } from '../services/hsCode';
+import { ArrowRightLeft, ArrowRight, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+
+const KIND_LABELS: Record<CorrelationKind, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800' },
+  renumbered: { label: 'Renumbered', className: 'bg-blue-50 text-electric border-blue-200 dark:bg-blue-900/20 dark:border-blue-800' },
+  split: { label: 'Split', className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800' },
+  merged: { label: 'Merged', className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800' },
+  restructured: { label: 'Split & Merged', className: 'bg-red-50 text-red-600 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800' },
+};
+
+// Editions that have a successor, i.e. can be the older side of a correlation table
+const TABLE_EDITIONS = HS_EDITIONS.filter(edition => nextEdition(edition));
+
+export const EditionConverter: React.FC = () => {
+  const [code, setCode] = useState('');
+  const [fromEdition, setFromEdition] = useState<HSEdition>('HS2017');
+  const [toEdition, setToEdition] = useState<HSEdition>(CURRENT_EDITION);
+  const [conversion, setConversion] = useState<CodeConversion | null>(null);
+  const [tables, setTables] = useState<CorrelationTableInfo[]>([]);
+  const [tableEdition, setTableEdition] = useState<HSEdition>('HS2017');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listCorrelationTables().then(setTables).catch(() => setTables([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setConversion(await convertHSCode(code, fromEdition, toEdition));
+    } catch (err: any) {
+      setConversion(null);
+      setError(err.message || "Conversion failed.");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      await importCorrelationTable(file, tableEdition);
+      await refresh();
+      setConversion(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to import correlation table.");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteCorrelationTable(id);
+    await refresh();
+    setConversion(null);
+  };
+
+  const selectClass = "bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+  const missingSteps = conversion ? conversion.steps.filter(step => !step.tableLoaded) : [];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <ArrowRightLeft className="w-4 h-4 text-electric" />
+          HS Edition Converter
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">WCO correlation tables</span>
+      </div>
+
+      <form onSubmit={handleConvert} className="flex flex-col sm:flex-row gap-3">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="e.g. 8517.12"
+          className={`${selectClass} flex-grow font-mono`}
+        />
+        <select value={fromEdition} onChange={(e) => setFromEdition(e.target.value as HSEdition)} className={selectClass}>
+          {HS_EDITIONS.map(edition => <option key={edition} value={edition}>{formatEdition(edition)}</option>)}
+        </select>
+        <ArrowRight className="w-4 h-4 text-slate-400 self-center hidden sm:block" />
+        <select value={toEdition} onChange={(e) => setToEdition(e.target.value as HSEdition)} className={selectClass}>
+          {HS_EDITIONS.map(edition => <option key={edition} value={edition}>{formatEdition(edition)}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={!code.trim()}
+          className="bg-electric hover:bg-blue-600 text-white rounded-lg px-5 py-2 text-sm font-bold transition-all disabled:opacity-50 shadow-md shadow-blue-500/20"
+        >
+          Convert
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      {conversion && (
+        <div className="mt-6 border border-slate-100 dark:border-slate-800 rounded-xl p-5">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <span className="font-mono font-bold text-navy dark:text-white">{formatHSCode(conversion.code)}</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">{formatEdition(conversion.fromEdition)} → {formatEdition(conversion.toEdition)}</span>
+            <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border ${KIND_LABELS[conversion.kind].className}`}>
+              {KIND_LABELS[conversion.kind].label}
+            </span>
+          </div>
+          <ul className="space-y-2">
+            {conversion.targets.map(target => (
+              <li key={target.code} className="flex items-baseline gap-3 text-sm">
+                <span className="font-mono font-bold text-electric whitespace-nowrap">{formatHSCode(target.code)}</span>
+                {target.note && <span className="text-slate-600 dark:text-slate-300">{target.note}</span>}
+              </li>
+            ))}
+          </ul>
+          {conversion.steps.length > 1 && (
+            <ol className="mt-4 space-y-1 text-xs text-slate-500 dark:text-slate-400">
+              {conversion.steps.map(step => (
+                <li key={step.fromEdition}>
+                  {describeStep(step)}
+                </li>
+              ))}
+            </ol>
+          )}
+          {conversion.kind !== 'unchanged' && conversion.code.length > 6 && (
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+              Correlations are published at the 6-digit level. Determine the national line under the new subheading.
+            </p>
+          )}
+          {missingSteps.length > 0 && (
+            <p className="mt-3 text-xs text-amber-600 dark:text-amber-400 flex items-center gap-2">
+              <AlertTriangle className="w-3 h-3" />
+              No correlation table for {missingSteps.map(step => `${formatEdition(step.fromEdition)} ↔ ${formatEdition(step.toEdition)}`).join(', ')}; the code was carried over unchanged.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Correlation Tables */}
+      <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select value={tableEdition} onChange={(e) => setTableEdition(e.target.value as HSEdition)} className={`${selectClass} flex-grow`}>
+            {TABLE_EDITIONS.map(edition => (
+              <option key={edition} value={edition}>{formatEdition(edition)} → {formatEdition(nextEdition(edition)!)}</option>
+            ))}
+          </select>
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="flex items-center justify-center gap-2 text-sm font-bold text-navy dark:text-white px-5 py-2 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-blue-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            {importing ? <Loader2 className="w-4 h-4 animate-spin text-electric" /> : <Upload className="w-4 h-4 text-electric" />}
+            Import Table
+          </button>
+        </div>
+
+        <ul className="mt-4 divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl">
+          {tables.map(table => (
+            <li key={table.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="font-semibold text-navy dark:text-white">{formatEdition(table.fromEdition)} → {formatEdition(table.toEdition)}</span>
+                <span className="text-slate-500 dark:text-slate-400"> · {table.name}</span>
+                <p className="text-xs text-slate-400">
+                  {table.rowCount.toLocaleString()} rows · {table.builtIn ? 'Used when no full table is imported' : `Imported ${new Date(table.importedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {!table.builtIn && (
+                <button
+                  onClick={() => handleDelete(table.id)}
+                  className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 transition-colors"
+                  title="Remove correlation table"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
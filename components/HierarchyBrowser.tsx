@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { HSNode, TargetRegion } from '../types';
+import { getSections, getChildren, getPath, searchHierarchy } from '../services/hsHierarchy';
+import { hasTariffBook } from '../services/tariffBook';
+import { formatHSCode, normalizeHSCode } from '../services/hsCode';
+import { ListTree, Search, X, ChevronRight, Loader2, AlertTriangle } from 'lucide-react';
+
+interface HierarchyBrowserProps {
+  region: TargetRegion;
+  focusCode?: string; // Opens the browser at this code, e.g. from a result card
+  onClose: () => void;
+}
+
+const LEVEL_LABELS: Record<HSNode['level'], string> = {
+  section: 'Section',
+  chapter: 'Chapter',
+  heading: 'Heading',
+  subheading: 'Subheading',
+  line: 'National Line',
+};
+
+const displayCode = (node: HSNode) => node.level === 'section' ? node.code : formatHSCode(node.code);
+
+export const HierarchyBrowser: React.FC<HierarchyBrowserProps> = ({ region, focusCode, onClose }) => {
+  const [path, setPath] = useState<HSNode[]>([]);
+  const [nodes, setNodes] = useState<HSNode[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<HSNode[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [bookLoaded, setBookLoaded] = useState(true);
+  const focus = normalizeHSCode(focusCode || '');
+
+  useEffect(() => {
+    hasTariffBook(region).then(setBookLoaded).catch(() => setBookLoaded(false));
+    if (focusCode) getPath(focusCode, region).then(setPath).catch(() => setPath([]));
+    else setPath([]);
+  }, [region, focusCode]);
+
+  // A node without children (a national line, or a heading the book does not break down)
+  // is shown among its siblings with its details below
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const current = path[path.length - 1];
+      if (!current) return getSections();
+      const children = await getChildren(current, region);
+      if (children.length > 0 || path.length < 2) return children;
+      return getChildren(path[path.length - 2], region);
+    };
+    setLoading(true);
+    load()
+      .then(list => { if (!cancelled) setNodes(list); })
+      .catch(() => { if (!cancelled) setNodes([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [path, region]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchHierarchy(query, region)
+        .then(matches => { if (!cancelled) setResults(matches); })
+        .catch(() => { if (!cancelled) setResults([]); });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, region]);
+
+  const current = path[path.length - 1];
+  // The list holds the current node's siblings when it has no children of its own
+  const isLeaf = !!current && nodes.some(node => node.id === current.id);
+
+  // Among siblings the last crumb is swapped rather than nested
+  const openNode = (node: HSNode) => setPath(isLeaf ? [...path.slice(0, -1), node] : [...path, node]);
+
+  const openResult = async (node: HSNode) => {
+    setQuery('');
+    setPath(await getPath(node.code, region));
+  };
+
+  const isHighlighted = (node: HSNode) =>
+    node.id === current?.id || (node.level !== 'section' && !!focus && focus.startsWith(node.code));
+
+  const renderNode = (node: HSNode, onClick: () => void) => (
+    <li key={node.id}>
+      <button
+        onClick={onClick}
+        className={`w-full flex items-baseline gap-3 px-4 py-3 text-left text-sm transition-colors ${isHighlighted(node) ? 'bg-blue-50 dark:bg-slate-800' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+      >
+        <span className={`font-mono font-bold whitespace-nowrap ${isHighlighted(node) ? 'text-electric' : 'text-navy dark:text-white'}`}>
+          {displayCode(node)}
+        </span>
+        <span className="flex-grow text-slate-600 dark:text-slate-300">{node.title}</span>
+        {node.tariffLine?.duty && <span className="text-xs text-slate-400 whitespace-nowrap">{node.tariffLine.duty}</span>}
+        {node.level !== 'line' && <ChevronRight className="w-4 h-4 text-slate-300 self-center" />}
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/60 backdrop-blur-sm p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+            <ListTree className="w-4 h-4 text-electric" />
+            HS Hierarchy Browser
+          </h3>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-slate-500 dark:text-slate-400">{region}</span>
+            <button onClick={onClose} className="p-1 rounded-md text-slate-400 hover:text-navy dark:hover:text-white transition-colors" aria-label="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by code or description, e.g. 8517 or smartphones"
+            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none"
+            autoFocus
+          />
+        </div>
+
+        {!bookLoaded && (
+          <p className="mt-3 text-xs text-amber-600 dark:text-amber-400 flex items-center gap-2">
+            <AlertTriangle className="w-3 h-3" />
+            No tariff book imported for {region}. Sections and chapters are listed; import a tariff book to browse headings and national lines.
+          </p>
+        )}
+
+        {results ? (
+          <ul className="mt-4 divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl overflow-hidden">
+            {results.length === 0 && <li className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">No matching codes.</li>}
+            {results.map(node => renderNode(node, () => openResult(node)))}
+          </ul>
+        ) : (
+          <>
+            {/* Breadcrumbs */}
+            <nav className="mt-4 flex flex-wrap items-center gap-1 text-xs">
+              <button onClick={() => setPath([])} className="font-bold text-electric hover:underline">All Sections</button>
+              {path.map((node, index) => (
+                <React.Fragment key={node.id}>
+                  <ChevronRight className="w-3 h-3 text-slate-400" />
+                  <button
+                    onClick={() => setPath(path.slice(0, index + 1))}
+                    className={`hover:underline ${index === path.length - 1 ? 'font-bold text-navy dark:text-white' : 'text-electric'}`}
+                    title={node.title}
+                  >
+                    {LEVEL_LABELS[node.level]} {displayCode(node)}
+                  </button>
+                </React.Fragment>
+              ))}
+            </nav>
+
+            <ul className="mt-4 max-h-[50vh] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl">
+              {loading && nodes.length === 0 && (
+                <li className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-electric" /> Loading…
+                </li>
+              )}
+              {!loading && nodes.length === 0 && (
+                <li className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">
+                  {bookLoaded ? 'The tariff book has no lines under this code.' : 'Import a tariff book to see the codes under this chapter.'}
+                </li>
+              )}
+              {nodes.map(node => renderNode(node, () => openNode(node)))}
+            </ul>
+
+            {isLeaf && current.tariffLine && (
+              <div className="mt-4 border border-slate-100 dark:border-slate-800 rounded-xl p-5 text-sm">
+                <div className="flex items-baseline gap-3 mb-2">
+                  <span className="font-mono font-bold text-electric">{formatHSCode(current.code)}</span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{current.tariffLine.bookName} · {current.tariffLine.edition}</span>
+                </div>
+                <p className="text-slate-700 dark:text-slate-200">{current.tariffLine.description}</p>
+                <dl className="mt-3 grid grid-cols-2 gap-2 text-xs">
+                  <dt className="text-slate-400 uppercase font-bold">Duty</dt>
+                  <dd className="text-navy dark:text-white">{current.tariffLine.duty || 'N/A'}</dd>
+                  {current.tariffLine.unit && (
+                    <>
+                      <dt className="text-slate-400 uppercase font-bold">Unit</dt>
+                      <dd className="text-navy dark:text-white">{current.tariffLine.unit}</dd>
+                    </>
+                  )}
+                  {current.tariffLine.notes && (
+                    <>
+                      <dt className="text-slate-400 uppercase font-bold">Notes</dt>
+                      <dd className="text-navy dark:text-white">{current.tariffLine.notes}</dd>
+                    </>
+                  )}
+                </dl>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
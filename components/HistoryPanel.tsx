@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { ClassificationRecord, TargetRegion } from '../types';
+import { listHistory, deleteHistoryRecord, clearHistory, exportAuditLog, HistoryFilters } from '../services/historyStore';
+import { getCacheTtlHours, setCacheTtlHours, clearResultCache } from '../services/resultCache';
+import { History, Search, RotateCcw, Eye, Trash2, Download, ChevronDown, ChevronUp, ImageOff, Clock } from 'lucide-react';
+
+interface HistoryPanelProps {
+  refreshKey: number; // Changes whenever a new classification is recorded
+  onView: (record: ClassificationRecord) => void;
+  onRerun: (record: ClassificationRecord) => void;
+}
+
+const CACHE_TTL_OPTIONS = [
+  { hours: 0, label: 'Off' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+];
+
+const toTimestamp = (date: string, endOfDay: boolean) => {
+  if (!date) return undefined;
+  const value = new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+  return Number.isNaN(value) ? undefined : value;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, onView, onRerun }) => {
+  const [records, setRecords] = useState<ClassificationRecord[]>([]);
+  const [search, setSearch] = useState('');
+  const [region, setRegion] = useState<TargetRegion | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [cacheTtl, setCacheTtl] = useState(getCacheTtlHours());
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const refresh = () => {
+    const filters: HistoryFilters = {
+      search,
+      region: region || undefined,
+      from: toTimestamp(fromDate, false),
+      to: toTimestamp(toDate, true),
+    };
+    listHistory(filters).then(setRecords).catch(() => setRecords([]));
+  };
+
+  useEffect(refresh, [refreshKey, search, region, fromDate, toDate]);
+
+  const handleDelete = async (id: string) => {
+    await deleteHistoryRecord(id);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete the entire classification history? This cannot be undone.")) return;
+    await clearHistory();
+    refresh();
+  };
+
+  const handleTtlChange = (hours: number) => {
+    setCacheTtlHours(hours);
+    setCacheTtl(hours);
+  };
+
+  const handleClearCache = async () => {
+    await clearResultCache();
+    setCacheCleared(true);
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <History className="w-4 h-4 text-electric" />
+          Classification History
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => exportAuditLog(records)}
+            disabled={records.length === 0}
+            className="flex items-center gap-2 text-xs font-bold text-navy dark:text-white px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-blue-50 dark:hover:bg-slate-800 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 text-electric" /> Export Audit Log
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 disabled:opacity-50"
+            title="Clear history"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-6">
+        <div className="relative sm:col-span-2">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search product, input or HS code..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <select value={region} onChange={(e) => setRegion(e.target.value as TargetRegion | '')} className={inputClass}>
+          <option value="">All markets</option>
+          {Object.values(TargetRegion).map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`${inputClass} w-full`} title="From" />
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`${inputClass} w-full`} title="To" />
+        </div>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-xs text-slate-400">No classifications recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl max-h-[520px] overflow-y-auto">
+          {records.map(record => {
+            const expanded = expandedId === record.id;
+            return (
+              <li key={record.id} className="px-4 py-3">
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-lg overflow-hidden border border-slate-200 dark:border-slate-700 shrink-0 bg-slate-50 dark:bg-slate-800 flex items-center justify-center">
+                    {record.thumbnail
+                      ? <img src={record.thumbnail} alt="" className="w-full h-full object-cover" />
+                      : <ImageOff className="w-4 h-4 text-slate-300" />}
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-bold text-electric">{record.result.hsCode}</span>
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{record.region}</span>
+                    </div>
+                    <p className="text-sm text-slate-700 dark:text-slate-200 truncate">{record.input || record.result.productName}</p>
+                    <p className="text-[10px] text-slate-400">
+                      {new Date(record.timestamp).toLocaleString()} · {record.modelId} · prompt v{record.promptVersion}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => setExpandedId(expanded ? null : record.id)} className="p-2 rounded-md text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800" title="Show reasoning">
+                      {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => onView(record)} className="p-2 rounded-md text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800" title="Open result">
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onRerun(record)} className="p-2 rounded-md text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800" title="Re-run with current engine">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(record.id)} className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {expanded && (
+                  <div className="mt-3 ml-16 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg text-xs text-slate-600 dark:text-slate-300 space-y-2">
+                    <p><span className="font-bold text-navy dark:text-white">Tariff name:</span> {record.result.productName}</p>
+                    <p><span className="font-bold text-navy dark:text-white">Reasoning:</span> {record.result.reasoning}</p>
+                    <p><span className="font-bold text-navy dark:text-white">Source:</span> {record.result.sourceReference || record.result.source || 'AI Analysis'}</p>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Result Cache */}
+      <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800 flex flex-wrap items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+        <Clock className="w-4 h-4 text-electric" />
+        <span className="font-bold text-navy dark:text-white">Result cache</span>
+        <label className="flex items-center gap-2">
+          Keep results for
+          <select value={cacheTtl} onChange={(e) => handleTtlChange(Number(e.target.value))} className={`${inputClass} py-1`}>
+            {!CACHE_TTL_OPTIONS.some(option => option.hours === cacheTtl) && <option value={cacheTtl}>{cacheTtl} hours</option>}
+            {CACHE_TTL_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleClearCache}
+          className="ml-auto flex items-center gap-2 font-bold text-navy dark:text-white px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-blue-50 dark:hover:bg-slate-800"
+        >
+          <Trash2 className="w-3 h-3 text-electric" /> {cacheCleared ? 'Cache Cleared' : 'Clear Cache'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useRef, useState } from 'react';
+import { InvoiceExtraction, InvoiceLine, TargetRegion } from '../types';
+import { extractInvoice } from '../services/geminiService';
+import { BatchRow, BatchProgress, BatchRun, createBatchRun } from '../services/batchClassifier';
+import { readInvoiceDocument, toBatchItems, priceInvoiceLine, sumInvoice, exportInvoiceResults } from '../services/invoiceClassifier';
+import { LOCAL_CURRENCIES, formatMoney } from '../services/landedCost';
+import { formatRate } from '../services/rateParser';
+import { normalizeHSCode } from '../services/hsCode';
+import { declarationItemFromResult, declaredCountry, declaredDate } from '../services/customsDeclaration';
+import { DeclarationExporter } from './DeclarationExporter';
+import { Receipt, Upload, Play, Pause, RotateCcw, Download, Loader2, CheckCircle2, XCircle, Clock, AlertTriangle, Trash2, Plus } from 'lucide-react';
+
+interface InvoiceClassifierProps {
+  region: TargetRegion;
+}
+
+const CONCURRENCY = 3;
+
+export const InvoiceClassifier: React.FC<InvoiceClassifierProps> = ({ region }) => {
+  const [invoice, setInvoice] = useState<InvoiceExtraction | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [currency, setCurrency] = useState(LOCAL_CURRENCIES[region]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [editedCodes, setEditedCodes] = useState<Record<string, string>>({});
+  const [extracting, setExtracting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<BatchRun | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isRunning = !!progress && !progress.paused && progress.running > 0;
+  const isFinished = !!progress && progress.completed + progress.failed === progress.total;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setRows([]);
+    setProgress(null);
+    setEditedCodes({});
+    runRef.current = null;
+    try {
+      const upload = await readInvoiceDocument(file);
+      setExtracting("Uploading document...");
+      const extraction = await extractInvoice(upload, setExtracting);
+      setInvoice(extraction);
+      setFileName(upload.name);
+      if (extraction.currency) setCurrency(extraction.currency);
+    } catch (err: any) {
+      setInvoice(null);
+      setFileName(null);
+      setError(err.message || "Could not read the invoice.");
+    } finally {
+      setExtracting(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Lines can be corrected until classification starts
+  const updateLine = (id: string, changes: Partial<InvoiceLine>) =>
+    setInvoice(current => current && { ...current, lines: current.lines.map(line => line.id === id ? { ...line, ...changes } : line) });
+
+  const removeLine = (id: string) =>
+    setInvoice(current => current && { ...current, lines: current.lines.filter(line => line.id !== id) });
+
+  const addLine = () =>
+    setInvoice(current => current && { ...current, lines: [...current.lines, { id: `line-${Date.now()}`, description: '' }] });
+
+  const handleStart = () => {
+    if (!invoice) return;
+    const run = createBatchRun(toBatchItems(invoice.lines.filter(line => line.description.trim())), region, {
+      concurrency: CONCURRENCY,
+      onUpdate: (nextRows, nextProgress) => {
+        setRows(nextRows);
+        setProgress(nextProgress);
+      },
+    });
+    runRef.current = run;
+    run.start();
+  };
+
+  const editCode = (row: BatchRow, code: string) => setEditedCodes(current => {
+    const next = { ...current };
+    if (code === row.result?.hsCode) delete next[row.item.id];
+    else next[row.item.id] = code;
+    return next;
+  });
+
+  const statusIcon = (row: BatchRow) => {
+    switch (row.status) {
+      case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+      case 'failed': return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'running': return <Loader2 className="w-4 h-4 text-electric animate-spin" />;
+      default: return <Clock className="w-4 h-4 text-slate-400" />;
+    }
+  };
+
+  const parseNumber = (value: string) => value ? parseFloat(value) || undefined : undefined;
+  const totals = rows.map(row => priceInvoiceLine(row, region, currency, row.item.id in editedCodes));
+  const sum = sumInvoice(totals);
+  const warnings = Array.from(new Set(totals.flatMap(t => t.warnings)));
+  const declarationItems = rows.flatMap((row, i) => row.result ? [declarationItemFromResult(row.result, {
+    description: row.item.description,
+    hsCode: normalizeHSCode(editedCodes[row.item.id] ?? row.result.hsCode),
+    origin: declaredCountry(row.item.origin),
+    quantity: row.item.quantity,
+    value: totals[i].lineValue,
+  })] : []);
+  const percent = progress ? Math.round(((progress.completed + progress.failed) / progress.total) * 100) : 0;
+
+  const cellInput = "w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-700 focus:border-electric rounded px-2 py-1 text-sm text-slate-700 dark:text-slate-200 outline-none";
+  const headerCell = "px-3 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider";
+
+  return (
+    <div className="space-y-6 mt-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <label className="block text-sm font-bold text-navy dark:text-white">Commercial Invoice or Packing List</label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            PDF or photo. Line items are read from the document, then each one is classified for {region}.
+          </p>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept="application/pdf,image/*" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning || !!extracting}
+          className="flex items-center gap-2 bg-white dark:bg-slate-800 hover:bg-blue-50 dark:hover:bg-slate-700 text-navy dark:text-white border border-slate-200 dark:border-slate-700 text-xs font-bold px-4 py-3 rounded-lg transition-all shadow-sm uppercase tracking-wide disabled:opacity-50"
+        >
+          {extracting ? <Loader2 className="w-4 h-4 text-electric animate-spin" /> : <Upload className="w-4 h-4 text-electric" />} Upload Invoice
+        </button>
+      </div>
+
+      {extracting && <p className="text-xs text-slate-500 dark:text-slate-400">{extracting}</p>}
+
+      {error && (
+        <p className="text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      {invoice && (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-slate-50 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-slate-800">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Receipt className="w-5 h-5 text-electric" />
+              <span className="font-semibold text-navy dark:text-white">{invoice.supplier || fileName}</span>
+              <span className="text-slate-500">
+                {[invoice.invoiceNumber && `No. ${invoice.invoiceNumber}`, invoice.invoiceDate, `${invoice.lines.length} lines`].filter(Boolean).join(' · ')}
+              </span>
+              <input
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase().slice(0, 3))}
+                className="w-16 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded px-2 py-1 text-xs font-bold text-navy dark:text-white uppercase outline-none focus:border-electric"
+                title="Invoice currency"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              {!progress && (
+                <button onClick={handleStart} disabled={invoice.lines.length === 0} className="bg-electric hover:bg-blue-600 text-white rounded-md px-5 py-2 text-sm font-bold flex items-center gap-2 shadow-md shadow-blue-500/20 disabled:opacity-50">
+                  <Play className="w-4 h-4" /> Classify Lines
+                </button>
+              )}
+              {progress && !isFinished && !progress.paused && (
+                <button onClick={() => runRef.current?.pause()} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Pause className="w-4 h-4" /> Pause
+                </button>
+              )}
+              {progress && progress.paused && !isFinished && (
+                <button onClick={() => runRef.current?.resume()} className="bg-electric hover:bg-blue-600 text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Play className="w-4 h-4" /> Resume
+                </button>
+              )}
+              {progress && progress.failed > 0 && (
+                <button onClick={() => runRef.current?.retryFailed()} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-navy dark:text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <RotateCcw className="w-4 h-4" /> Retry Failed
+                </button>
+              )}
+              {progress && progress.completed > 0 && (
+                <button onClick={() => exportInvoiceResults(rows, region, invoice, currency, editedCodes)} className="bg-navy hover:bg-slate-800 text-white rounded-md px-4 py-2 text-sm font-bold flex items-center gap-2">
+                  <Download className="w-4 h-4" /> Export
+                </button>
+              )}
+            </div>
+          </div>
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs font-bold text-slate-500 dark:text-slate-400 mb-2 uppercase">
+                <span>
+                  {progress.paused && !isFinished ? 'Paused' : isFinished ? 'Finished' : 'Classifying'} · {progress.completed} done · {progress.failed} failed
+                </span>
+                <span className="text-electric">{percent}%</span>
+              </div>
+              <div className="h-2 w-full bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-electric transition-all duration-500" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-[520px] overflow-y-auto rounded-xl border border-slate-100 dark:border-slate-800">
+            {!progress ? (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-800/50 sticky top-0">
+                  <tr>
+                    <th className={headerCell}>Supplier Code</th>
+                    <th className={headerCell}>Description</th>
+                    <th className={headerCell}>Qty</th>
+                    <th className={headerCell}>Unit Price</th>
+                    <th className={headerCell}>Origin</th>
+                    <th className="px-3 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {invoice.lines.map(line => (
+                    <tr key={line.id}>
+                      <td className="px-2 py-1 w-32"><input value={line.supplierCode || ''} onChange={(e) => updateLine(line.id, { supplierCode: e.target.value || undefined })} className={cellInput} /></td>
+                      <td className="px-2 py-1 min-w-[240px]"><input value={line.description} onChange={(e) => updateLine(line.id, { description: e.target.value })} className={cellInput} /></td>
+                      <td className="px-2 py-1 w-24"><input type="number" min="0" step="any" value={line.quantity ?? ''} onChange={(e) => updateLine(line.id, { quantity: parseNumber(e.target.value) })} className={cellInput} /></td>
+                      <td className="px-2 py-1 w-28"><input type="number" min="0" step="any" value={line.unitPrice ?? ''} onChange={(e) => updateLine(line.id, { unitPrice: parseNumber(e.target.value) })} className={cellInput} /></td>
+                      <td className="px-2 py-1 w-32"><input value={line.origin || ''} onChange={(e) => updateLine(line.id, { origin: e.target.value || undefined })} className={cellInput} /></td>
+                      <td className="px-2 py-1 text-right">
+                        <button onClick={() => removeLine(line.id)} className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800" title="Remove line">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-800/50 sticky top-0">
+                  <tr>
+                    <th className={headerCell}></th>
+                    <th className={headerCell}>Description</th>
+                    <th className={headerCell}>Qty</th>
+                    <th className={headerCell}>Value</th>
+                    <th className={headerCell}>HS Code</th>
+                    <th className={headerCell}>Duty</th>
+                    <th className={headerCell}>Duties & Taxes</th>
+                    <th className="px-3 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {rows.map((row, i) => {
+                    const edited = row.item.id in editedCodes;
+                    return (
+                      <tr key={row.item.id} className="hover:bg-blue-50/30 dark:hover:bg-slate-800/30 transition-colors">
+                        <td className="px-3 py-3">{statusIcon(row)}</td>
+                        <td className="px-3 py-3 text-slate-700 dark:text-slate-200">
+                          {row.item.description}
+                          <p className="text-[10px] text-slate-400">{[row.item.sku, row.item.origin].filter(Boolean).join(' · ')}</p>
+                          {row.error && row.status === 'failed' && <p className="text-[10px] text-red-500 mt-1">{row.error}</p>}
+                        </td>
+                        <td className="px-3 py-3 text-xs text-slate-600 dark:text-slate-300">{row.item.quantity ?? '—'}</td>
+                        <td className="px-3 py-3 text-xs font-mono text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                          {totals[i].lineValue !== undefined ? formatMoney(totals[i].lineValue!, currency) : '—'}
+                        </td>
+                        <td className="px-3 py-2 w-36">
+                          {row.result && (
+                            <input
+                              value={editedCodes[row.item.id] ?? row.result.hsCode}
+                              onChange={(e) => editCode(row, e.target.value)}
+                              className={`${cellInput} font-mono font-bold ${edited ? 'text-amber-600 dark:text-amber-400' : 'text-electric'}`}
+                              title={edited ? `Edited; classified as ${row.result.hsCode}` : row.result.productName}
+                            />
+                          )}
+                        </td>
+                        <td className="px-3 py-3 text-xs text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                          {row.result && !edited ? formatRate(row.result.dutyRate) : edited ? 'Edited code' : ''}
+                        </td>
+                        <td className="px-3 py-3 text-xs font-mono text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                          {totals[i].dutiesAndTaxes !== undefined ? formatMoney(totals[i].dutiesAndTaxes!, currency) : ''}
+                        </td>
+                        <td className="px-3 py-3 text-right">
+                          {row.status === 'failed' && (
+                            <button onClick={() => runRef.current?.retryRow(row.item.id)} className="p-1.5 rounded-md text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800" title="Retry row">
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  <tr className="bg-slate-50 dark:bg-slate-800/50 font-bold text-navy dark:text-white">
+                    <td className="px-3 py-3"></td>
+                    <td className="px-3 py-3 text-xs uppercase tracking-wider" colSpan={2}>Invoice Total</td>
+                    <td className="px-3 py-3 text-xs font-mono whitespace-nowrap">{formatMoney(sum.value, currency)}</td>
+                    <td className="px-3 py-3" colSpan={2}></td>
+                    <td className="px-3 py-3 text-xs font-mono whitespace-nowrap">{formatMoney(sum.dutiesAndTaxes, currency)}</td>
+                    <td className="px-3 py-3"></td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {!progress && (
+            <button onClick={addLine} className="text-xs font-bold text-slate-500 hover:text-electric flex items-center gap-1">
+              <Plus className="w-3 h-3" /> Add line
+            </button>
+          )}
+
+          {progress && (
+            <p className="text-[10px] text-slate-400">
+              Duties and taxes are estimated on the invoice value, without freight and insurance. Lines with an edited code are not priced.
+            </p>
+          )}
+
+          {warnings.length > 0 && (
+            <ul className="space-y-1">
+              {warnings.map((warning, i) => (
+                <li key={i} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-2">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isFinished && declarationItems.length > 0 && (
+            <DeclarationExporter
+              region={region}
+              items={declarationItems}
+              shipment={{
+                consignorName: invoice.supplier,
+                invoiceNumber: invoice.invoiceNumber,
+                invoiceDate: declaredDate(invoice.invoiceDate),
+                currency,
+              }}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
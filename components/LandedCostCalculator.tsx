@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HSCodeResult, TargetRegion } from '../types';
+import { LandedCostBreakdown, LOCAL_CURRENCIES, calculateLandedCost, formatMoney } from '../services/landedCost';
+import { Calculator, AlertTriangle } from 'lucide-react';
+
+interface LandedCostCalculatorProps {
+  result: HSCodeResult;
+  region: TargetRegion;
+  onBreakdownChange: (breakdown: LandedCostBreakdown | null) => void;
+}
+
+const CURRENCIES = Array.from(new Set(['USD', 'EUR', 'CNY', ...Object.values(LOCAL_CURRENCIES)]));
+
+export const LandedCostCalculator: React.FC<LandedCostCalculatorProps> = ({ result, region, onBreakdownChange }) => {
+  const [customsValue, setCustomsValue] = useState('');
+  const [freight, setFreight] = useState('');
+  const [insurance, setInsurance] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [weightKg, setWeightKg] = useState('');
+  const [volumeLitres, setVolumeLitres] = useState('');
+  const [currency, setCurrency] = useState(LOCAL_CURRENCIES[region]);
+
+  useEffect(() => {
+    setCurrency(LOCAL_CURRENCIES[region]);
+  }, [region]);
+
+  const breakdown = useMemo(() => {
+    const value = parseFloat(customsValue);
+    if (!value || value <= 0) return null;
+    return calculateLandedCost({
+      customsValue: value,
+      freight: parseFloat(freight) || 0,
+      insurance: parseFloat(insurance) || 0,
+      quantity: parseInt(quantity, 10) || 1,
+      weightKg: weightKg ? parseFloat(weightKg) : undefined,
+      volumeLitres: volumeLitres ? parseFloat(volumeLitres) : undefined,
+      currency,
+    }, result, region);
+  }, [customsValue, freight, insurance, quantity, weightKg, volumeLitres, currency, result, region]);
+
+  // Weight and volume only matter for specific (per kg / per litre) rates
+  const rateUnits = [result.dutyRate, result.taxRate].flatMap(rate =>
+    rate.type === 'specific' || rate.type === 'compound' ? [rate.unit]
+      : rate.type === 'mixed' ? rate.options.flatMap(option => option.type === 'specific' ? [option.unit] : [])
+      : []);
+  const needsWeight = rateUnits.some(unit => unit === 'kg' || unit === 'tonne');
+  const needsVolume = rateUnits.includes('litre');
+
+  useEffect(() => {
+    onBreakdownChange(breakdown);
+  }, [breakdown]);
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+  const labelClass = "block text-slate-400 text-[10px] font-bold uppercase mb-1";
+
+  return (
+    <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+      <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+        <Calculator className="w-4 h-4 text-electric" /> Landed Cost Calculator
+      </h4>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <label>
+          <span className={labelClass}>Unit Value</span>
+          <input type="number" min="0" step="any" value={customsValue} onChange={(e) => setCustomsValue(e.target.value)} className={inputClass} placeholder="0.00" />
+        </label>
+        <label>
+          <span className={labelClass}>Quantity</span>
+          <input type="number" min="1" step="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Freight</span>
+          <input type="number" min="0" step="any" value={freight} onChange={(e) => setFreight(e.target.value)} className={inputClass} placeholder="0.00" />
+        </label>
+        <label>
+          <span className={labelClass}>Insurance</span>
+          <input type="number" min="0" step="any" value={insurance} onChange={(e) => setInsurance(e.target.value)} className={inputClass} placeholder="0.00" />
+        </label>
+        <label>
+          <span className={labelClass}>Currency</span>
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+        {needsWeight && (
+          <label>
+            <span className={labelClass}>Net Weight (kg)</span>
+            <input type="number" min="0" step="any" value={weightKg} onChange={(e) => setWeightKg(e.target.value)} className={inputClass} placeholder="0" />
+          </label>
+        )}
+        {needsVolume && (
+          <label>
+            <span className={labelClass}>Volume (litres)</span>
+            <input type="number" min="0" step="any" value={volumeLitres} onChange={(e) => setVolumeLitres(e.target.value)} className={inputClass} placeholder="0" />
+          </label>
+        )}
+      </div>
+
+      {breakdown ? (
+        <div className="mt-6 overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-800">
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              <tr>
+                <td className="px-4 py-2 text-slate-600 dark:text-slate-300">Goods Value</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-700 dark:text-slate-200">{formatMoney(breakdown.goodsValue, breakdown.currency)}</td>
+              </tr>
+              <tr className="bg-slate-50 dark:bg-slate-800/50">
+                <td className="px-4 py-2 font-semibold text-navy dark:text-white">CIF Value</td>
+                <td className="px-4 py-2 text-right font-mono font-semibold text-navy dark:text-white">{formatMoney(breakdown.cifValue, breakdown.currency)}</td>
+              </tr>
+              {breakdown.lines.map(l => (
+                <tr key={l.label}>
+                  <td className="px-4 py-2 text-slate-600 dark:text-slate-300">
+                    {l.label} <span className="text-xs text-slate-400">({l.rateText} on {formatMoney(l.base, breakdown.currency)})</span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-700 dark:text-slate-200">{formatMoney(l.amount, breakdown.currency)}</td>
+                </tr>
+              ))}
+              <tr className="bg-slate-50 dark:bg-slate-800/50">
+                <td className="px-4 py-2 font-semibold text-navy dark:text-white">Total Duties & Taxes</td>
+                <td className="px-4 py-2 text-right font-mono font-semibold text-navy dark:text-white">{formatMoney(breakdown.totalDutiesAndTaxes, breakdown.currency)}</td>
+              </tr>
+              <tr className="bg-blue-50 dark:bg-slate-800">
+                <td className="px-4 py-3 font-bold text-electric">Landed Cost</td>
+                <td className="px-4 py-3 text-right font-mono font-bold text-electric">
+                  {formatMoney(breakdown.landedCost, breakdown.currency)}
+                  <span className="block text-[10px] text-slate-400 font-sans font-semibold">{formatMoney(breakdown.perUnit, breakdown.currency)} per unit</span>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-slate-400">Enter the unit value to compute CIF, duty and tax.</p>
+      )}
+
+      {breakdown && breakdown.warnings.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {breakdown.warnings.map((warning, i) => (
+            <li key={i} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-2">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
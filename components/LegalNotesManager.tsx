@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LegalNotesCorpusInfo } from '../types';
+import { importLegalNotes, listLegalNotes, deleteLegalNotes } from '../services/legalNotes';
+import { Scale, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+
+export const LegalNotesManager: React.FC = () => {
+  const [corpora, setCorpora] = useState<LegalNotesCorpusInfo[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listLegalNotes().then(setCorpora).catch(() => setCorpora([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      await importLegalNotes(file);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to import notes.");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteLegalNotes(id);
+    await refresh();
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <Scale className="w-4 h-4 text-electric" />
+          Legal Notes Corpus
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">CSV, XLSX or JSON</span>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <p className="flex-grow text-xs text-slate-500 dark:text-slate-400">
+          Section, Chapter and Subheading Notes, heading texts and Explanatory Notes, one per row with columns such as <code>kind</code>, <code>section</code>, <code>chapter</code>, <code>note</code>, <code>code</code> and <code>text</code>. Cited provisions are checked against them.
+        </p>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="bg-electric hover:bg-blue-600 text-white rounded-lg px-5 py-2 text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 shadow-md shadow-blue-500/20 shrink-0"
+        >
+          {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import Notes
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      <ul className="mt-6 divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl">
+        {corpora.map(corpus => (
+          <li key={corpus.id} className="flex items-center justify-between px-4 py-3 text-sm">
+            <div>
+              <span className="font-semibold text-navy dark:text-white">{corpus.name}</span>
+              <p className="text-xs text-slate-400">
+                {corpus.noteCount.toLocaleString()} provisions · {corpus.builtIn ? 'Bundled' : `Imported ${new Date(corpus.importedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            {!corpus.builtIn && (
+              <button
+                onClick={() => handleDelete(corpus.id)}
+                className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 transition-colors"
+                title="Remove notes"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React from 'react';
+import { TargetRegion } from '../types';
+import { MarketEntry, findMarketDifferences } from '../services/marketComparison';
+import { formatHSCode } from '../services/hsCode';
+import { formatRate } from '../services/rateParser';
+import { downloadReport } from '../services/pdfReport';
+import { AlertTriangle, Eye, Columns3, Download } from 'lucide-react';
+
+interface MarketComparisonProps {
+  entries: MarketEntry[];
+  selectedRegion: TargetRegion | null;
+  onSelect: (region: TargetRegion) => void;
+  description?: string; // The product as described, for the report
+  origin?: string;
+}
+
+const highlight = 'bg-amber-50 dark:bg-amber-900/20';
+
+export const MarketComparison: React.FC<MarketComparisonProps> = ({ entries, selectedRegion, onSelect, description, origin }) => {
+  const differences = findMarketDifferences(entries);
+
+  const codeNote = (region: TargetRegion) => {
+    switch (differences.hsCode[region]) {
+      case 'national': return 'National subheading differs';
+      case 'subheading': return 'Different HS subheading';
+      default: return null;
+    }
+  };
+
+  const renderList = (items: string[], unique: string[]) => (
+    items.length > 0 ? (
+      <ul className="space-y-1">
+        {items.map((item, i) => {
+          const isUnique = unique.includes(item);
+          return (
+            <li key={i} className={`text-xs ${isUnique ? 'font-semibold text-amber-700 dark:text-amber-400' : 'text-slate-600 dark:text-slate-300'}`}>
+              {isUnique && <AlertTriangle className="w-3 h-3 inline mr-1 -mt-0.5" />}
+              {item}
+            </li>
+          );
+        })}
+      </ul>
+    ) : <span className="text-xs text-slate-400">None</span>
+  );
+
+  // One product in every market that returned a result
+  const handleDownloadReport = () => downloadReport(
+    entries.flatMap(entry => entry.result ? [{ result: entry.result, region: entry.region, input: description, origin }] : []),
+    { title: 'Market Comparison Report' }
+  );
+
+  const cellClass = "px-4 py-4 align-top border-l border-slate-100 dark:border-slate-800";
+  const labelClass = "px-4 py-4 align-top text-[10px] font-bold text-slate-400 uppercase tracking-widest whitespace-nowrap";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200 dark:shadow-black border border-slate-200 dark:border-slate-800 overflow-hidden animate-fade-in-up">
+      <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <Columns3 className="w-4 h-4 text-electric" /> Market Comparison
+        </h3>
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <span className={`inline-block w-3 h-3 rounded ${highlight} border border-amber-200 dark:border-amber-800`} /> Differs between markets
+          </span>
+          <button
+            onClick={handleDownloadReport}
+            className="flex items-center gap-2 text-xs font-bold text-navy dark:text-white px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-blue-50 dark:hover:bg-slate-800"
+          >
+            <Download className="w-3 h-3 text-electric" /> Report PDF
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800/50">
+            <tr>
+              <th className="px-4 py-3"></th>
+              {entries.map(entry => (
+                <th key={entry.region} className="px-4 py-3 border-l border-slate-100 dark:border-slate-800">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-navy dark:text-white text-xs uppercase tracking-wider">{entry.region}</span>
+                    {entry.result && (
+                      <button
+                        onClick={() => onSelect(entry.region)}
+                        className={`p-1.5 rounded-md transition-colors ${selectedRegion === entry.region ? 'text-white bg-electric' : 'text-slate-400 hover:text-electric hover:bg-blue-50 dark:hover:bg-slate-800'}`}
+                        title="Show full result"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            <tr>
+              <td className={labelClass}>HS Code</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} ${entry.result && differences.hsCode[entry.region] !== 'same' ? highlight : ''}`}>
+                  {entry.result ? (
+                    <>
+                      <span className="font-mono font-bold text-electric">{formatHSCode(entry.result.hsCode)}</span>
+                      {codeNote(entry.region) && (
+                        <p className="text-[10px] font-bold text-amber-700 dark:text-amber-400 uppercase mt-1">{codeNote(entry.region)}</p>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-xs text-red-500">{entry.error}</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className={labelClass}>Import Duty</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} font-semibold text-navy dark:text-white ${differences.dutyRate && entry.result ? highlight : ''}`}>
+                  {entry.result ? formatRate(entry.result.dutyRate) : '—'}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className={labelClass}>VAT / Taxes</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} font-semibold text-navy dark:text-white ${differences.taxRate && entry.result ? highlight : ''}`}>
+                  {entry.result ? formatRate(entry.result.taxRate) : '—'}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className={labelClass}>Restrictions</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} ${(differences.restrictions[entry.region] || []).length > 0 ? highlight : ''}`}>
+                  {entry.result ? renderList(entry.result.restrictions, differences.restrictions[entry.region] || []) : '—'}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className={labelClass}>Documents</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} ${(differences.requiredDocuments[entry.region] || []).length > 0 ? highlight : ''}`}>
+                  {entry.result ? renderList(entry.result.requiredDocuments, differences.requiredDocuments[entry.region] || []) : '—'}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className={labelClass}>Confidence</td>
+              {entries.map(entry => (
+                <td key={entry.region} className={`${cellClass} text-xs text-slate-600 dark:text-slate-300`}>
+                  {entry.result ? `${entry.result.confidenceScore}%` : '—'}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HSCodeResult, TargetRegion } from '../types';
+import { LOCAL_CURRENCIES, formatMoney } from '../services/landedCost';
+import { ORIGIN_COUNTRIES, findPreferentialRates } from '../services/preferentialRates';
+import { OriginReport, checkRulesOfOrigin, getOriginRule, importBillOfMaterials, listOriginAgreements } from '../services/rulesOfOrigin';
+import { formatHSCode } from '../services/hsCode';
+import { BadgeCheck, Plus, Trash2, Upload, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+
+interface OriginCheckerProps {
+  result: HSCodeResult;
+  region: TargetRegion;
+  origin?: string;
+  onReportChange: (report: OriginReport | null) => void;
+}
+
+// Values stay as typed until the report is computed
+interface MaterialRow {
+  description: string;
+  hsCode: string;
+  origin: string;
+  value: string;
+}
+
+const CURRENCIES = Array.from(new Set(['USD', 'EUR', 'CNY', ...Object.values(LOCAL_CURRENCIES)]));
+const AGREEMENTS = listOriginAgreements();
+const emptyRow = (): MaterialRow => ({ description: '', hsCode: '', origin: '', value: '' });
+
+export const OriginChecker: React.FC<OriginCheckerProps> = ({ result, region, origin, onReportChange }) => {
+  // Default to the agreement that gives goods of the declared origin a rate into this market
+  const defaultAgreement = () => {
+    const preference = origin ? findPreferentialRates(result.hsCode, region, origin).find(p => p.rate) : undefined;
+    return preference?.agreementId || AGREEMENTS[0]?.id || '';
+  };
+
+  const [agreementId, setAgreementId] = useState(defaultAgreement);
+  const [producedIn, setProducedIn] = useState(origin || '');
+  const [exWorksPrice, setExWorksPrice] = useState('');
+  const [currency, setCurrency] = useState(LOCAL_CURRENCIES[region]);
+  const [materials, setMaterials] = useState<MaterialRow[]>([emptyRow()]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setAgreementId(defaultAgreement());
+    setProducedIn(origin || '');
+  }, [origin, region, result.hsCode]);
+
+  useEffect(() => {
+    setCurrency(LOCAL_CURRENCIES[region]);
+  }, [region]);
+
+  const rule = agreementId ? getOriginRule(agreementId, result.hsCode) : null;
+
+  const report = useMemo(() => {
+    const price = parseFloat(exWorksPrice);
+    if (!agreementId || !price || price <= 0) return null;
+    return checkRulesOfOrigin({
+      agreementId,
+      productCode: result.hsCode,
+      producedIn,
+      exWorksPrice: price,
+      currency,
+      materials: materials.map(row => ({ ...row, value: parseFloat(row.value) || 0 })),
+    });
+  }, [agreementId, producedIn, exWorksPrice, currency, materials, result.hsCode]);
+
+  useEffect(() => {
+    onReportChange(report);
+  }, [report]);
+
+  const updateRow = (index: number, field: keyof MaterialRow, value: string) =>
+    setMaterials(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+
+  const removeRow = (index: number) =>
+    setMaterials(rows => rows.length > 1 ? rows.filter((_, i) => i !== index) : [emptyRow()]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportError(null);
+    try {
+      const lines = await importBillOfMaterials(file);
+      setMaterials(lines.map(line => ({ ...line, value: String(line.value) })));
+    } catch (err: any) {
+      setImportError(err.message || "Failed to import the bill of materials.");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+  const labelClass = "block text-slate-400 text-[10px] font-bold uppercase mb-1";
+
+  if (AGREEMENTS.length === 0) return null;
+
+  return (
+    <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+      <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+        <BadgeCheck className="w-4 h-4 text-electric" /> Rules of Origin Check
+      </h4>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label>
+          <span className={labelClass}>Agreement</span>
+          <select value={agreementId} onChange={(e) => setAgreementId(e.target.value)} className={inputClass}>
+            {AGREEMENTS.map(agreement => <option key={agreement.id} value={agreement.id} title={agreement.name}>{agreement.shortName}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Produced In</span>
+          <select value={producedIn} onChange={(e) => setProducedIn(e.target.value)} className={inputClass}>
+            <option value="">Select country</option>
+            {ORIGIN_COUNTRIES.map(country => <option key={country.code} value={country.code}>{country.name}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Ex-works Price</span>
+          <input type="number" min="0" step="any" value={exWorksPrice} onChange={(e) => setExWorksPrice(e.target.value)} className={inputClass} placeholder="0.00" />
+        </label>
+        <label>
+          <span className={labelClass}>Currency</span>
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {rule && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          Rule for {formatHSCode(result.hsCode)}: <span className="font-mono font-bold text-navy dark:text-white">{rule.rule}</span> ({rule.source})
+        </p>
+      )}
+
+      <div className="mt-6 flex items-center justify-between">
+        <span className={labelClass}>Bill of Materials</span>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs font-bold text-electric hover:underline flex items-center gap-1"
+        >
+          <Upload className="w-3 h-3" /> Import CSV / XLSX
+        </button>
+      </div>
+      <div className="mt-2 space-y-2">
+        {materials.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+            <input value={row.description} onChange={(e) => updateRow(index, 'description', e.target.value)} className={inputClass} placeholder="Material" />
+            <input value={row.hsCode} onChange={(e) => updateRow(index, 'hsCode', e.target.value)} className={`${inputClass} font-mono`} placeholder="HS code" />
+            <select value={row.origin} onChange={(e) => updateRow(index, 'origin', e.target.value)} className={inputClass}>
+              <option value="">Origin unknown</option>
+              {ORIGIN_COUNTRIES.map(country => <option key={country.code} value={country.code}>{country.name}</option>)}
+            </select>
+            <input type="number" min="0" step="any" value={row.value} onChange={(e) => updateRow(index, 'value', e.target.value)} className={inputClass} placeholder="Value" />
+            <button
+              onClick={() => removeRow(index)}
+              className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 transition-colors justify-self-end"
+              title="Remove material"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setMaterials(rows => [...rows, emptyRow()])}
+        className="mt-3 text-xs font-bold text-slate-500 hover:text-electric flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" /> Add material
+      </button>
+
+      {importError && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {importError}
+        </p>
+      )}
+
+      {report ? (
+        <div className="mt-6 rounded-xl border border-slate-100 dark:border-slate-800 overflow-hidden">
+          <div className={`px-4 py-3 flex items-center gap-2 text-sm font-bold ${report.qualifies ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400' : 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'}`}>
+            {report.qualifies ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {report.qualifies ? `Qualifies as originating under ${report.agreement}` : `Does not qualify under ${report.agreement}`}
+          </div>
+          <div className="px-4 py-3 grid grid-cols-3 gap-3 text-xs border-b border-slate-100 dark:border-slate-800">
+            <div>
+              <span className={labelClass}>Originating</span>
+              <span className="font-mono text-slate-700 dark:text-slate-200">{formatMoney(report.originatingValue, report.currency)}</span>
+            </div>
+            <div>
+              <span className={labelClass}>Non-originating</span>
+              <span className="font-mono text-slate-700 dark:text-slate-200">{formatMoney(report.nonOriginatingValue, report.currency)}</span>
+            </div>
+            <div>
+              <span className={labelClass}>RVC</span>
+              <span className="font-mono font-bold text-navy dark:text-white">{report.rvc}%</span>
+            </div>
+          </div>
+          <ol className="divide-y divide-slate-100 dark:divide-slate-800">
+            {report.alternatives.map((alternative, i) => (
+              <li key={i} className="px-4 py-3">
+                <p className="text-[10px] font-bold uppercase text-slate-400 mb-2">
+                  Option {i + 1} · {alternative.passed ? 'Met' : 'Not met'}
+                </p>
+                <ul className="space-y-2">
+                  {alternative.criteria.map((criterion, j) => (
+                    <li key={j} className="flex items-start gap-2 text-xs">
+                      {criterion.passed
+                        ? <CheckCircle2 className="w-3 h-3 mt-0.5 shrink-0 text-emerald-500" />
+                        : <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-red-500" />}
+                      <span className="text-slate-600 dark:text-slate-300">
+                        <span className="font-bold text-navy dark:text-white">{criterion.label}.</span> {criterion.explanation}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-slate-400">Enter the ex-works price and the materials to test the agreement's origin rule.</p>
+      )}
+
+      {report && report.warnings.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {report.warnings.map((warning, i) => (
+            <li key={i} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-2">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
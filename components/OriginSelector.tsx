@@ -0,0 +1,31 @@
+import React from 'react';
+import { ORIGIN_COUNTRIES } from '../services/preferentialRates';
+import { Flag } from 'lucide-react';
+
+interface OriginSelectorProps {
+  origin: string; // ISO alpha-2 code; empty when not declared
+  onOriginChange: (origin: string) => void;
+}
+
+export const OriginSelector: React.FC<OriginSelectorProps> = ({ origin, onOriginChange }) => (
+  <div className="w-full mt-6 flex flex-col sm:flex-row sm:items-center gap-3">
+    <label htmlFor="origin-country" className="text-sm font-bold text-navy dark:text-white flex items-center gap-2 shrink-0">
+      <Flag className="w-4 h-4 text-electric" />
+      Country of Origin
+    </label>
+    <select
+      id="origin-country"
+      value={origin}
+      onChange={(e) => onOriginChange(e.target.value)}
+      className="flex-grow sm:max-w-xs bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none"
+    >
+      <option value="">Not declared (MFN rates only)</option>
+      {ORIGIN_COUNTRIES.map(country => (
+        <option key={country.code} value={country.code}>{country.name}</option>
+      ))}
+    </select>
+    <span className="text-xs text-slate-500 dark:text-slate-400">
+      Shows the preferential rates trade agreements give goods of this origin.
+    </span>
+  </div>
+);
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, HSCodeResult } from '../types';
+import { formatHSCode } from '../services/hsCode';
+import { formatRate } from '../services/rateParser';
+import { MessagesSquare, Send, Loader2, ArrowUpRight, Info } from 'lucide-react';
+
+interface RefinementThreadProps {
+  thread: ChatMessage[];
+  activeResult: HSCodeResult; // The result currently shown in the ResultCard
+  loading: boolean;
+  loadingStatus: string;
+  onSend: (message: string) => void;
+  onShowResult: (result: HSCodeResult) => void;
+  blockedReason?: string; // Shown in place of the input when follow-ups cannot be sent
+}
+
+const SUGGESTIONS = [
+  "It's actually 80% polyester",
+  "What if it's for medical use?",
+  "Why not a different subheading?",
+];
+
+export const RefinementThread: React.FC<RefinementThreadProps> = ({ thread, activeResult, loading, loadingStatus, onSend, onShowResult, blockedReason }) => {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (thread.length > 1) endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [thread.length, loading]);
+
+  const send = (text: string) => {
+    if (!text.trim() || loading || blockedReason) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  // Earlier result in the thread, used to show whether a revision changed the code
+  const previousResult = (index: number) => thread
+    .slice(0, index)
+    .reverse()
+    .find(message => message.role === 'model' && typeof message.content !== 'string')?.content as HSCodeResult | undefined;
+
+  const renderResult = (result: HSCodeResult, index: number) => {
+    const previous = previousResult(index);
+    const isOriginal = !previous;
+    const codeChanged = previous && previous.hsCode !== result.hsCode;
+    return (
+      <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-mono font-bold text-electric">{formatHSCode(result.hsCode)}</span>
+            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+              {isOriginal ? 'Original' : codeChanged ? `Revised from ${formatHSCode(previous!.hsCode)}` : 'Code unchanged'}
+            </span>
+            {result.validation && !result.validation.valid && (
+              <span className="text-[10px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-400">Unverified</span>
+            )}
+          </div>
+          {result === activeResult ? (
+            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 shrink-0">Shown above</span>
+          ) : (
+            <button onClick={() => onShowResult(result)} className="text-[10px] font-bold uppercase tracking-wider text-electric hover:underline flex items-center gap-1 shrink-0">
+              Show in report <ArrowUpRight className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        <p className="text-sm font-semibold text-navy dark:text-white">{result.productName}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Duty {formatRate(result.dutyRate)} · Tax {formatRate(result.taxRate)} · {result.confidenceScore}% confidence
+        </p>
+        {!isOriginal && <p className="text-xs text-slate-600 dark:text-slate-300 leading-relaxed">{result.reasoning}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200 dark:shadow-black border border-slate-200 dark:border-slate-800 p-6 sm:p-8">
+      <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+        <MessagesSquare className="w-4 h-4 text-electric" /> Refine Classification
+      </h4>
+
+      <div className="space-y-4 max-h-[560px] overflow-y-auto pr-1">
+        {thread.map((message, index) => {
+          if (message.role === 'system') {
+            return (
+              <p key={message.id} className="text-xs text-slate-400 flex items-center gap-2 justify-center">
+                <Info className="w-3 h-3" /> {message.content as string}
+              </p>
+            );
+          }
+          if (message.role === 'user') {
+            return (
+              <div key={message.id} className="flex justify-end">
+                <p className="max-w-[80%] bg-electric text-white text-sm px-4 py-2 rounded-2xl rounded-br-sm">{message.content as string}</p>
+              </div>
+            );
+          }
+          return (
+            <div key={message.id} className="max-w-[90%]">
+              {typeof message.content === 'string'
+                ? <p className="text-sm text-slate-700 dark:text-slate-200">{message.content}</p>
+                : renderResult(message.content, index)}
+            </div>
+          );
+        })}
+        {loading && (
+          <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <Loader2 className="w-3 h-3 animate-spin text-electric" /> {loadingStatus}
+          </p>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {blockedReason && (
+        <p className="mt-4 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg px-4 py-3 flex items-start gap-2">
+          <Info className="w-3 h-3 mt-0.5 shrink-0" /> {blockedReason}
+        </p>
+      )}
+
+      {!blockedReason && thread.length === 1 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => setDraft(suggestion)}
+              className="px-3 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-slate-600 dark:text-slate-300 hover:border-electric hover:text-electric transition-all text-xs font-medium"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!blockedReason && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); send(draft); }}
+          className="mt-4 flex items-center gap-2"
+        >
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add details or question the code..."
+            className="flex-grow bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-2.5 text-sm text-slate-900 dark:text-white focus:border-electric outline-none"
+          />
+          <button
+            type="submit"
+            disabled={loading || !draft.trim()}
+            className="bg-electric hover:bg-blue-600 text-white rounded-lg p-2.5 disabled:opacity-50 shadow-md shadow-blue-500/20"
+            title="Send"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,10 @@ import { MapPin, Globe, CheckCircle2, Info } from 'lucide-react';
 interface RegionSelectorProps {
   selectedRegion: TargetRegion;
   onRegionChange: (region: TargetRegion) => void;
+  // Multi-market mode: several regions can be toggled on at once
+  multiSelect?: boolean;
+  selectedRegions?: TargetRegion[];
+  onRegionsChange?: (regions: TargetRegion[]) => void;
 }
 
 const countryCodes: Record<TargetRegion, string> = {
@@ -33,8 +37,25 @@ const regionInsights: Record<TargetRegion, string> = {
   [TargetRegion.GLOBAL]: "Standard WCO 6-digit format for general international reference.",
 };
 
-export const RegionSelector: React.FC<RegionSelectorProps> = ({ selectedRegion, onRegionChange }) => {
-  
+export const RegionSelector: React.FC<RegionSelectorProps> = ({
+  selectedRegion,
+  onRegionChange,
+  multiSelect = false,
+  selectedRegions = [],
+  onRegionsChange,
+}) => {
+
+  const handleClick = (region: TargetRegion) => {
+    if (!multiSelect) {
+      onRegionChange(region);
+      return;
+    }
+    const next = selectedRegions.includes(region)
+      ? selectedRegions.filter(r => r !== region)
+      : [...selectedRegions, region];
+    onRegionsChange?.(next);
+  };
+
   const getIconOrFlag = (region: TargetRegion) => {
     const code = countryCodes[region];
     if (code && code !== 'un') {
@@ -59,20 +80,22 @@ export const RegionSelector: React.FC<RegionSelectorProps> = ({ selectedRegion,
       <div className="flex items-center justify-between mb-6">
         <label className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
           <Globe className="w-4 h-4 text-electric" />
-          Target Market
+          {multiSelect ? 'Target Markets' : 'Target Market'}
         </label>
         <span className="text-xs text-electric font-bold bg-blue-50 dark:bg-slate-800 px-2 py-1 rounded-md border border-blue-100 dark:border-slate-700">
-          {Object.keys(TargetRegion).length} Markets Available
+          {multiSelect
+            ? `${selectedRegions.length} of ${Object.keys(TargetRegion).length} Markets Selected`
+            : `${Object.keys(TargetRegion).length} Markets Available`}
         </span>
       </div>
       
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
         {Object.values(TargetRegion).map((region) => {
-            const isSelected = selectedRegion === region;
+            const isSelected = multiSelect ? selectedRegions.includes(region) : selectedRegion === region;
             return (
                 <button
                     key={region}
-                    onClick={() => onRegionChange(region)}
+                    onClick={() => handleClick(region)}
                     className={`
                     group relative flex flex-col items-start p-4 rounded-xl border transition-all duration-200 ease-out
                     ${
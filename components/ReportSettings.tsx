@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { ReportBranding, DEFAULT_BRANDING, getReportBranding, setReportBranding, readLogoFile } from '../services/pdfReport';
+import { Palette, Upload, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+
+export const ReportSettings: React.FC = () => {
+  const [branding, setBranding] = useState<ReportBranding>(getReportBranding());
+  const [error, setError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  // Saved on every change, like the result cache setting
+  const update = (changes: Partial<ReportBranding>) => {
+    const next = { ...branding, ...changes };
+    setBranding(next);
+    setReportBranding(next);
+  };
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      update({ logoDataUrl: await readLogoFile(file) });
+    } catch (err: any) {
+      setError(err.message || "Failed to read the logo.");
+    } finally {
+      if (logoInputRef.current) logoInputRef.current.value = '';
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none";
+  const labelClass = "block text-slate-400 text-[10px] font-bold uppercase mb-1";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <Palette className="w-4 h-4 text-electric" />
+          Report Branding & Letterhead
+        </h3>
+        <button
+          onClick={() => update(DEFAULT_BRANDING)}
+          className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-electric"
+        >
+          <RotateCcw className="w-3 h-3" /> Reset
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Used on every PDF report: the letterhead on the first page, the running header and the footer on the others, and the reviewer named in the sign-off block.
+      </p>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <label>
+          <span className={labelClass}>Company Name</span>
+          <input value={branding.companyName} onChange={(e) => update({ companyName: e.target.value })} className={inputClass} />
+        </label>
+        <div>
+          <span className={labelClass}>Logo & Colour</span>
+          <div className="flex items-center gap-3">
+            <input type="color" value={branding.brandColor} onChange={(e) => update({ brandColor: e.target.value })} className="h-9 w-12 rounded border border-slate-200 dark:border-slate-800 bg-transparent cursor-pointer" title="Letterhead colour" />
+            {branding.logoDataUrl ? (
+              <div className="flex items-center gap-2">
+                <img src={branding.logoDataUrl} alt="Logo" className="h-9 max-w-[120px] object-contain rounded bg-white border border-slate-200 dark:border-slate-800 p-1" />
+                <button onClick={() => update({ logoDataUrl: undefined })} className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800" title="Remove logo">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => logoInputRef.current?.click()}
+                className="flex items-center gap-2 text-xs font-bold text-navy dark:text-white px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-blue-50 dark:hover:bg-slate-800"
+              >
+                <Upload className="w-3 h-3 text-electric" /> Upload Logo
+              </button>
+            )}
+            <input type="file" ref={logoInputRef} onChange={handleLogo} accept="image/png,image/jpeg" className="hidden" />
+          </div>
+        </div>
+        <label className="sm:col-span-2">
+          <span className={labelClass}>Letterhead Lines</span>
+          <textarea
+            value={branding.letterhead}
+            onChange={(e) => update({ letterhead: e.target.value })}
+            rows={3}
+            className={`${inputClass} resize-none`}
+            placeholder={"Address\nPhone | Email | Licence number"}
+          />
+        </label>
+        <label className="sm:col-span-2">
+          <span className={labelClass}>Footer Note</span>
+          <input value={branding.footerNote} onChange={(e) => update({ footerNote: e.target.value })} className={inputClass} placeholder="e.g. Confidential - prepared for customs broker review" />
+        </label>
+        <label>
+          <span className={labelClass}>Reviewer</span>
+          <input value={branding.reviewerName} onChange={(e) => update({ reviewerName: e.target.value })} className={inputClass} placeholder="Left blank to sign by hand" />
+        </label>
+        <label>
+          <span className={labelClass}>Reviewer Title</span>
+          <input value={branding.reviewerTitle} onChange={(e) => update({ reviewerTitle: e.target.value })} className={inputClass} placeholder="e.g. Licensed Customs Broker" />
+        </label>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,35 @@
 import React, { useState } from 'react';
-import { HSCodeResult, TargetRegion } from '../types';
-import { ShieldCheck, AlertTriangle, FileText, Info, Download, Database, Bot, Copy, Check, FileCheck, Layers, BookOpen, ExternalLink, Globe, ClipboardCopy, ClipboardCheck } from 'lucide-react';
-import { jsPDF } from "jspdf";
+import { HSCodeResult, TargetRegion, CitationStatus } from '../types';
+import { ShieldCheck, AlertTriangle, FileText, Info, Download, Database, Bot, Copy, Check, FileCheck, Layers, BookOpen, ExternalLink, Globe, ClipboardCopy, ClipboardCheck, Clock, RefreshCw, ArrowRightLeft, Scale, BadgePercent, ShieldAlert } from 'lucide-react';
+import { formatHSCode } from '../services/hsCode';
+import { LandedCostBreakdown, formatBreakdownText } from '../services/landedCost';
+import { OriginReport, formatOriginReportText } from '../services/rulesOfOrigin';
+import { formatRate, describeRateType } from '../services/rateParser';
+import { describeConversion, formatEdition } from '../services/hsCorrelation';
+import { CITATION_STATUS_LABELS, formatCitation } from '../services/legalNotes';
+import { describeMatch } from '../services/controlLists';
+import { declarationItemFromResult } from '../services/customsDeclaration';
+import { downloadReport } from '../services/pdfReport';
+import { findPreferentialRates, formatPreferentialRate, formatSavings, formatPreferencesText, countryName } from '../services/preferentialRates';
+import { LandedCostCalculator } from './LandedCostCalculator';
+import { OriginChecker } from './OriginChecker';
+import { DeclarationExporter } from './DeclarationExporter';
 
 interface ResultCardProps {
   result: HSCodeResult;
   region: TargetRegion;
+  onRefresh?: () => void; // Re-runs the classification without the cache; offered on cached results
+  onBrowseCode?: (code: string) => void; // Opens the HS hierarchy browser at the code
+  origin?: string; // ISO country of origin; enables the preferential rates section
 }
 
+const citationStatusStyles: Record<CitationStatus, string> = {
+  verified: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800',
+  quote_mismatch: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800',
+  not_found: 'bg-red-50 text-red-600 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800',
+  unchecked: 'bg-slate-50 text-slate-500 border-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700',
+};
+
 const countryCodes: Record<TargetRegion, string> = {
   [TargetRegion.SINGAPORE]: 'sg',
   [TargetRegion.MALAYSIA]: 'my',
@@ -34,9 +56,11 @@ const officialPortals: Record<TargetRegion, { name: string; url: string }> = {
   [TargetRegion.GLOBAL]: { name: "WCO Harmonized System", url: "https://www.wcoomd.org/" },
 };
 
-export const ResultCard: React.FC<ResultCardProps> = ({ result, region }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({ result, region, onRefresh, onBrowseCode, origin }) => {
   const [copied, setCopied] = useState(false);
   const [fullCopied, setFullCopied] = useState(false);
+  const [landedCost, setLandedCost] = useState<LandedCostBreakdown | null>(null);
+  const [originReport, setOriginReport] = useState<OriginReport | null>(null);
 
   const getConfidenceDisplay = (score: number) => {
      return `${score}% Match`;
@@ -48,28 +72,53 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, region }) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const editionNotices = result.editionNotices || [];
+  const legalBasis = result.legalBasis || [];
+  const controlHits = result.controlHits || [];
+  const preferences = origin ? findPreferentialRates(result.hsCode, region, origin, result.dutyRate) : [];
+  const preferencesText = origin ? formatPreferencesText(preferences, origin) : '';
+  const similarNotice = (index: number) => editionNotices.find(notice => notice.field === `similarItems[${index}].hsCode`);
+
   const handleCopyFullResult = () => {
     const portalName = officialPortals[region]?.name;
     const content = `HScode.Centrovert - Classification Result
 -----------------------------------------
-Region: ${region}
+Region: ${region}${result.cachedAt ? `\nCached result from: ${new Date(result.cachedAt).toLocaleString()}` : ''}
 Product: ${result.productName}
-HS Code: ${result.hsCode}
+HS Code: ${result.hsCode}${result.validation && !result.validation.valid ? ' (UNVERIFIED - failed validation)' : ''}${result.degraded ? `\nIncomplete response - defaults used for: ${result.degraded.defaultedFields.join(', ')}` : ''}
 
 Description:
 ${result.description}
 
 Duty & Taxes:
-- Import Duty: ${result.dutyRate}
-- VAT/Tax: ${result.taxRate}
+- Import Duty: ${formatRate(result.dutyRate)} (${describeRateType(result.dutyRate)})
+- VAT/Tax: ${formatRate(result.taxRate)}
+
+${origin ? `Preferential Rates (Origin: ${countryName(origin)}):
+${preferencesText}
+
+` : ''}${originReport ? `Rules of Origin (${originReport.agreement}):
+${formatOriginReportText(originReport)}
 
-Restrictions:
+` : ''}${landedCost ? `Landed Cost Estimate (${region}):
+${formatBreakdownText(landedCost)}
+
+` : ''}${result.matchedTariffLine ? `Tariff Line (${result.matchedTariffLine.edition}):
+${formatHSCode(result.matchedTariffLine.code)} - ${result.matchedTariffLine.description}${result.matchedTariffLine.duty ? ` (Duty: ${result.matchedTariffLine.duty})` : ''}
+
+` : ''}${editionNotices.length > 0 ? `Older HS Edition Codes:
+${editionNotices.map(notice => `- ${notice.code} (${formatEdition(notice.edition)}): ${describeConversion(notice.conversion)}`).join('\n')}
+
+` : ''}Restrictions:
 ${result.restrictions.length > 0 ? result.restrictions.join(', ') : 'None detected'}
 
 Reasoning:
 ${result.reasoning}
 
-Source: ${result.sourceReference || 'AI Analysis'}
+${legalBasis.length > 0 ? `Legal Basis:
+${legalBasis.map(formatCitation).join('\n\n')}
+
+` : ''}Source: ${result.sourceReference || 'AI Analysis'}
 ${portalName ? `Official Portal: ${portalName}` : ''}
 `;
 
@@ -79,115 +128,11 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
   };
 
   const handleDownloadPDF = () => {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    
-    // Corporate Navy Blue Header
-    doc.setFillColor(26, 58, 82); // #1a3a52
-    doc.rect(0, 0, pageWidth, 40, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(22);
-    doc.setFont('helvetica', 'bold');
-    doc.text("HScode.Centrovert", 14, 20);
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Region: ${region}  |  Generated: ${new Date().toLocaleDateString()}`, 14, 32);
-
-    let yPos = 55;
-
-    // Electric Blue Accent Title
-    doc.setTextColor(0, 102, 255); // #0066ff
-    doc.setFontSize(10);
-    doc.text("CLASSIFICATION RESULT", 14, yPos);
-    yPos += 10;
-    
-    doc.setTextColor(26, 58, 82); // Navy
-    doc.setFontSize(36);
-    doc.setFont('helvetica', 'bold');
-    doc.text(result.hsCode, 14, yPos);
-    
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.setTextColor(100, 116, 139); // Slate
-    doc.text(`Confidence: ${result.confidenceScore}%`, 14, yPos + 8);
-    
-    if (result.sourceReference) {
-      doc.text(`Source: ${result.sourceReference}`, 14, yPos + 14);
-      yPos += 6;
-    }
-    
-    yPos += 25;
-
-    const addSection = (title: string, content: string) => {
-        doc.setTextColor(26, 58, 82); // Navy
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(10);
-        doc.text(title.toUpperCase(), 14, yPos);
-        yPos += 6;
-        doc.setTextColor(50, 50, 50);
-        doc.setFont('helvetica', 'normal');
-        doc.setFontSize(10);
-        const splitText = doc.splitTextToSize(content, pageWidth - 28);
-        doc.text(splitText, 14, yPos);
-        yPos += (splitText.length * 5) + 10;
-    };
-
-    addSection("Product Name", result.productName);
-    addSection("Description", result.description);
-    addSection("Classification Reasoning", result.reasoning);
-
-    yPos += 5;
-    // Electric Blue Line
-    doc.setDrawColor(0, 102, 255);
-    doc.setLineWidth(0.5);
-    doc.line(14, yPos, pageWidth-14, yPos);
-    yPos += 12;
-    
-    doc.setTextColor(26, 58, 82);
-    doc.setFont('helvetica', 'bold');
-    doc.text(`DUTY RATE: ${result.dutyRate}`, 14, yPos);
-    doc.text(`TAX / VAT: ${result.taxRate}`, 100, yPos);
-    yPos += 12;
-    doc.line(14, yPos, pageWidth-14, yPos);
-    yPos += 15;
-
-    if (result.restrictions.length > 0) {
-        addSection("Restrictions & Requirements", result.restrictions.join(", "));
-    }
-    
-    if (result.requiredDocuments.length > 0) {
-        addSection("Required Documents", result.requiredDocuments.join(", "));
-    }
-
-    // Similar Items in PDF
-    if (result.similarItems && result.similarItems.length > 0) {
-      // Check for page break
-      if (yPos > 240) {
-        doc.addPage();
-        yPos = 20;
-      }
-      doc.setTextColor(0, 102, 255);
-      doc.setFont('helvetica', 'bold');
-      doc.text("SIMILAR CLASSIFICATIONS", 14, yPos);
-      yPos += 10;
-      
-      result.similarItems.forEach((item, index) => {
-         if (yPos > 270) { doc.addPage(); yPos = 20; }
-         doc.setTextColor(26, 58, 82);
-         doc.setFontSize(10);
-         doc.setFont('helvetica', 'bold');
-         doc.text(`${index + 1}. ${item.name} (${item.hsCode})`, 14, yPos);
-         yPos += 5;
-         doc.setTextColor(50, 50, 50);
-         doc.setFont('helvetica', 'normal');
-         doc.text(item.reason, 14, yPos);
-         yPos += 10;
-      });
-    }
-
-    doc.save(`Centrovert_HS_${result.hsCode}.pdf`);
+    downloadReport([{ result, region, origin, landedCost, originReport }]);
   };
 
+  const validationFailed = result.validation ? !result.validation.valid : false;
+
   // Get country code for flag
   const countryCode = countryCodes[region];
   const officialPortal = officialPortals[region];
@@ -216,7 +161,11 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                   <span className="text-xs font-bold tracking-widest text-electric uppercase">{region}</span>
                 </div>
 
-                {result.source === 'Live API' ? (
+                {validationFailed ? (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-[10px] font-bold uppercase tracking-wider border border-red-200 dark:border-red-800">
+                      <AlertTriangle className="w-3 h-3" /> Unverified Code
+                    </span>
+                ) : result.source === 'Live API' ? (
                     <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-navy text-white text-[10px] font-bold uppercase tracking-wider">
                       <Database className="w-3 h-3" /> Official Data
                     </span>
@@ -225,6 +174,20 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                       <Bot className="w-3 h-3" /> AI Analysis
                     </span>
                 )}
+
+                {result.cachedAt && (
+                    <span
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-[10px] font-bold uppercase tracking-wider border border-amber-200 dark:border-amber-800"
+                      title="Served from the result cache"
+                    >
+                      <Clock className="w-3 h-3" /> Cached · {new Date(result.cachedAt).toLocaleString()}
+                      {onRefresh && (
+                        <button onClick={onRefresh} className="ml-1 hover:text-electric" title="Classify again without the cache">
+                          <RefreshCw className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                )}
              </div>
              <h3 className="text-2xl font-bold text-navy dark:text-white">{result.productName}</h3>
           </div>
@@ -257,11 +220,15 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
           <div className="md:col-span-4 bg-slate-50 dark:bg-slate-950/50 border-r border-slate-100 dark:border-slate-800 p-8 text-navy dark:text-white">
              <div className="sticky top-6">
                  <label className="text-slate-400 text-[10px] font-bold uppercase tracking-widest mb-2 block">HS Classification Code</label>
-                 <div className="flex items-center gap-4 mb-8 group cursor-pointer" onClick={handleCopy}>
-                     <h2 className="text-5xl font-black tracking-tighter text-navy dark:text-white">
+                 <div className="flex items-center gap-4 mb-8 group cursor-pointer" onClick={onBrowseCode ? undefined : handleCopy}>
+                     <h2
+                        className={`text-5xl font-black tracking-tighter text-navy dark:text-white ${onBrowseCode ? 'hover:text-electric dark:hover:text-electric transition-colors' : ''}`}
+                        onClick={onBrowseCode ? () => onBrowseCode(result.hsCode) : undefined}
+                        title={onBrowseCode ? 'Browse neighbouring codes' : undefined}
+                     >
                         {result.hsCode}
                      </h2>
-                     <div className="p-2 rounded-full bg-white dark:bg-slate-800 shadow-sm opacity-0 group-hover:opacity-100 transition-opacity text-electric">
+                     <div className="p-2 rounded-full bg-white dark:bg-slate-800 shadow-sm opacity-0 group-hover:opacity-100 transition-opacity text-electric" onClick={onBrowseCode ? handleCopy : undefined}>
                         {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
                      </div>
                  </div>
@@ -313,11 +280,17 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                     <div className="grid grid-cols-1 gap-3">
                         <div className="bg-white dark:bg-slate-900 rounded-xl p-5 border border-slate-200 dark:border-slate-800 shadow-sm">
                             <span className="block text-slate-400 text-[10px] font-bold uppercase mb-1">Import Duty</span>
-                            <span className="text-2xl font-bold text-navy dark:text-white">{result.dutyRate}</span>
+                            <span className={`font-bold block ${result.dutyRate.type === 'prohibited' ? 'text-red-600 dark:text-red-400' : 'text-navy dark:text-white'} ${formatRate(result.dutyRate).length > 14 ? 'text-base' : 'text-2xl'}`}>
+                                {formatRate(result.dutyRate)}
+                            </span>
+                            <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">{describeRateType(result.dutyRate)}</span>
                         </div>
                         <div className="bg-white dark:bg-slate-900 rounded-xl p-5 border border-slate-200 dark:border-slate-800 shadow-sm">
                             <span className="block text-slate-400 text-[10px] font-bold uppercase mb-1">VAT / Taxes</span>
-                            <span className="text-2xl font-bold text-navy dark:text-white">{result.taxRate}</span>
+                            <span className={`font-bold block text-navy dark:text-white ${formatRate(result.taxRate).length > 14 ? 'text-base' : 'text-2xl'}`}>
+                                {formatRate(result.taxRate)}
+                            </span>
+                            <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">{describeRateType(result.taxRate)}</span>
                         </div>
                     </div>
                  </div>
@@ -326,7 +299,87 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
 
           {/* Right: Context & Details */}
           <div className="md:col-span-8 p-8 space-y-10 bg-white dark:bg-slate-900">
-            
+
+            {validationFailed && result.validation && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-5">
+                <h4 className="text-xs font-bold text-red-600 dark:text-red-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" /> Code Failed Validation
+                </h4>
+                <ul className="space-y-2">
+                  {result.validation.checks.filter(check => !check.passed).map(check => (
+                    <li key={check.id} className="text-xs text-slate-700 dark:text-slate-300">
+                      <span className="font-bold">{check.label}:</span> {check.message}
+                    </li>
+                  ))}
+                </ul>
+                {result.validation.correctionAttempted && (
+                  <p className="mt-3 text-[10px] font-bold text-red-500 uppercase tracking-wider">
+                    A corrective re-prompt was attempted. Verify this code manually before filing.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {result.degraded && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-5">
+                <h4 className="text-xs font-bold text-amber-600 dark:text-amber-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" /> Incomplete Model Response
+                </h4>
+                <p className="text-xs text-slate-700 dark:text-slate-300 mb-2">
+                  The answer was still incomplete after a repair request. Defaults were used for: <span className="font-bold">{result.degraded.defaultedFields.join(', ')}</span>.
+                </p>
+                <ul className="space-y-1">
+                  {result.degraded.errors.map((error, i) => (
+                    <li key={i} className="text-[11px] font-mono text-slate-500 dark:text-slate-400">{error.field}: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {controlHits.length > 0 && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-5">
+                <h4 className="text-xs font-bold text-red-600 dark:text-red-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                    <ShieldAlert className="w-4 h-4" /> Possible Strategic Goods / Dual-Use Item
+                </h4>
+                <ul className="space-y-3">
+                  {controlHits.map((hit, i) => (
+                    <li key={i} className="text-xs text-slate-700 dark:text-slate-300">
+                      <span className="font-mono font-bold">{hit.entry}</span> {hit.description}
+                      <span className="block text-slate-500 dark:text-slate-400">{hit.list} · {describeMatch(hit)}</span>
+                      <span className="block font-bold text-red-600 dark:text-red-400">Permit: {hit.permit}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-3 text-[10px] font-bold text-red-500 uppercase tracking-wider">
+                  Control depends on the item's technical parameters. Confirm against the official list before shipping.
+                </p>
+              </div>
+            )}
+
+            {editionNotices.length > 0 && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-5">
+                <h4 className="text-xs font-bold text-amber-600 dark:text-amber-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                    <ArrowRightLeft className="w-4 h-4" /> Older HS Edition Codes
+                </h4>
+                <ul className="space-y-2">
+                  {editionNotices.map(notice => (
+                    <li key={notice.field} className="text-xs text-slate-700 dark:text-slate-300">
+                      <span className="font-mono font-bold">{notice.code}</span>
+                      <span className="text-slate-500 dark:text-slate-400"> ({notice.field === 'hsCode' ? 'classified code' : 'similar item'}, {formatEdition(notice.edition)})</span>
+                      {' — '}{describeConversion(notice.conversion)}
+                      {notice.conversion.targets.some(target => target.note) && (
+                        <ul className="mt-1 ml-4 list-disc text-slate-500 dark:text-slate-400">
+                          {notice.conversion.targets.filter(target => target.note).map(target => (
+                            <li key={target.code}><span className="font-mono">{formatHSCode(target.code)}</span> {target.note}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div>
                 <h4 className="text-xs font-bold text-electric uppercase tracking-widest mb-4 flex items-center gap-2">
                     Official Description
@@ -336,6 +389,40 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                 </div>
             </div>
 
+            {result.matchedTariffLine && (
+              <div>
+                <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <Database className="w-4 h-4 text-electric" /> Matched Tariff Line
+                </h4>
+                <div className="overflow-x-auto rounded-xl border border-emerald-200 dark:border-emerald-900">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-emerald-50 dark:bg-emerald-900/20">
+                      <tr>
+                        <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Code</th>
+                        <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Description</th>
+                        <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Duty</th>
+                        <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Unit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td className="px-4 py-3 font-mono text-electric font-bold whitespace-nowrap">{formatHSCode(result.matchedTariffLine.code)}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-200">{result.matchedTariffLine.description}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-200 whitespace-nowrap">{result.matchedTariffLine.duty || '—'}</td>
+                        <td className="px-4 py-3 text-slate-500 dark:text-slate-400 whitespace-nowrap">{result.matchedTariffLine.unit || '—'}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+                {result.matchedTariffLine.notes && (
+                  <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Notes: {result.matchedTariffLine.notes}</p>
+                )}
+                <p className="mt-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                  {result.matchedTariffLine.edition} · {result.matchedTariffLine.bookName}
+                </p>
+              </div>
+            )}
+
             <div>
                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
                     Analysis Reasoning
@@ -345,6 +432,42 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                 </p>
             </div>
 
+            {legalBasis.length > 0 && (
+              <div>
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                  <Scale className="w-4 h-4 text-electric" /> Legal Basis
+                </h4>
+                <ol className="space-y-4">
+                  {legalBasis.map((citation, index) => (
+                    <li key={index} className="border-l-2 border-electric/40 pl-4">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className="text-sm font-bold text-navy dark:text-white">{citation.reference}</span>
+                        {citation.check && (
+                          <span
+                            className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border ${citationStatusStyles[citation.check.status]}`}
+                            title={citation.check.source ? `Checked against ${citation.check.source}` : 'No loaded notes cover this provision'}
+                          >
+                            {CITATION_STATUS_LABELS[citation.check.status]}
+                          </span>
+                        )}
+                      </div>
+                      {citation.text && (
+                        <blockquote className="text-xs italic text-slate-600 dark:text-slate-300 leading-relaxed">“{citation.text}”</blockquote>
+                      )}
+                      {citation.check?.corpusText && (
+                        <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">
+                          As printed: “{citation.check.corpusText}”
+                        </p>
+                      )}
+                      {citation.relevance && (
+                        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{citation.relevance}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <div className="grid sm:grid-cols-2 gap-8 pt-6 border-t border-slate-100 dark:border-slate-800">
                 <div>
                      <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-4 flex items-center gap-2">
@@ -378,6 +501,56 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                 </div>
             </div>
 
+            {origin && (
+              <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+                <h4 className="text-xs font-bold text-navy dark:text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+                  <BadgePercent className="w-4 h-4 text-electric" /> Preferential Rates · Origin {countryName(origin)}
+                </h4>
+                {preferences.length > 0 ? (
+                  <div className="overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-800">
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-slate-50 dark:bg-slate-800/50">
+                        <tr>
+                          <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Agreement</th>
+                          <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Rate</th>
+                          <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Saving vs MFN</th>
+                          <th className="px-4 py-3 font-semibold text-navy dark:text-white text-xs uppercase tracking-wider">Proof of Origin</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                        {preferences.map(preference => (
+                          <tr key={preference.agreementId}>
+                            <td className="px-4 py-3 text-slate-700 dark:text-slate-200">
+                              <span className="font-bold" title={preference.agreementName}>{preference.agreement}</span>
+                              {preference.note && <p className="text-[10px] text-slate-400">{preference.note}</p>}
+                            </td>
+                            <td className={`px-4 py-3 font-bold whitespace-nowrap ${preference.rate ? 'text-navy dark:text-white' : 'text-slate-400'}`}>
+                              {formatPreferentialRate(preference)}
+                              {preference.scheduleCode && (
+                                <p className="text-[10px] font-mono font-normal text-slate-400">{formatHSCode(preference.scheduleCode)}</p>
+                              )}
+                            </td>
+                            <td className={`px-4 py-3 whitespace-nowrap ${preference.savingsPoints ? 'text-emerald-600 dark:text-emerald-400 font-bold' : 'text-slate-400'}`}>
+                              {formatSavings(preference)}
+                            </td>
+                            <td className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400">{preference.proofOfOrigin}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{preferencesText}</p>
+                )}
+              </div>
+            )}
+
+            <OriginChecker result={result} region={region} origin={origin} onReportChange={setOriginReport} />
+
+            <LandedCostCalculator result={result} region={region} onBreakdownChange={setLandedCost} />
+
+            <DeclarationExporter region={region} items={[declarationItemFromResult(result, { origin: origin || '' })]} />
+
             {/* Similar Items Section */}
             {result.similarItems && result.similarItems.length > 0 && (
               <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
@@ -397,7 +570,18 @@ ${portalName ? `Official Portal: ${portalName}` : ''}
                       {result.similarItems.map((item, index) => (
                         <tr key={index} className="hover:bg-blue-50/30 dark:hover:bg-slate-800/30 transition-colors">
                           <td className="px-4 py-3 font-medium text-slate-700 dark:text-slate-200">{item.name}</td>
-                          <td className="px-4 py-3 font-mono text-electric font-bold">{item.hsCode}</td>
+                          <td className="px-4 py-3 font-mono text-electric font-bold">
+                            {onBrowseCode ? (
+                              <button onClick={() => onBrowseCode(item.hsCode)} className="hover:underline" title="Browse neighbouring codes">
+                                {item.hsCode}
+                              </button>
+                            ) : item.hsCode}
+                            {similarNotice(index) && (
+                              <span className="ml-2 text-[10px] font-sans font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400" title={describeConversion(similarNotice(index)!.conversion)}>
+                                {formatEdition(similarNotice(index)!.edition)}
+                              </span>
+                            )}
+                          </td>
                           <td className="px-4 py-3 text-slate-500 dark:text-slate-400 text-xs">{item.reason}</td>
                         </tr>
                       ))}
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TariffBookInfo } from '../types';
+import { TARIFF_BOOK_EDITIONS, importTariffBook, listTariffBooks, deleteTariffBook } from '../services/tariffBook';
+import { BookOpen, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+
+export const TariffBookManager: React.FC = () => {
+  const [books, setBooks] = useState<TariffBookInfo[]>([]);
+  const [edition, setEdition] = useState(TARIFF_BOOK_EDITIONS[0].edition);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listTariffBooks().then(setBooks).catch(() => setBooks([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const preset = TARIFF_BOOK_EDITIONS.find(p => p.edition === edition)!;
+
+    setImporting(true);
+    setError(null);
+    try {
+      await importTariffBook(file, preset.edition, preset.regions);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to import tariff book.");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteTariffBook(id);
+    await refresh();
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl shadow-slate-200/60 dark:shadow-black/50 border border-slate-200 dark:border-slate-800 p-6 sm:p-8 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-navy dark:text-white flex items-center gap-2">
+          <BookOpen className="w-4 h-4 text-electric" />
+          Offline Tariff Books
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">CSV, XLSX or JSON</span>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={edition}
+          onChange={(e) => setEdition(e.target.value)}
+          className="flex-grow bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-2 text-sm text-slate-900 dark:text-white focus:border-electric outline-none"
+        >
+          {TARIFF_BOOK_EDITIONS.map(p => (
+            <option key={p.edition} value={p.edition}>
+              {p.edition} ({p.regions.join(', ')})
+            </option>
+          ))}
+        </select>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.xlsx,.xls,.json" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="bg-electric hover:bg-blue-600 text-white rounded-lg px-5 py-2 text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 shadow-md shadow-blue-500/20"
+        >
+          {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import Schedule
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-500 flex items-center gap-2">
+          <AlertTriangle className="w-3 h-3" /> {error}
+        </p>
+      )}
+
+      {books.length > 0 ? (
+        <ul className="mt-6 divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-xl">
+          {books.map(book => (
+            <li key={book.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="font-semibold text-navy dark:text-white">{book.edition}</span>
+                <span className="text-slate-500 dark:text-slate-400"> · {book.name}</span>
+                <p className="text-xs text-slate-400">
+                  {book.lineCount.toLocaleString()} lines · {book.regions.join(', ')} · Imported {new Date(book.importedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(book.id)}
+                className="p-2 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-slate-800 transition-colors"
+                title="Remove tariff book"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-6 text-xs text-slate-400">
+          No tariff books imported. Classifications rely on live providers and Google Search grounding.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+// Golden-dataset evaluation runner.
+//
+//   npm run eval                                   live run with the configured model
+//   npm run eval -- --record eval/fixtures.json    live run, saving every model answer
+//   npm run eval -- --replay eval/fixtures.json    offline replay of saved answers (CI)
+//
+// Other flags: --dataset <file>, --region <name> (repeatable), --out <report.json>,
+// --concurrency <n>, --min-accuracy <level>=<fraction> (repeatable, e.g. 6=0.8),
+// --live-providers (keep live tariff lookups; they make recordings non-reproducible).
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { TargetRegion } from "../types";
+import { parseGoldenDataset, runEvaluation, formatEvaluationReport, ACCURACY_LEVELS, AccuracyLevel } from "../services/evaluation";
+import { createFixtureModel, createRecordingModel, createModelFromConfig, setClassificationModel, ModelFixtures } from "../services/classificationModels";
+import { getTariffProviders, unregisterTariffProvider } from "../services/tariffProviders";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const options = (name: string) => args.flatMap((arg, i) => arg === `--${name}` && args[i + 1] ? [args[i + 1]] : []);
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const replayPath = option('replay');
+const recordPath = option('record');
+if (replayPath && recordPath) fail("Use either --replay or --record, not both.");
+
+// 1. Dataset
+const datasetPath = option('dataset') || 'eval/golden-dataset.json';
+let cases = parseGoldenDataset(JSON.parse(readFileSync(datasetPath, 'utf8')));
+const regions = options('region');
+if (regions.length > 0) cases = cases.filter(c => regions.includes(c.region));
+if (cases.length === 0) fail("No cases to evaluate.");
+
+// 2. Model
+let recording: ModelFixtures | null = null;
+const recordCommand = `npm run eval -- --record ${replayPath}`;
+if (replayPath) {
+  if (!existsSync(replayPath)) fail(`No recorded fixtures at ${replayPath}. Record them with a live model: ${recordCommand}`);
+  const fixtures: ModelFixtures = JSON.parse(readFileSync(replayPath, 'utf8'));
+  if (Object.keys(fixtures.responses || {}).length === 0) fail(`${replayPath} holds no recorded responses. Record them with a live model: ${recordCommand}`);
+  // The prompt depends on the model's capabilities, so replay has to report the recording model's
+  if (!fixtures.capabilities) fail(`${replayPath} does not say which model capabilities it was recorded with. Re-record it: ${recordCommand}`);
+  setClassificationModel(createFixtureModel(fixtures, fixtures.capabilities));
+} else if (recordPath) {
+  recording = existsSync(recordPath) ? JSON.parse(readFileSync(recordPath, 'utf8')) : { version: 1, responses: {} };
+  setClassificationModel(createRecordingModel(createModelFromConfig(), recording!));
+}
+
+// 3. Live tariff lookups change the prompt from run to run, so they are off unless asked for
+if (!flag('live-providers')) {
+  Object.values(TargetRegion).forEach(region => {
+    getTariffProviders(region).forEach(provider => unregisterTariffProvider(provider.id));
+  });
+}
+
+// 4. Run
+const report = await runEvaluation(cases, {
+  concurrency: parseInt(option('concurrency') || '2', 10),
+  onProgress: (done, total, outcome) => {
+    const mark = outcome.error ? 'ERR ' : outcome.fullMatch ? 'ok  ' : 'miss';
+    console.error(`[${done}/${total}] ${mark} ${outcome.caseId}`);
+  },
+});
+
+// A replay with missing recordings measures the gaps, not the classifier, so no report is printed
+if (replayPath && report.overall.errors > 0) {
+  const missing = report.outcomes.filter(outcome => outcome.error).map(outcome => `  ${outcome.caseId}: ${outcome.error}`);
+  fail(`${report.overall.errors} of ${report.overall.total} case(s) have no usable recorded response:\n${missing.join('\n')}\n` +
+    `Re-record the fixtures after prompt or dataset changes: ${recordCommand}`);
+}
+
+console.log(formatEvaluationReport(report));
+
+if (recording) writeFileSync(recordPath!, JSON.stringify(recording, null, 2) + '\n');
+const outPath = option('out');
+if (outPath) writeFileSync(outPath, JSON.stringify(report, null, 2) + '\n');
+
+// 5. CI gates
+const failures: string[] = [];
+options('min-accuracy').forEach(threshold => {
+  const [levelText, minText] = threshold.split('=');
+  const level = parseInt(levelText, 10) as AccuracyLevel;
+  if (!ACCURACY_LEVELS.includes(level)) fail(`Unknown accuracy level "${levelText}" (expected ${ACCURACY_LEVELS.join(', ')})`);
+  const accuracy = report.overall.levels[level].accuracy;
+  if (accuracy !== null && accuracy < parseFloat(minText)) {
+    failures.push(`${level}-digit accuracy ${(accuracy * 100).toFixed(1)}% is below ${(parseFloat(minText) * 100).toFixed(1)}%`);
+  }
+});
+
+if (failures.length > 0) fail(`\n${failures.join('\n')}`);
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAmount } from "./amounts";
+
+test("reads decimal-point and decimal-comma figures", () => {
+  assert.equal(parseAmount("1,234.56"), 1234.56);
+  assert.equal(parseAmount("1.234,56"), 1234.56);
+  assert.equal(parseAmount("1 234,56"), 1234.56);
+  assert.equal(parseAmount("12,5"), 12.5);
+  assert.equal(parseAmount("EUR 1.250.000"), 1250000);
+});
+
+test("takes a lone comma before three digits as a thousands separator", () => {
+  assert.equal(parseAmount("1,234"), 1234);
+  assert.equal(parseAmount("1.234"), 1.234);
+});
+
+test("keeps zero and rejects negative or empty amounts", () => {
+  assert.equal(parseAmount(0), 0);
+  assert.equal(parseAmount("0,00"), 0);
+  assert.equal(parseAmount("-5"), undefined);
+  assert.equal(parseAmount("(5.00)"), undefined);
+  assert.equal(parseAmount(-5), undefined);
+  assert.equal(parseAmount(""), undefined);
+  assert.equal(parseAmount(undefined), undefined);
+});
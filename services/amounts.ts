@@ -0,0 +1,24 @@
+// --- Printed Amounts ---
+
+// Figures as printed, in either convention: "1,234.56", "1.234,56", "1 234,56" or "12,5". The last
+// separator is the decimal mark unless it repeats or is a comma followed by exactly three digits.
+// Negative amounts ("-5", "(5.00)") are credit lines, not goods values, and are rejected.
+// Used for invoice lines and bill of materials values alike.
+export const parseAmount = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+  const text = String(value ?? '').trim();
+  if (/^\(.*\)$|^[^0-9]*-|-$/.test(text)) return undefined;
+  const digits = text.replace(/[^0-9.,]/g, '');
+  const last = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  let normalized = digits;
+  if (last >= 0) {
+    const separator = digits[last];
+    const repeats = digits.indexOf(separator) !== last;
+    const thousands = repeats || (separator === ',' && /^,\d{3}$/.test(digits.slice(last)) && !digits.includes('.'));
+    normalized = thousands
+      ? digits.replace(/[.,]/g, '')
+      : `${digits.slice(0, last).replace(/[.,]/g, '')}.${digits.slice(last + 1)}`;
+  }
+  const number = normalized ? parseFloat(normalized) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
@@ -0,0 +1,215 @@
+import * as XLSX from "xlsx";
+import { TargetRegion, HSCodeResult, EvidenceFile } from "../types";
+import { identifyHSCode } from "./geminiService";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { recordClassification } from "./historyStore";
+import { formatRate } from "./rateParser";
+
+// --- Batch Input ---
+
+export interface BatchItem {
+  id: string;
+  description: string;
+  sku?: string;
+  origin?: string;
+  imageUrl?: string;
+  quantity?: number;  // Invoice lines only
+  unitPrice?: number; // Invoice lines only
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRow {
+  item: BatchItem;
+  status: BatchRowStatus;
+  attempts: number;
+  result?: HSCodeResult;
+  error?: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  running: number;
+  paused: boolean;
+}
+
+const BATCH_COLUMNS = {
+  description: ['description', 'product_description', 'item_description', 'goods_description', 'product', 'product_name', 'name'],
+  sku: ['sku', 'item_code', 'product_code', 'part_number', 'article_number'],
+  origin: ['origin', 'country_of_origin', 'origin_country', 'coo'],
+  imageUrl: ['image_url', 'imageurl', 'image', 'image_link', 'photo_url'],
+};
+
+export const readBatchFile = async (file: File): Promise<BatchItem[]> => {
+  const rows = await readRowsFromFile(file);
+  const items = rows
+    .map((row, index) => ({
+      id: `row-${index + 1}`,
+      description: pickColumn(row, BATCH_COLUMNS.description),
+      sku: pickColumn(row, BATCH_COLUMNS.sku) || undefined,
+      origin: pickColumn(row, BATCH_COLUMNS.origin) || undefined,
+      imageUrl: pickColumn(row, BATCH_COLUMNS.imageUrl) || undefined,
+    }))
+    .filter(item => item.description);
+
+  if (items.length === 0) {
+    throw new Error("No products found. Expected a 'description' column.");
+  }
+  return items;
+};
+
+// Image URLs are optional evidence; an unreachable image should not fail the row.
+async function fetchImageEvidence(url: string): Promise<EvidenceFile[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return [];
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return [];
+    const name = new URL(url, 'http://localhost').pathname.split('/').pop() || 'image';
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve([{ name, mimeType: blob.type, dataUrl: reader.result as string }]);
+      reader.onerror = () => resolve([]);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error: any) {
+    console.warn(`[Batch] Could not load image ${url}:`, error.message);
+    return [];
+  }
+}
+
+// --- Batch Runner ---
+
+export interface BatchRunOptions {
+  concurrency?: number; // Rows classified in parallel
+  maxRetries?: number;  // Automatic retries per row before it is marked failed
+  onUpdate: (rows: BatchRow[], progress: BatchProgress) => void;
+}
+
+export interface BatchRun {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  retryRow: (id: string) => void;
+  retryFailed: () => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createBatchRun = (items: BatchItem[], region: TargetRegion, options: BatchRunOptions): BatchRun => {
+  const concurrency = options.concurrency ?? 3;
+  const maxRetries = options.maxRetries ?? 2;
+  const rows: BatchRow[] = items.map(item => ({ item, status: 'pending', attempts: 0 }));
+  let paused = false;
+  let activeWorkers = 0;
+
+  const progress = (): BatchProgress => ({
+    total: rows.length,
+    completed: rows.filter(r => r.status === 'done').length,
+    failed: rows.filter(r => r.status === 'failed').length,
+    running: rows.filter(r => r.status === 'running').length,
+    paused,
+  });
+
+  const emit = () => options.onUpdate(rows.map(r => ({ ...r })), progress());
+
+  const classifyRow = async (row: BatchRow) => {
+    const { description, origin, imageUrl } = row.item;
+    const query = origin ? `${description} (Country of origin: ${origin})` : description;
+    const evidence = imageUrl ? await fetchImageEvidence(imageUrl) : [];
+
+    while (row.attempts <= maxRetries) {
+      row.attempts++;
+      try {
+        row.result = await identifyHSCode(query, region, evidence);
+        await recordClassification(query, region, row.result, evidence);
+        row.status = 'done';
+        row.error = undefined;
+        return;
+      } catch (error: any) {
+        row.error = error?.message || "Classification failed";
+        // Back off before retrying; rate limits are the most common cause of failure
+        if (row.attempts <= maxRetries) await sleep(1000 * row.attempts);
+      }
+    }
+    row.status = 'failed';
+  };
+
+  const worker = async () => {
+    activeWorkers++;
+    while (!paused) {
+      const row = rows.find(r => r.status === 'pending');
+      if (!row) break;
+      row.status = 'running';
+      emit();
+      await classifyRow(row);
+      emit();
+    }
+    activeWorkers--;
+    emit();
+  };
+
+  const start = () => {
+    paused = false;
+    const pending = rows.filter(r => r.status === 'pending').length;
+    const toSpawn = Math.min(concurrency - activeWorkers, pending);
+    for (let i = 0; i < toSpawn; i++) worker();
+    emit();
+  };
+
+  const resetRow = (row: BatchRow) => {
+    row.status = 'pending';
+    row.attempts = 0;
+    row.error = undefined;
+  };
+
+  return {
+    start,
+    pause: () => {
+      // Rows already running finish; no new rows are picked up
+      paused = true;
+      emit();
+    },
+    resume: start,
+    retryRow: (id) => {
+      const row = rows.find(r => r.item.id === id);
+      if (row && row.status === 'failed') {
+        resetRow(row);
+        start();
+      }
+    },
+    retryFailed: () => {
+      rows.filter(r => r.status === 'failed').forEach(resetRow);
+      start();
+    },
+  };
+};
+
+// --- Results Export ---
+
+export const exportBatchResults = (rows: BatchRow[], region: TargetRegion) => {
+  const sheetRows = rows.map(({ item, status, result, error }) => ({
+    'SKU': item.sku || '',
+    'Description': item.description,
+    'Origin': item.origin || '',
+    'Region': region,
+    'HS Code': result?.hsCode || '',
+    'Tariff Name': result?.productName || '',
+    'Duty Rate': result ? formatRate(result.dutyRate) : '',
+    'Duty Type': result?.dutyRate.type || '',
+    'Tax Rate': result ? formatRate(result.taxRate) : '',
+    'Confidence (%)': result?.confidenceScore ?? '',
+    'Restrictions': result?.restrictions.join('; ') || '',
+    'Required Documents': result?.requiredDocuments.join('; ') || '',
+    'Source': result?.sourceReference || '',
+    'Validation': result?.validation ? (result.validation.valid ? 'Passed' : 'Failed') : '',
+    'Status': status,
+    'Error': error || '',
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheetRows), 'Classifications');
+  XLSX.writeFile(workbook, `Centrovert_Batch_${region.replace(/\W+/g, '_')}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureKey, createFixtureModel, createRecordingModel, ClassificationModel, ModelFixtures, ModelRequest } from "./classificationModels";
+
+const request = (text: string, overrides: Partial<ModelRequest> = {}): ModelRequest => ({
+  contents: [{ role: 'user', parts: [{ text }] }],
+  systemInstruction: "Classify the product.",
+  temperature: 0.1,
+  useSearchGrounding: false,
+  ...overrides,
+});
+
+const liveModel: ClassificationModel = {
+  provider: 'openai',
+  modelId: 'test-model',
+  capabilities: { searchGrounding: false, vision: true, documents: false },
+  generate: async req => `{"answer": ${JSON.stringify((req.contents[0].parts[0] as { text: string }).text)}}`,
+};
+
+test("keys fixtures by prompt, not by sampling settings", () => {
+  assert.equal(fixtureKey(request("Cotton T-shirt ")), fixtureKey(request("Cotton T-shirt", { temperature: 0.7 })));
+  assert.notEqual(fixtureKey(request("Cotton T-shirt")), fixtureKey(request("Wool T-shirt")));
+  assert.notEqual(fixtureKey(request("Cotton T-shirt")), fixtureKey(request("Cotton T-shirt", { systemInstruction: "Classify the product. Search the web." })));
+});
+
+test("keys image parts by their content", () => {
+  const withImage = (data: string) => request("", { contents: [{ role: 'user', parts: [{ inlineData: { data, mimeType: 'image/png' } }] }] });
+  assert.equal(fixtureKey(withImage('AAAA')), fixtureKey(withImage('AAAA')));
+  assert.notEqual(fixtureKey(withImage('AAAA')), fixtureKey(withImage('BBBB')));
+});
+
+test("replays recorded answers with the capabilities they were recorded with", async () => {
+  const fixtures: ModelFixtures = { version: 1, responses: {} };
+  const answer = await createRecordingModel(liveModel, fixtures).generate(request("Cotton T-shirt"));
+  assert.deepEqual(fixtures.capabilities, liveModel.capabilities);
+
+  const replay = createFixtureModel(fixtures, fixtures.capabilities);
+  assert.deepEqual(replay.capabilities, liveModel.capabilities);
+  assert.equal(await replay.generate(request("Cotton T-shirt")), answer);
+  await assert.rejects(replay.generate(request("Wool T-shirt")), /No recorded fixture/);
+});
@@ -0,0 +1,213 @@
+import { GoogleGenAI } from "@google/genai";
+import { readEnv } from "./tariffProviders";
+import { hashString } from "./hash";
+
+// --- Model Contract ---
+
+export type ModelPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface ModelTurn {
+  role: 'user' | 'model';
+  parts: ModelPart[];
+}
+
+export interface ModelRequest {
+  contents: ModelTurn[];
+  systemInstruction: string;
+  temperature: number;
+  useSearchGrounding: boolean; // Only honoured when the model reports the capability
+}
+
+export interface ModelCapabilities {
+  searchGrounding: boolean; // Can consult a live web search while answering
+  vision: boolean;          // Accepts inline image parts
+  documents: boolean;       // Accepts inline PDF parts
+}
+
+export interface ClassificationModel {
+  provider: string; // e.g. "gemini", "openai", "mock"
+  modelId: string;
+  capabilities: ModelCapabilities;
+  // Returns the raw text answer; callers parse the JSON themselves
+  generate(request: ModelRequest): Promise<string>;
+}
+
+// --- Gemini ---
+
+export const createGeminiModel = (modelId: string, apiKey: string): ClassificationModel => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    provider: 'gemini',
+    modelId,
+    capabilities: { searchGrounding: true, vision: true, documents: true },
+    async generate(request) {
+      const response = await ai.models.generateContent({
+        model: modelId,
+        contents: request.contents,
+        config: {
+          // NOTE: responseMimeType cannot be set when using tools like Google Search.
+          // We rely on the prompt to enforce JSON format.
+          temperature: request.temperature,
+          systemInstruction: request.systemInstruction,
+          tools: request.useSearchGrounding ? [{ googleSearch: {} }] : undefined,
+        },
+      });
+      if (!response.text) throw new Error("No response from AI");
+      return response.text;
+    },
+  };
+};
+
+// --- OpenAI-Compatible (OpenAI, Ollama, llama.cpp server, vLLM, ...) ---
+
+interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1"
+  apiKey?: string; // Local servers usually need none
+  vision: boolean;
+}
+
+export const createOpenAICompatibleModel = (modelId: string, options: OpenAICompatibleOptions): ClassificationModel => {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const toContent = (parts: ModelPart[]) => parts.flatMap((part): object[] => {
+    if ('text' in part) return [{ type: 'text', text: part.text }];
+    if (!part.inlineData.mimeType.startsWith('image/')) {
+      console.warn(`[OpenAI-Compatible] ${modelId} does not accept ${part.inlineData.mimeType} files; part dropped.`);
+      return [];
+    }
+    if (!options.vision) {
+      console.warn(`[OpenAI-Compatible] ${modelId} does not accept images; image part dropped.`);
+      return [];
+    }
+    return [{ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }];
+  });
+
+  return {
+    provider: 'openai',
+    modelId,
+    capabilities: { searchGrounding: false, vision: options.vision, documents: false },
+    async generate(request) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: modelId,
+          temperature: request.temperature,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...request.contents.map(turn => ({
+              role: turn.role === 'model' ? 'assistant' : 'user',
+              content: toContent(turn.parts),
+            })),
+          ],
+        }),
+      });
+      if (!response.ok) throw new Error(`Model endpoint returned ${response.status}`);
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("No response from AI");
+      return text;
+    },
+  };
+};
+
+// --- Fixture Replay (deterministic, offline) ---
+
+export interface ModelFixtures {
+  version: 1;
+  responses: Record<string, string>; // fixtureKey(request) -> raw model answer
+  capabilities?: ModelCapabilities;  // Of the model that recorded them; replay must offer the same
+}
+
+// Identifies a request by its prompt, not by the model that answers it. The prompt and system
+// instruction depend on the model's capabilities (search grounding changes both), so fixtures
+// replay under the mock only when it reports the capabilities they were recorded with.
+// Sampling settings are not part of the key.
+export const fixtureKey = (request: ModelRequest) => hashString(JSON.stringify([
+  request.systemInstruction,
+  request.contents.map(turn => [turn.role, turn.parts.map(part =>
+    'text' in part ? part.text.trim() : `image:${hashString(part.inlineData.data)}`)]),
+]));
+
+export const createFixtureModel = (
+  source: ModelFixtures | (() => Promise<ModelFixtures>),
+  capabilities: ModelCapabilities = { searchGrounding: false, vision: true, documents: true }
+): ClassificationModel => {
+  let fixtures: Promise<ModelFixtures> | null = null;
+  const load = () => fixtures || (fixtures = typeof source === 'function' ? source() : Promise.resolve(source));
+
+  return {
+    provider: 'mock',
+    modelId: 'fixture-replay',
+    capabilities,
+    async generate(request) {
+      const key = fixtureKey(request);
+      const response = (await load()).responses[key];
+      if (response === undefined) throw new Error(`No recorded fixture for request ${key}`);
+      return response;
+    },
+  };
+};
+
+// Wraps a live model and stores each answer under its fixture key, for later replay, along with
+// the capabilities the replaying mock has to report
+export const createRecordingModel = (inner: ClassificationModel, fixtures: ModelFixtures): ClassificationModel => {
+  fixtures.capabilities = inner.capabilities;
+  return {
+    ...inner,
+    async generate(request) {
+      const response = await inner.generate(request);
+      fixtures.responses[fixtureKey(request)] = response;
+      return response;
+    },
+  };
+};
+
+// --- Configuration ---
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+};
+
+// Reads CLASSIFIER_PROVIDER (gemini | openai | mock) and CLASSIFIER_MODEL, plus the provider's own settings
+export const createModelFromConfig = (): ClassificationModel => {
+  const provider = (readEnv('CLASSIFIER_PROVIDER') || 'gemini').toLowerCase();
+  const modelId = readEnv('CLASSIFIER_MODEL') || DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case 'gemini':
+      return createGeminiModel(modelId, readEnv('GEMINI_API_KEY') || '');
+    case 'openai':
+      return createOpenAICompatibleModel(modelId, {
+        baseUrl: readEnv('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey: readEnv('OPENAI_API_KEY'),
+        vision: readEnv('OPENAI_VISION') !== 'false',
+      });
+    case 'mock': {
+      const url = readEnv('CLASSIFIER_FIXTURES_URL') || '/fixtures/classifications.json';
+      return createFixtureModel(async () => {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Could not load model fixtures from ${url}`);
+        return response.json();
+      });
+    }
+    default:
+      throw new Error(`Unknown CLASSIFIER_PROVIDER "${provider}" (expected gemini, openai or mock)`);
+  }
+};
+
+let activeModel: ClassificationModel | null = null;
+
+export const getClassificationModel = (): ClassificationModel => activeModel || (activeModel = createModelFromConfig());
+
+// Overrides the configured model, e.g. with a fixture model in evaluation runs
+export const setClassificationModel = (model: ClassificationModel | null) => {
+  activeModel = model;
+};
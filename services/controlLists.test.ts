@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { screenControlLists } from "./controlLists";
+import { HSCodeResult, TargetRegion } from "../types";
+
+const result = (hsCode: string, productName: string, description = '') =>
+  ({ hsCode, productName, description }) as HSCodeResult;
+
+test("does not flag mass-market electronics on their code alone", async () => {
+  assert.deepEqual(await screenControlLists(result('8471.30.20', 'Laptop computer'), TargetRegion.SINGAPORE), []);
+  assert.deepEqual(await screenControlLists(result('8517.62.59', 'Wireless router'), TargetRegion.SINGAPORE), []);
+  assert.deepEqual(await screenControlLists(result('8542.31.00', 'Microcontroller'), TargetRegion.UAE), []);
+});
+
+test("matches keywords in the user's own description", async () => {
+  const hits = await screenControlLists(result('8517.62.59', 'Network appliance'), TargetRegion.SINGAPORE, 'Rack-mounted VPN appliance with AES encryption');
+  const sgcl = hits.find(hit => hit.entry === '5A002');
+  assert.deepEqual(sgcl?.matchedOn, ['keyword']);
+  assert.deepEqual(sgcl?.matchedTerms, ['encryption', 'vpn appliance']);
+});
+
+test("ranks code and keyword hits first and screens only lists enforced in the market", async () => {
+  const drone = result('8806.22.00', 'Quadcopter drone');
+  const hits = await screenControlLists(drone, TargetRegion.SINGAPORE);
+  assert.deepEqual(hits[0].matchedOn, ['hs_code', 'keyword']);
+  assert.ok(hits.some(hit => hit.list === 'Singapore Strategic Goods Control List'));
+  assert.ok(!hits.some(hit => hit.list === 'GCC Dual-Use Goods Control Lists'));
+  assert.ok((await screenControlLists(drone, TargetRegion.INDIA)).every(hit => hit.list === 'Wassenaar Arrangement Dual-Use List'));
+});
+
+test("matches keywords as whole words only", async () => {
+  assert.deepEqual(await screenControlLists(result('3304.99', 'Suave radargram lotion'), TargetRegion.UAE), []);
+});
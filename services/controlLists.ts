@@ -0,0 +1,149 @@
+import { TargetRegion, HSCodeResult, ControlListEntry, ControlListInfo, ControlListHit } from "../types";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { STORES, getAllItems, putItem, deleteItem } from "./localStore";
+import { normalizeHSCode, importedHSCode, formatHSCode } from "./hsCode";
+import bundledLists from "../data/control-lists.json";
+
+// --- Control Lists ---
+// Strategic goods and dual-use lists are bundled in data/control-lists.json; imported lists
+// are kept in IndexedDB. A list applies to the markets in `regions`, or to every market.
+
+interface StoredControlList extends ControlListInfo {
+  entries: ControlListEntry[];
+}
+
+const BUILT_IN_LISTS: StoredControlList[] = bundledLists.lists.map(list => ({
+  ...list,
+  regions: list.regions as TargetRegion[],
+  entryCount: list.entries.length,
+  importedAt: 0,
+  builtIn: true,
+}));
+
+// Headers are snake_cased on import
+const COLUMN_ALIASES = {
+  entry: ['entry', 'control_number', 'control_no', 'eccn', 'item', 'category'],
+  description: ['description', 'title', 'item_description', 'goods'],
+  hsCodes: ['hs_codes', 'hs_code', 'hscode', 'codes', 'code'],
+  keywords: ['keywords', 'keyword', 'terms'],
+  permit: ['permit', 'licence', 'license', 'permit_type'],
+};
+
+const splitList = (value: string) => value.split(/[;,|\n]/).map(item => item.trim()).filter(Boolean);
+
+export interface ControlListImportOptions {
+  name?: string;
+  regions: TargetRegion[];
+  permit: string;
+}
+
+export const importControlList = async (file: File, options: ControlListImportOptions): Promise<ControlListInfo> => {
+  const entries: ControlListEntry[] = [];
+  (await readRowsFromFile(file)).forEach(row => {
+    const entry = pickColumn(row, COLUMN_ALIASES.entry);
+    const hsCodes = splitList(pickColumn(row, COLUMN_ALIASES.hsCodes)).map(importedHSCode).filter(Boolean);
+    const keywords = splitList(pickColumn(row, COLUMN_ALIASES.keywords)).map(keyword => keyword.toLowerCase());
+    if (!entry || (hsCodes.length === 0 && keywords.length === 0)) return;
+    entries.push({
+      entry,
+      description: pickColumn(row, COLUMN_ALIASES.description),
+      hsCodes,
+      keywords,
+      permit: pickColumn(row, COLUMN_ALIASES.permit) || undefined,
+    });
+  });
+
+  if (entries.length === 0) {
+    throw new Error("No entries found. Expected columns such as 'entry', 'description', 'hs_codes' and 'keywords'.");
+  }
+
+  const list: StoredControlList = {
+    id: `controls-${Date.now()}`,
+    name: options.name || file.name,
+    regions: options.regions,
+    permit: options.permit,
+    entryCount: entries.length,
+    importedAt: Date.now(),
+    entries,
+  };
+  await putItem(STORES.controlLists, list.id, list);
+  listCache = null;
+  const { entries: _entries, ...info } = list;
+  return info;
+};
+
+let listCache: StoredControlList[] | null = null;
+
+const loadLists = async (): Promise<StoredControlList[]> => {
+  if (!listCache) {
+    const imported = await getAllItems<StoredControlList>(STORES.controlLists);
+    listCache = [...imported.sort((a, b) => b.importedAt - a.importedAt), ...BUILT_IN_LISTS];
+  }
+  return listCache;
+};
+
+export const listControlLists = async (): Promise<ControlListInfo[]> =>
+  (await loadLists()).map(({ entries, ...info }) => info);
+
+export const deleteControlList = async (id: string): Promise<void> => {
+  await deleteItem(STORES.controlLists, id);
+  listCache = null;
+};
+
+// --- Screening ---
+
+const normalizeText = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+// Whole-word match, so "radar" does not hit "radargram" and "uav" does not hit "suave"
+const mentions = (text: string, keyword: string) => text.includes(normalizeText(keyword));
+
+const screenEntry = (list: StoredControlList, entry: ControlListEntry, digits: string, text: string): ControlListHit | null => {
+  const codes = entry.hsCodes.filter(code => digits.startsWith(normalizeHSCode(code)));
+  const keywords = entry.keywords.filter(keyword => mentions(text, keyword));
+  if (codes.length === 0 && keywords.length === 0) return null;
+
+  const matchedOn: ControlListHit['matchedOn'] = [];
+  if (codes.length > 0) matchedOn.push('hs_code');
+  if (keywords.length > 0) matchedOn.push('keyword');
+  return {
+    list: list.name,
+    entry: entry.entry,
+    description: entry.description,
+    permit: entry.permit || list.permit,
+    matchedOn,
+    matchedTerms: [...codes.map(formatHSCode), ...keywords],
+  };
+};
+
+// Matches the classified code against every list enforced in the market, and the keywords against
+// both the user's own description (`userText`) and the model's product name and tariff description,
+// which may name the goods only generically. Hits are possible matches: control depends on
+// technical parameters.
+export const screenControlLists = async (result: HSCodeResult, region: TargetRegion, userText = ''): Promise<ControlListHit[]> => {
+  const digits = normalizeHSCode(result.hsCode);
+  const text = normalizeText(`${userText} ${result.productName} ${result.description}`);
+  const hits: ControlListHit[] = [];
+  (await loadLists())
+    .filter(list => list.regions.length === 0 || list.regions.includes(region))
+    .forEach(list => list.entries.forEach(entry => {
+      const hit = screenEntry(list, entry, digits, text);
+      if (hit) hits.push(hit);
+    }));
+
+  // Code and keyword together first, then code, then keyword alone
+  const strength = (hit: ControlListHit) => (hit.matchedOn.includes('hs_code') ? 2 : 0) + (hit.matchedOn.includes('keyword') ? 1 : 0);
+  return hits.sort((a, b) => strength(b) - strength(a));
+};
+
+// --- Formatting ---
+
+const RESTRICTION_PREFIX = 'Export control (possible match):';
+
+// The restrictions entry for a hit; its source is the local list, not the model
+export const formatControlRestriction = (hit: ControlListHit) =>
+  `${RESTRICTION_PREFIX} ${hit.entry} (${hit.description}). Permit if controlled: ${hit.permit}. Source: ${hit.list}`;
+
+export const isControlRestriction = (restriction: string) => restriction.startsWith(RESTRICTION_PREFIX);
+
+export const describeMatch = (hit: ControlListHit) =>
+  `Matched on ${hit.matchedOn.map(on => on === 'hs_code' ? 'HS code' : 'description').join(' and ')}: ${hit.matchedTerms.join(', ')}`;
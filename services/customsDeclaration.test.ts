@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { declaredDate, declaredCountry } from "./customsDeclaration";
+
+test("reads numeric invoice dates day first", () => {
+  assert.equal(declaredDate("05/12/2024"), "2024-12-05");
+  assert.equal(declaredDate("13.05.2024"), "2024-05-13");
+  assert.equal(declaredDate("5-6-24"), "2024-06-05");
+  assert.equal(declaredDate("2024-05-13"), "2024-05-13");
+});
+
+test("leaves dates that do not exist day first empty", () => {
+  assert.equal(declaredDate("05/13/2024"), "");
+  assert.equal(declaredDate("31/02/2024"), "");
+  assert.equal(declaredDate("next Tuesday"), "");
+  assert.equal(declaredDate(undefined), "");
+});
+
+test("reads dates with the month written out", () => {
+  assert.equal(declaredDate("12 May 2024"), "2024-05-12");
+  assert.equal(declaredDate("12-May-24"), "2024-05-12");
+  assert.equal(declaredDate("May 12, 2024"), "2024-05-12");
+  assert.equal(declaredDate("12 Sept 2024"), "2024-09-12");
+});
+
+test("declares countries by ISO code or name", () => {
+  assert.equal(declaredCountry("cn"), "CN");
+  assert.equal(declaredCountry("  thailand "), "TH");
+  assert.equal(declaredCountry("Atlantis"), "");
+});
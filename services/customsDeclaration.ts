@@ -0,0 +1,470 @@
+import * as XLSX from "xlsx";
+import { TargetRegion, HSCodeResult } from "../types";
+import { normalizeHSCode } from "./hsCode";
+import { expectedCodeLength } from "./hsValidation";
+import { ORIGIN_COUNTRIES } from "./preferentialRates";
+
+// --- Declaration Data ---
+
+export type DeclarationType = 'import' | 'export';
+export type TransportMode = 'sea' | 'air' | 'road' | 'rail' | 'post';
+
+export interface DeclarationShipment {
+  declarationType: DeclarationType;
+  declarantId: string;   // UEN, Dubai Customs client code, Saudi importer number or IEC
+  declarantName: string;
+  consignorName: string; // Supplier abroad on imports, the local exporter on exports
+  consigneeName: string;
+  transportMode: TransportMode;
+  transportDocument: string; // Bill of lading, air waybill or consignment note number
+  portCode: string;          // Port of discharge on imports, of loading on exports (UN/LOCODE or national code)
+  partnerCountry: string;    // ISO alpha-2; shipped from on imports, shipped to on exports
+  invoiceNumber: string;
+  invoiceDate: string;       // YYYY-MM-DD
+  currency: string;
+  incoterm: string;
+  grossWeightKg?: number;
+  packages?: number;
+}
+
+export interface DeclarationItem {
+  description: string;
+  hsCode: string;
+  origin: string;  // ISO alpha-2
+  quantity?: number;
+  unit: string;    // UN/ECE Recommendation 20 code, e.g. PCE or KGM
+  value?: number;  // Line value in the invoice currency
+  netWeightKg?: number;
+}
+
+export const TRANSPORT_MODES: { id: TransportMode; label: string; code: string }[] = [
+  { id: 'sea', label: 'Sea', code: '1' }, // UN/ECE Recommendation 19 codes
+  { id: 'rail', label: 'Rail', code: '2' },
+  { id: 'road', label: 'Road', code: '3' },
+  { id: 'air', label: 'Air', code: '4' },
+  { id: 'post', label: 'Post', code: '5' },
+];
+
+export const QUANTITY_UNITS = ['PCE', 'KGM', 'LTR', 'MTR', 'MTK', 'PR', 'SET'];
+
+// India declares quantities in Unique Quantity Codes rather than UN/ECE units
+const UQC: Record<string, string> = { PCE: 'NOS', KGM: 'KGS', LTR: 'LTR', MTR: 'MTR', MTK: 'SQM', PR: 'PRS', SET: 'SET' };
+
+export const emptyShipment = (currency: string): DeclarationShipment => ({
+  declarationType: 'import',
+  declarantId: '',
+  declarantName: '',
+  consignorName: '',
+  consigneeName: '',
+  transportMode: 'sea',
+  transportDocument: '',
+  portCode: '',
+  partnerCountry: '',
+  invoiceNumber: '',
+  invoiceDate: '',
+  currency,
+  incoterm: '',
+});
+
+// Accepts ISO codes or the country names used elsewhere in the app; anything else is left undeclared
+export const declaredCountry = (text?: string) => {
+  const value = (text || '').trim();
+  if (/^[a-z]{2}$/i.test(value)) return value.toUpperCase();
+  return ORIGIN_COUNTRIES.find(country => country.name.toLowerCase() === value.toLowerCase())?.code || '';
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ISO date for a calendar day, or '' when the day does not exist (e.g. 31/02)
+const isoDate = (year: number, month: number, day: number) => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${fullYear}-${pad(month)}-${pad(day)}`;
+};
+
+// Invoice dates arrive in whatever form the document printed them. Numeric dates are read day
+// first (DD/MM/YYYY), as written in Singapore, the GCC and India; anything else that cannot be
+// read for certain is left empty for the user to fill in.
+export const declaredDate = (text?: string) => {
+  const value = (text || '').trim();
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) return isoDate(+match[1], +match[2], +match[3]);
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})$/);
+  if (match) return isoDate(+match[3], +match[2], +match[1]);
+
+  // Month written out: "12 May 2024", "12-May-24", "May 12, 2024"
+  const month = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+  match = value.match(/^(\d{1,2})[\s-]+([a-z]{3,9})\.?[\s-]+(\d{4}|\d{2})$/i);
+  if (match && month(match[2])) return isoDate(+match[3], month(match[2]), +match[1]);
+  match = value.match(/^([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match && month(match[1])) return isoDate(+match[3], month(match[1]), +match[2]);
+  return '';
+};
+
+export const declarationItemFromResult = (result: HSCodeResult, changes: Partial<DeclarationItem> = {}): DeclarationItem => ({
+  description: result.productName,
+  hsCode: normalizeHSCode(result.hsCode),
+  origin: '',
+  unit: 'PCE',
+  ...changes,
+});
+
+// --- Formats ---
+
+export type DeclarationFormatId = 'wco-json' | 'wco-xml' | 'tradenet' | 'mirsal' | 'fasah' | 'icegate';
+
+type ShipmentField = Exclude<keyof DeclarationShipment, 'declarationType' | 'transportMode'>;
+type ItemField = keyof DeclarationItem;
+
+interface DeclarationFormat {
+  id: DeclarationFormatId;
+  name: string;
+  regions: TargetRegion[]; // Empty for formats accepted in every market
+  extension: 'json' | 'xml' | 'csv';
+  mimeType: string;
+  shipmentFields: ShipmentField[];
+  itemFields: ItemField[];
+  importOnly?: boolean;
+  build: (shipment: DeclarationShipment, items: DeclarationItem[]) => string;
+}
+
+const SHIPMENT_FIELD_LABELS: Record<ShipmentField, string> = {
+  declarantId: 'Declarant ID',
+  declarantName: 'Declarant name',
+  consignorName: 'Consignor',
+  consigneeName: 'Consignee',
+  transportDocument: 'Bill of lading / air waybill',
+  portCode: 'Port code',
+  partnerCountry: 'Country shipped from / to',
+  invoiceNumber: 'Invoice number',
+  invoiceDate: 'Invoice date',
+  currency: 'Currency',
+  incoterm: 'Incoterm',
+  grossWeightKg: 'Gross weight',
+  packages: 'Number of packages',
+};
+
+const ITEM_FIELD_LABELS: Record<ItemField, string> = {
+  description: 'description',
+  hsCode: 'HS code',
+  origin: 'country of origin',
+  quantity: 'quantity',
+  unit: 'unit',
+  value: 'value',
+  netWeightKg: 'net weight',
+};
+
+const modeCode = (mode: TransportMode) => TRANSPORT_MODES.find(m => m.id === mode)!.code;
+const modeLabel = (mode: TransportMode) => TRANSPORT_MODES.find(m => m.id === mode)!.label;
+
+// Regional layouts are one row per item; the shipment columns repeat on every row as in the
+// bulk item upload templates of the declaration systems
+const toCsv = (rows: Record<string, string | number>[]) => XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(rows));
+
+const blank = (value?: number) => value ?? '';
+
+// --- WCO Data Model ---
+
+const amount = (value: number | undefined, currency: string) =>
+  value === undefined ? undefined : { '@currencyID': currency, '#text': value };
+
+const measure = (value: number | undefined, unit: string) =>
+  value === undefined ? undefined : { '@unitCode': unit, '#text': value };
+
+// Declaration in WCO Data Model 3 class and attribute names. Attributes carry an '@' prefix and
+// element text '#text', as in the usual XML-to-JSON mappings, so JSON and XML share one tree.
+const wcoDeclaration = (shipment: DeclarationShipment, items: DeclarationItem[]) => {
+  const isImport = shipment.declarationType === 'import';
+  const port = { ID: shipment.portCode };
+  const partner = { CountryCode: shipment.partnerCountry };
+  return {
+    FunctionCode: '9',
+    TypeCode: isImport ? 'IM' : 'EX',
+    Declarant: { ID: shipment.declarantId, Name: shipment.declarantName || undefined },
+    TotalGrossMassMeasure: measure(shipment.grossWeightKg, 'KGM'),
+    TotalPackageQuantity: shipment.packages,
+    GoodsShipment: {
+      Consignor: { Name: shipment.consignorName },
+      Consignee: { Name: shipment.consigneeName },
+      ExportCountry: isImport ? partner : undefined,
+      Destination: isImport ? undefined : partner,
+      Consignment: {
+        BorderTransportMeans: { ModeCode: modeCode(shipment.transportMode) },
+        TransportContractDocument: shipment.transportDocument ? { ID: shipment.transportDocument } : undefined,
+        LoadingLocation: isImport ? undefined : port,
+        UnloadingLocation: isImport ? port : undefined,
+      },
+      Invoice: { ID: shipment.invoiceNumber, IssueDateTime: shipment.invoiceDate || undefined },
+      TradeTerms: shipment.incoterm ? { ConditionCode: shipment.incoterm } : undefined,
+      GovernmentAgencyGoodsItem: items.map((item, i) => ({
+        SequenceNumeric: i + 1,
+        StatisticalValueAmount: amount(item.value, shipment.currency),
+        Commodity: {
+          Description: item.description,
+          Classification: { ID: normalizeHSCode(item.hsCode), IdentificationTypeCode: 'TSP' },
+        },
+        GoodsMeasure: {
+          NetNetWeightMeasure: measure(item.netWeightKg, 'KGM'),
+          TariffQuantity: measure(item.quantity, item.unit),
+        },
+        Origin: { CountryCode: item.origin },
+      })),
+    },
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toXml = (name: string, value: unknown, indent: string): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(entry => toXml(name, entry, indent)).join('');
+  if (typeof value !== 'object') return `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+  const attributes = entries.filter(([key]) => key.startsWith('@'))
+    .map(([key, v]) => ` ${key.slice(1)}="${escapeXml(String(v))}"`).join('');
+  const text = entries.find(([key]) => key === '#text');
+  if (text) return `${indent}<${name}${attributes}>${escapeXml(String(text[1]))}</${name}>\n`;
+  const children = entries.filter(([key]) => !key.startsWith('@')).map(([key, v]) => toXml(key, v, `${indent}  `)).join('');
+  return `${indent}<${name}${attributes}>\n${children}${indent}</${name}>\n`;
+};
+
+const WCO_NAMESPACE = 'urn:wco:datamodel:WCO:DEC-DMS:2';
+
+const WCO_SHIPMENT_FIELDS: ShipmentField[] = ['declarantId', 'consignorName', 'consigneeName', 'portCode', 'partnerCountry', 'invoiceNumber', 'currency'];
+const WCO_ITEM_FIELDS: ItemField[] = ['description', 'hsCode', 'origin', 'quantity', 'value'];
+
+const FORMATS: DeclarationFormat[] = [
+  {
+    id: 'wco-json',
+    name: 'WCO Data Model (JSON)',
+    regions: [],
+    extension: 'json',
+    mimeType: 'application/json',
+    shipmentFields: WCO_SHIPMENT_FIELDS,
+    itemFields: WCO_ITEM_FIELDS,
+    build: (shipment, items) => JSON.stringify({ Declaration: wcoDeclaration(shipment, items) }, null, 2),
+  },
+  {
+    id: 'wco-xml',
+    name: 'WCO Data Model (XML)',
+    regions: [],
+    extension: 'xml',
+    mimeType: 'application/xml',
+    shipmentFields: WCO_SHIPMENT_FIELDS,
+    itemFields: WCO_ITEM_FIELDS,
+    build: (shipment, items) => '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      toXml('Declaration', { '@xmlns': WCO_NAMESPACE, ...wcoDeclaration(shipment, items) }, ''),
+  },
+  {
+    id: 'tradenet',
+    name: 'Singapore TradeNet',
+    regions: [TargetRegion.SINGAPORE],
+    extension: 'csv',
+    mimeType: 'text/csv',
+    shipmentFields: ['declarantId', 'portCode', 'invoiceNumber', 'invoiceDate', 'currency', 'incoterm'],
+    itemFields: ['description', 'hsCode', 'origin', 'quantity', 'unit', 'value'],
+    build: (shipment, items) => toCsv(items.map((item, i) => ({
+      'Declaration Type': shipment.declarationType === 'import' ? 'IN' : 'OUT',
+      'Declarant UEN': shipment.declarantId,
+      'Mode of Transport': modeCode(shipment.transportMode),
+      'Port Code': shipment.portCode,
+      'OBL/MAWB No': shipment.transportDocument,
+      'Invoice No': shipment.invoiceNumber,
+      'Invoice Date': shipment.invoiceDate.replace(/-/g, ''),
+      'Invoice Currency': shipment.currency,
+      'Incoterm': shipment.incoterm,
+      'Item No': i + 1,
+      'HS Code': normalizeHSCode(item.hsCode),
+      'Item Description': item.description,
+      'Country of Origin': item.origin,
+      'HS Quantity': blank(item.quantity),
+      'HS Quantity UOM': item.unit,
+      'Item Value': blank(item.value),
+      'Net Weight (KGM)': blank(item.netWeightKg),
+    }))),
+  },
+  {
+    id: 'mirsal',
+    name: 'Dubai Trade / Mirsal 2',
+    regions: [TargetRegion.UAE],
+    extension: 'csv',
+    mimeType: 'text/csv',
+    shipmentFields: ['declarantId', 'transportDocument', 'portCode', 'partnerCountry', 'invoiceNumber', 'invoiceDate', 'currency', 'grossWeightKg'],
+    itemFields: ['description', 'hsCode', 'origin', 'quantity', 'unit', 'value', 'netWeightKg'],
+    build: (shipment, items) => toCsv(items.map((item, i) => ({
+      'Declaration Type': shipment.declarationType === 'import' ? 'Import' : 'Export',
+      'Business Code': shipment.declarantId,
+      'Transport Mode': modeLabel(shipment.transportMode),
+      'BL/AWB No': shipment.transportDocument,
+      'Port Code': shipment.portCode,
+      [shipment.declarationType === 'import' ? 'Export Country' : 'Destination Country']: shipment.partnerCountry,
+      'Invoice No': shipment.invoiceNumber,
+      'Invoice Date': shipment.invoiceDate,
+      'Currency': shipment.currency,
+      'Line No': i + 1,
+      'HS Code': normalizeHSCode(item.hsCode),
+      'Goods Description': item.description,
+      'Country of Origin': item.origin,
+      'Quantity': blank(item.quantity),
+      'Unit': item.unit,
+      'Value': blank(item.value),
+      'Net Weight (KG)': blank(item.netWeightKg),
+      'Gross Weight (KG)': i === 0 ? blank(shipment.grossWeightKg) : '',
+    }))),
+  },
+  {
+    id: 'fasah',
+    name: 'Saudi FASAH',
+    regions: [TargetRegion.SAUDI_ARABIA],
+    extension: 'csv',
+    mimeType: 'text/csv',
+    shipmentFields: ['declarantId', 'transportDocument', 'portCode', 'partnerCountry', 'invoiceNumber', 'invoiceDate', 'currency'],
+    itemFields: ['description', 'hsCode', 'origin', 'quantity', 'unit', 'value', 'netWeightKg'],
+    build: (shipment, items) => toCsv(items.map((item, i) => ({
+      'Declaration Type': shipment.declarationType === 'import' ? 'Import' : 'Export',
+      'Importer/Exporter No': shipment.declarantId,
+      'Transport Mode': modeLabel(shipment.transportMode),
+      'Bill of Lading No': shipment.transportDocument,
+      'Port Code': shipment.portCode,
+      [shipment.declarationType === 'import' ? 'Country of Shipment' : 'Country of Destination']: shipment.partnerCountry,
+      'Invoice No': shipment.invoiceNumber,
+      'Invoice Date': shipment.invoiceDate,
+      'Currency': shipment.currency,
+      'Item No': i + 1,
+      'Tariff Code': normalizeHSCode(item.hsCode),
+      'Description': item.description,
+      'Origin': item.origin,
+      'Quantity': blank(item.quantity),
+      'Unit': item.unit,
+      'Value': blank(item.value),
+      'Net Weight (KG)': blank(item.netWeightKg),
+    }))),
+  },
+  {
+    id: 'icegate',
+    name: 'India ICEGATE (Bill of Entry)',
+    regions: [TargetRegion.INDIA],
+    extension: 'csv',
+    mimeType: 'text/csv',
+    shipmentFields: ['declarantId', 'transportDocument', 'portCode', 'partnerCountry', 'invoiceNumber', 'invoiceDate', 'currency', 'incoterm'],
+    itemFields: ['description', 'hsCode', 'origin', 'quantity', 'unit', 'value'],
+    importOnly: true,
+    build: (shipment, items) => toCsv(items.map((item, i) => ({
+      'IEC': shipment.declarantId,
+      'Port Code': shipment.portCode,
+      'BL/AWB No': shipment.transportDocument,
+      'Country of Consignment': shipment.partnerCountry,
+      'Invoice No': shipment.invoiceNumber,
+      'Invoice Date': shipment.invoiceDate.split('-').reverse().join('/'),
+      'Invoice Currency': shipment.currency,
+      'Terms of Invoice': shipment.incoterm,
+      'Item S.No': i + 1,
+      'CTH': normalizeHSCode(item.hsCode),
+      'Item Description': item.description,
+      'Country of Origin': item.origin,
+      'Quantity': blank(item.quantity),
+      'UQC': UQC[item.unit] || item.unit,
+      'Item Value': blank(item.value),
+    }))),
+  },
+];
+
+export const listDeclarationFormats = (region: TargetRegion) =>
+  FORMATS.filter(format => format.regions.length === 0 || format.regions.includes(region))
+    .map(({ id, name, regions }) => ({ id, name, regional: regions.length > 0 }));
+
+const getFormat = (id: DeclarationFormatId) => FORMATS.find(format => format.id === id)!;
+
+// --- Validation ---
+
+const isMissing = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Everything the format needs that is missing or malformed; empty when the file can be written
+export const validateDeclaration = (
+  formatId: DeclarationFormatId,
+  shipment: DeclarationShipment,
+  items: DeclarationItem[],
+  region: TargetRegion
+): string[] => {
+  const format = getFormat(formatId);
+  const issues: string[] = [];
+
+  if (format.importOnly && shipment.declarationType !== 'import') {
+    issues.push(`${format.name} covers imports only; file exports as a shipping bill.`);
+  }
+  const missing = format.shipmentFields.filter(field => isMissing(shipment[field]));
+  if (missing.length > 0) issues.push(`Missing ${missing.map(field => SHIPMENT_FIELD_LABELS[field]).join(', ')}.`);
+  if (shipment.invoiceDate && !/^\d{4}-\d{2}-\d{2}$/.test(shipment.invoiceDate)) {
+    issues.push(`Invoice date "${shipment.invoiceDate}" is not a YYYY-MM-DD date.`);
+  }
+  if (shipment.partnerCountry && !/^[A-Z]{2}$/.test(shipment.partnerCountry)) {
+    issues.push(`Country "${shipment.partnerCountry}" is not an ISO alpha-2 code.`);
+  }
+  if (shipment.currency && !/^[A-Z]{3}$/.test(shipment.currency)) {
+    issues.push(`Currency "${shipment.currency}" is not an ISO 4217 code.`);
+  }
+
+  if (items.length === 0) issues.push('The declaration has no items.');
+  // National formats need the full national tariff line; the WCO model accepts any code from 6 digits
+  const codeLength = format.regions.length > 0 ? expectedCodeLength(region) : 6;
+  items.forEach((item, i) => {
+    const line = `Item ${i + 1}`;
+    const missingItem = format.itemFields.filter(field => isMissing(item[field]));
+    if (missingItem.length > 0) issues.push(`${line}: missing ${missingItem.map(field => ITEM_FIELD_LABELS[field]).join(', ')}.`);
+    const digits = normalizeHSCode(item.hsCode);
+    if (digits && (format.regions.length > 0 ? digits.length !== codeLength : digits.length < codeLength)) {
+      issues.push(`${line}: ${format.name} needs ${format.regions.length > 0 ? '' : 'at least '}${codeLength}-digit codes, got ${digits.length} digits.`);
+    }
+    if (item.origin && !/^[A-Z]{2}$/.test(item.origin)) issues.push(`${line}: origin "${item.origin}" is not an ISO alpha-2 code.`);
+    if (item.quantity !== undefined && item.quantity <= 0) issues.push(`${line}: quantity must be positive.`);
+  });
+  return issues;
+};
+
+// --- Export ---
+
+export interface DeclarationFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+// Validates first; a file is only built when nothing is missing
+export const buildDeclarationFile = (
+  formatId: DeclarationFormatId,
+  shipment: DeclarationShipment,
+  items: DeclarationItem[],
+  region: TargetRegion
+): DeclarationFile => {
+  const issues = validateDeclaration(formatId, shipment, items, region);
+  if (issues.length > 0) throw new Error(issues.join(' '));
+
+  const format = getFormat(formatId);
+  const reference = (shipment.invoiceNumber || 'Declaration').replace(/\W+/g, '_');
+  return {
+    fileName: `Centrovert_${format.id}_${reference}_${new Date().toISOString().slice(0, 10)}.${format.extension}`,
+    mimeType: format.mimeType,
+    content: format.build(shipment, items),
+  };
+};
+
+export const exportDeclaration = (
+  formatId: DeclarationFormatId,
+  shipment: DeclarationShipment,
+  items: DeclarationItem[],
+  region: TargetRegion
+): string => {
+  const file = buildDeclarationFile(formatId, shipment, items, region);
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  // Revoking in the same tick can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  return file.fileName;
+};
@@ -0,0 +1,243 @@
+import { TargetRegion, HSCodeResult } from "../types";
+import { identifyHSCode, getEngineInfo } from "./geminiService";
+import { normalizeHSCode } from "./hsCode";
+
+// --- Golden Dataset ---
+
+export interface GoldenCase {
+  id: string;
+  description: string;
+  region: TargetRegion;
+  expectedCode: string; // As precise as the label is known: 6 digits, or the full national line
+  notes?: string;
+}
+
+const REGIONS = Object.values(TargetRegion) as string[];
+
+// Validates a parsed dataset file; every problem is reported with the offending case id
+export const parseGoldenDataset = (data: unknown): GoldenCase[] => {
+  if (!Array.isArray(data)) throw new Error("Golden dataset must be a JSON array of cases");
+  const seen = new Set<string>();
+  return data.map((raw: any, i: number) => {
+    const id = String(raw?.id || `case-${i + 1}`);
+    if (seen.has(id)) throw new Error(`Duplicate case id "${id}"`);
+    seen.add(id);
+    if (!raw?.description) throw new Error(`Case "${id}" has no description`);
+    if (!REGIONS.includes(raw.region)) throw new Error(`Case "${id}" has unknown region "${raw.region}"`);
+    const expectedCode = normalizeHSCode(String(raw.expectedCode || ''));
+    if (expectedCode.length < 6) throw new Error(`Case "${id}" needs an expected code of at least 6 digits`);
+    return { id, description: String(raw.description), region: raw.region as TargetRegion, expectedCode, notes: raw.notes };
+  });
+};
+
+// --- Scoring ---
+
+// 8 stands for "8 or more": the full national line as labelled
+export const ACCURACY_LEVELS = [2, 4, 6, 8] as const;
+export type AccuracyLevel = typeof ACCURACY_LEVELS[number];
+
+export interface CaseOutcome {
+  caseId: string;
+  region: TargetRegion;
+  expectedCode: string;
+  predictedCode?: string;
+  confidence?: number; // 0-100, as reported by the model
+  error?: string;
+  // Per level: true/false, or null when the label is not precise enough to score that level
+  matches: Record<AccuracyLevel, boolean | null>;
+  fullMatch: boolean; // Correct to the label's full precision
+  durationMs: number;
+}
+
+export interface LevelAccuracy {
+  correct: number;
+  scored: number; // Cases whose label has enough digits for this level
+  accuracy: number | null;
+}
+
+export interface AccuracySummary {
+  total: number;
+  errors: number;
+  levels: Record<AccuracyLevel, LevelAccuracy>;
+}
+
+export interface CalibrationBucket {
+  range: [number, number]; // Confidence range, inclusive lower bound
+  count: number;
+  meanConfidence: number; // 0-1
+  accuracy: number;       // Share of full matches, 0-1
+}
+
+export interface CalibrationReport {
+  buckets: CalibrationBucket[];
+  expectedCalibrationError: number; // Count-weighted |accuracy - confidence|, 0-1
+  brierScore: number;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  engine: ReturnType<typeof getEngineInfo>;
+  overall: AccuracySummary;
+  byRegion: Partial<Record<TargetRegion, AccuracySummary>>;
+  calibration: CalibrationReport;
+  outcomes: CaseOutcome[];
+}
+
+export const scoreCase = (golden: GoldenCase, predictedCode: string | undefined) => {
+  const expected = golden.expectedCode;
+  const predicted = normalizeHSCode(predictedCode || '');
+  const matches = {} as Record<AccuracyLevel, boolean | null>;
+  ACCURACY_LEVELS.forEach(level => {
+    if (expected.length < level) matches[level] = null;
+    else if (level === 8) matches[level] = predicted.startsWith(expected);
+    else matches[level] = predicted.length >= level && predicted.slice(0, level) === expected.slice(0, level);
+  });
+  // A prediction more specific than the label is still correct to the label's precision
+  return { matches, fullMatch: !!predicted && predicted.startsWith(expected) };
+};
+
+const summarize = (outcomes: CaseOutcome[]): AccuracySummary => {
+  const levels = {} as Record<AccuracyLevel, LevelAccuracy>;
+  ACCURACY_LEVELS.forEach(level => {
+    const scored = outcomes.filter(o => o.matches[level] !== null);
+    const correct = scored.filter(o => o.matches[level]).length;
+    levels[level] = { correct, scored: scored.length, accuracy: scored.length > 0 ? correct / scored.length : null };
+  });
+  return { total: outcomes.length, errors: outcomes.filter(o => o.error).length, levels };
+};
+
+const CALIBRATION_BUCKETS = 5;
+
+export const calibrate = (outcomes: CaseOutcome[]): CalibrationReport => {
+  const answered = outcomes.filter(o => o.confidence !== undefined);
+  const width = 100 / CALIBRATION_BUCKETS;
+  const buckets: CalibrationBucket[] = [];
+  let weightedGap = 0;
+
+  for (let i = 0; i < CALIBRATION_BUCKETS; i++) {
+    const low = i * width;
+    const high = low + width;
+    const members = answered.filter(o => o.confidence! >= low && (o.confidence! < high || (i === CALIBRATION_BUCKETS - 1 && o.confidence! <= high)));
+    if (members.length === 0) continue;
+    const meanConfidence = members.reduce((sum, o) => sum + o.confidence! / 100, 0) / members.length;
+    const accuracy = members.filter(o => o.fullMatch).length / members.length;
+    buckets.push({ range: [low, high], count: members.length, meanConfidence, accuracy });
+    weightedGap += members.length * Math.abs(accuracy - meanConfidence);
+  }
+
+  const brierScore = answered.length > 0
+    ? answered.reduce((sum, o) => sum + Math.pow(o.confidence! / 100 - (o.fullMatch ? 1 : 0), 2), 0) / answered.length
+    : 0;
+
+  return {
+    buckets,
+    expectedCalibrationError: answered.length > 0 ? weightedGap / answered.length : 0,
+    brierScore,
+  };
+};
+
+// --- Runner ---
+
+export interface EvaluationOptions {
+  concurrency?: number;
+  onProgress?: (done: number, total: number, outcome: CaseOutcome) => void;
+  // Defaults to identifyHSCode; injectable so the scoring can run against any classifier
+  classify?: (description: string, region: TargetRegion) => Promise<HSCodeResult>;
+}
+
+export const runEvaluation = async (cases: GoldenCase[], options: EvaluationOptions = {}): Promise<EvaluationReport> => {
+  const { concurrency = 2, onProgress } = options;
+  const classify = options.classify || ((description: string, region: TargetRegion) =>
+    // Cached answers would hide the effect of the change being evaluated
+    identifyHSCode(description, region, undefined, undefined, { bypassCache: true }));
+  const outcomes: CaseOutcome[] = new Array(cases.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < cases.length) {
+      const index = next++;
+      const golden = cases[index];
+      const started = Date.now();
+      let outcome: CaseOutcome;
+      try {
+        const result = await classify(golden.description, golden.region);
+        outcome = {
+          caseId: golden.id,
+          region: golden.region,
+          expectedCode: golden.expectedCode,
+          predictedCode: normalizeHSCode(result.hsCode),
+          confidence: result.confidenceScore,
+          ...scoreCase(golden, result.hsCode),
+          durationMs: Date.now() - started,
+        };
+      } catch (error: any) {
+        // A failed classification counts as wrong at every level it can be scored
+        outcome = {
+          caseId: golden.id,
+          region: golden.region,
+          expectedCode: golden.expectedCode,
+          error: error?.message || String(error),
+          ...scoreCase(golden, undefined),
+          durationMs: Date.now() - started,
+        };
+      }
+      outcomes[index] = outcome;
+      done++;
+      if (onProgress) onProgress(done, cases.length, outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, cases.length)) }, worker));
+
+  const byRegion: Partial<Record<TargetRegion, AccuracySummary>> = {};
+  Array.from(new Set(cases.map(c => c.region))).forEach(region => {
+    byRegion[region] = summarize(outcomes.filter(o => o.region === region));
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    engine: getEngineInfo(),
+    overall: summarize(outcomes),
+    byRegion,
+    calibration: calibrate(outcomes),
+    outcomes,
+  };
+};
+
+// --- Report Formatting ---
+
+const percent = (value: number | null) => value === null ? '   —' : `${(value * 100).toFixed(1)}%`.padStart(6);
+
+const levelLabel = (level: AccuracyLevel) => level === 8 ? '8+' : String(level);
+
+// Plain-text report for the console and CI logs
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const lines: string[] = [];
+  const header = ['Scope'.padEnd(20), 'Cases'.padStart(5), 'Errors'.padStart(6), ...ACCURACY_LEVELS.map(level => `${levelLabel(level)}-digit`.padStart(8))].join('  ');
+  const row = (scope: string, summary: AccuracySummary) => [
+    scope.padEnd(20),
+    String(summary.total).padStart(5),
+    String(summary.errors).padStart(6),
+    ...ACCURACY_LEVELS.map(level => percent(summary.levels[level].accuracy).padStart(8)),
+  ].join('  ');
+
+  lines.push(`HS classification evaluation · ${report.engine.provider}/${report.engine.modelId} · prompt v${report.engine.promptVersion}`);
+  lines.push(`Generated ${report.generatedAt}`, '');
+  lines.push(header, '-'.repeat(header.length));
+  lines.push(row('Overall', report.overall));
+  Object.entries(report.byRegion).forEach(([region, summary]) => lines.push(row(region, summary!)));
+
+  lines.push('', 'Confidence calibration (full-precision matches)');
+  report.calibration.buckets.forEach(bucket => {
+    lines.push(`  ${`${bucket.range[0]}-${bucket.range[1]}%`.padEnd(9)} n=${String(bucket.count).padEnd(4)} confidence ${percent(bucket.meanConfidence)}  accuracy ${percent(bucket.accuracy)}`);
+  });
+  lines.push(`  ECE ${report.calibration.expectedCalibrationError.toFixed(3)} · Brier ${report.calibration.brierScore.toFixed(3)}`);
+
+  const misses = report.outcomes.filter(o => !o.fullMatch);
+  if (misses.length > 0) {
+    lines.push('', 'Misses');
+    misses.forEach(o => lines.push(`  ${o.caseId.padEnd(24)} ${o.region.padEnd(18)} expected ${o.expectedCode.padEnd(12)} ${o.error ? `error: ${o.error}` : `got ${o.predictedCode} (${o.confidence}%)`}`));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,56 @@
+import { EvidenceFile } from "../types";
+import { ModelCapabilities } from "./classificationModels";
+import { hashString } from "./hash";
+
+// --- Evidence Files ---
+// Photos, datasheets and safety data sheets sent to the model as inline parts with their real
+// MIME type. Browsers leave `file.type` empty for some formats (HEIC on most desktops), so the
+// extension decides then.
+
+const EVIDENCE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf',
+};
+
+export const EVIDENCE_ACCEPT = "image/*,application/pdf,.heic,.heif";
+
+// Inline request data is capped by the providers at around 20 MB
+export const MAX_EVIDENCE_BYTES = 15 * 1024 * 1024;
+
+export const isImageEvidence = (file: EvidenceFile) => file.mimeType.startsWith('image/');
+
+export const readEvidenceFile = (file: File): Promise<EvidenceFile> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const mimeType = Object.values(EVIDENCE_TYPES).includes(file.type) ? file.type : EVIDENCE_TYPES[extension];
+  if (!mimeType) {
+    return Promise.reject(new Error(`${file.name} is not supported. Attach photos (PNG, JPEG, WebP, HEIC) or PDF documents.`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve({ name: file.name, mimeType, dataUrl: reader.result as string });
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Approximate decoded size of a data URL
+export const evidenceBytes = (files: EvidenceFile[]) =>
+  files.reduce((sum, file) => sum + Math.floor((file.dataUrl.split(',')[1] || file.dataUrl).length * 3 / 4), 0);
+
+export const evidenceData = (file: EvidenceFile) => file.dataUrl.split(',')[1] || file.dataUrl;
+
+// Images need vision; PDFs need document input as well
+export const canReadEvidence = (file: EvidenceFile, capabilities: ModelCapabilities) =>
+  isImageEvidence(file) ? capabilities.vision : capabilities.documents;
+
+// How the prompt refers to a file, e.g. 'Evidence 2: PDF document "datasheet.pdf"'
+export const describeEvidence = (file: EvidenceFile, index: number) =>
+  `Evidence ${index + 1}: ${isImageEvidence(file) ? 'product photo' : 'PDF document'} "${file.name}"`;
+
+// Identifies a file by its content, so a re-attached original can be told apart from a different file
+export const fingerprintEvidence = (file: EvidenceFile) => hashString(evidenceData(file));
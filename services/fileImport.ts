@@ -0,0 +1,50 @@
+import * as XLSX from "xlsx";
+
+// --- Tabular File Import ---
+// Reads CSV, XLSX/XLS and JSON files into plain row objects keyed by column header.
+
+export type ImportedRow = Record<string, string>;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const stringifyRow = (row: Record<string, unknown>): ImportedRow => {
+  const out: ImportedRow = {};
+  Object.entries(row).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    out[normalizeHeader(key)] = String(value).trim();
+  });
+  return out;
+};
+
+export const readRowsFromFile = async (file: File): Promise<ImportedRow[]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'json') {
+    const parsed = JSON.parse(await file.text());
+    // Accept either a bare array or an object wrapping the rows (e.g. { "lines": [...] })
+    const rows = Array.isArray(parsed) ? parsed : Object.values(parsed).find(Array.isArray);
+    if (!Array.isArray(rows)) throw new Error("JSON file must contain an array of rows");
+    return rows.map(stringifyRow);
+  }
+
+  if (extension === 'csv' || extension === 'xlsx' || extension === 'xls') {
+    const workbook = extension === 'csv'
+      ? XLSX.read(await file.text(), { type: 'string', raw: true })
+      : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    // Cells are read as their displayed text so codes typed as numbers keep their formatting
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false, rawNumbers: false });
+    return rows.map(stringifyRow);
+  }
+
+  throw new Error(`Unsupported file type: .${extension}`);
+};
+
+// Returns the first non-empty value among the given column aliases.
+export const pickColumn = (row: ImportedRow, aliases: string[]): string => {
+  for (const alias of aliases) {
+    const value = row[alias];
+    if (value) return value;
+  }
+  return '';
+};
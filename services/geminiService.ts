@@ -1,8 +1,26 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { TargetRegion, HSCodeResult } from "../types";
-
-// Initialize the Gemini Client
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY || '' });
+import { TargetRegion, HSCodeResult, SchemaError, ChatMessage, ClarificationAnswer, ClarificationRequest, ClarifyingQuestion, MatchedTariffLine, InvoiceExtraction, InvoiceLine, EvidenceFile } from "../types";
+import { searchTariffProviders, lookupTariffCode } from "./tariffProviders";
+import { searchTariffBook, findTariffLine, findSiblingLines, formatTariffLinesContext } from "./tariffBook";
+import { validateHSCode, buildCorrectionPrompt } from "./hsValidation";
+import { checkResultEditions } from "./hsCorrelation";
+import { checkCitations } from "./legalNotes";
+import { screenControlLists, formatControlRestriction, isControlRestriction } from "./controlLists";
+import { normalizeResultRates, parseRateText } from "./rateParser";
+import { normalizeHSCode, formatHSCode } from "./hsCode";
+import { parseAmount } from "./amounts";
+import { validateResultShape, buildRepairPrompt, applyResultDefaults } from "./resultSchema";
+import { getClassificationModel, ModelTurn } from "./classificationModels";
+import { CacheRequest, getCachedResult, cacheResult } from "./resultCache";
+import { canReadEvidence, describeEvidence, evidenceData, isImageEvidence } from "./evidence";
+
+// Bump whenever the classification prompt changes so history records stay traceable
+export const PROMPT_VERSION = "1.10.0";
+
+// The model is chosen by configuration (see services/classificationModels.ts)
+export const getEngineInfo = () => {
+  const model = getClassificationModel();
+  return { provider: model.provider, modelId: model.modelId, promptVersion: PROMPT_VERSION };
+};
 
 // --- Helper: Safe JSON Parser ---
 const cleanAndParseJSON = (text: string): any => {
@@ -33,349 +51,840 @@ const cleanAndParseJSON = (text: string): any => {
   }
 };
 
-// --- Live API Integration Helpers ---
-
-// Generic fetch with timeout to prevent hanging
-async function fetchWithTimeout(resource: string, options: RequestInit = {}, timeout = 5000) {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-  try {
-    const response = await fetch(resource, {
-      ...options,
-      signal: controller.signal
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error) {
-    clearTimeout(id);
-    throw error;
-  }
-}
-
-// 1. Singapore Data (data.gov.sg)
-const SG_RESOURCE_ID = "d_8cfe111e0a5a5cf5b598e78851e58ad4";
-
-async function fetchSingaporeData(query: string): Promise<string> {
-  try {
-    const url = `https://data.gov.sg/api/action/datastore_search?resource_id=${SG_RESOURCE_ID}&q=${encodeURIComponent(query)}&limit=3`;
-    const response = await fetchWithTimeout(url);
-
-    if (!response.ok) {
-      console.warn(`[Singapore API] Request failed. Status: ${response.status} ${response.statusText}`);
-      if (response.status === 429) console.warn("[Singapore API] Rate limit exceeded.");
-      return "";
-    }
-
-    const data = await response.json();
-
-    // Robust check for data structure
-    if (data?.result?.records && Array.isArray(data.result.records) && data.result.records.length > 0) {
-      const records = data.result.records.map((r: any) => ({
-        product: r.device_name || r.product_name || "Unknown Product",
-        risk_class: r.risk_classification || "N/A",
-        description: r.description || ""
-      }));
-      return `Match found in Singapore HSA Database: ${JSON.stringify(records)}`;
-    }
-    return "";
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.warn("[Singapore API] Request timed out (exceeded 5000ms).");
-    } else {
-      console.warn("[Singapore API] Network/Parsing Error:", error.message);
-    }
-    return "";
-  }
-}
-
-// 2. UAE Data (Dubai Pulse)
-async function fetchUAEData(query: string): Promise<string> {
-  const token = process.env.UAE_API_TOKEN;
-  if (!token) {
-    console.warn("[UAE API] Skipping: No API Token found in environment variables (UAE_API_TOKEN).");
-    return "";
-  }
-
-  try {
-    const url = `https://api.dubaipulse.gov.ae/shared/customs?commoditydescription=${encodeURIComponent(query)}`;
-    const response = await fetchWithTimeout(url, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        console.error("[UAE API] Authentication failed. Check UAE_API_TOKEN validity.");
-      } else {
-        console.warn(`[UAE API] Request failed. Status: ${response.status} ${response.statusText}`);
-      }
-      return "";
-    }
-
-    // Robust check for text/json content type before parsing
-    const contentType = response.headers.get("content-type");
-    if (contentType && contentType.indexOf("application/json") !== -1) {
-      const data = await response.json();
-      return `Match found in Dubai Customs Database: ${JSON.stringify(data)}`;
-    }
-    return "";
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.warn("[UAE API] Request timed out.");
-    } else {
-      console.warn("[UAE API] Error:", error.message);
-    }
-    return "";
-  }
-}
-
-// 3. Saudi Arabia Data (ZATCA)
-async function fetchSaudiData(query: string): Promise<string> {
-  const token = process.env.SAUDI_API_TOKEN;
-  if (!token) {
-    console.warn("[Saudi API] Skipping: No API Token found in environment variables (SAUDI_API_TOKEN).");
-    return "";
-  }
-
-  try {
-    const url = `https://zatca.gov.sa/api/tariff/v1/search?description=${encodeURIComponent(query)}&language=en`;
-    const response = await fetchWithTimeout(url, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'X-Client-ID': 'HScodeCentrovert-App',
-        'Accept': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        console.error("[Saudi API] Authentication failed. Check SAUDI_API_TOKEN.");
-      } else if (response.status === 503) {
-        console.warn("[Saudi API] Service unavailable (Maintenance).");
-      } else {
-        console.warn(`[Saudi API] Request failed. Status: ${response.status} ${response.statusText}`);
-      }
-      return "";
-    }
+// --- Region Profiles ---
 
-    const data = await response.json();
-    // ZATCA API structure validation
-    if (data && (Array.isArray(data) || data.items)) {
-      return `Match found in ZATCA Tariff Schedule: ${JSON.stringify(data)}`;
-    }
-    return "";
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.warn("[Saudi API] Request timed out.");
-    } else {
-      console.warn("[Saudi API] Error:", error.message);
-    }
-    return "";
-  }
+interface RegionProfile {
+  statusMessage: string;
+  useSearchGrounding: boolean;
+  instructions: string;
 }
 
-// --- Main Classification Logic ---
-
-export const identifyHSCode = async (
-  productDescription: string,
-  region: TargetRegion,
-  imageBase64?: string,
-  onStatusUpdate?: (status: string) => void
-): Promise<HSCodeResult> => {
-  // We use the Gemini 2.5 Flash model which supports Google Search Grounding
-  const modelId = "gemini-2.5-flash";
-
-  if (onStatusUpdate) onStatusUpdate("Initializing classification engine...");
-
-  // 1. Attempt to fetch Live Data (RAG Pattern)
-  let liveDataContext = "";
-  let regionSpecificInstructions = "";
-  let tools: any[] = [];
-
-  // Safely determine context based on region
-  try {
-    if (region === TargetRegion.SINGAPORE) {
-      if (onStatusUpdate) onStatusUpdate("Searching Singapore TradeNet & AHTN...");
-      // For Singapore, we use Google Search Grounding to get specific 8-digit codes
-      tools = [{ googleSearch: {} }];
-
-      // We still attempt the API fetch as a secondary source
-      const apiData = await fetchSingaporeData(productDescription);
-      if (apiData) liveDataContext += apiData + "\n";
+const GCC_PROFILE: RegionProfile = {
+  statusMessage: "Consulting GCC Unified Customs Tariff...",
+  useSearchGrounding: true,
+  instructions: `
+          - **TARGET DATABASE**: GCC Unified Customs Tariff (national edition for the target country).
+          - **ACCURACY PROTOCOL**: Provide the 8-digit GCC code.
+          - **CITATION**: State "Verified against GCC Common Tariff" in 'sourceReference'.
+        `
+};
 
-      regionSpecificInstructions = `
+const regionProfiles: Record<TargetRegion, RegionProfile> = {
+  [TargetRegion.SINGAPORE]: {
+    statusMessage: "Searching Singapore TradeNet & AHTN...",
+    // For Singapore, we use Google Search Grounding to get specific 8-digit codes
+    useSearchGrounding: true,
+    instructions: `
           - **TARGET DATABASE**: Singapore TradeNet / AHTN 2022/2024.
           - **ACCURACY PROTOCOL**: You MUST verify the 8-digit code via Search. For example, 'Laptops' are '8471.30.20', NOT '8471.30.10'.
           - **CITATION**: You must state "Verified against Singapore Customs AHTN [Year]" in the 'sourceReference' field.
           - **SEARCH STRATEGY**: Search for "Singapore Customs HS Code [product]" and look for the 'AHTN 2022' column.
           - **TAX**: Standard GST is 9%.
           - **CONTROLS**: Check for SFA (Food), HSA (Health Sciences), or Strategic Goods Control.
-        `;
-    } else if (region === TargetRegion.SAUDI_ARABIA) {
-      if (onStatusUpdate) onStatusUpdate("Querying ZATCA Tariff Database...");
-      liveDataContext = await fetchSaudiData(productDescription);
-      regionSpecificInstructions = `
+        `
+  },
+  [TargetRegion.SAUDI_ARABIA]: {
+    statusMessage: "Querying ZATCA Tariff Database...",
+    useSearchGrounding: false,
+    instructions: `
           - **TARGET DATABASE**: Saudi ZATCA Integrated Tariff.
           - **ACCURACY PROTOCOL**: Look for 10-digit or 12-digit national codes.
           - **CITATION**: State "Verified against Saudi ZATCA Tariff" in 'sourceReference'.
           - **SEARCH STRATEGY**: Search for "Saudi Customs Tariff [product] code".
           - **TAX**: Standard VAT is 15%.
           - **COMPLIANCE**: Check for **Saber Platform** & **SASO** IECEE requirements.
-        `;
-    } else if (region === TargetRegion.UAE) {
-      if (onStatusUpdate) onStatusUpdate("Checking Dubai Customs Records...");
-      liveDataContext = await fetchUAEData(productDescription);
-      regionSpecificInstructions = `
+        `
+  },
+  [TargetRegion.UAE]: {
+    statusMessage: "Checking Dubai Customs Records...",
+    useSearchGrounding: false,
+    instructions: `
           - **TARGET DATABASE**: GCC Unified Customs Tariff (Dubai Customs).
           - **ACCURACY PROTOCOL**: Provide the 8-digit GCC code.
           - **CITATION**: State "Verified against GCC Common Tariff" in 'sourceReference'.
           - **TAX**: Standard VAT is 5%.
-        `;
-    } else if (region === TargetRegion.INDIA) {
-      if (onStatusUpdate) onStatusUpdate("Searching ITC-HS & DGFT Policies...");
-      tools = [{ googleSearch: {} }]; // Use Search for ITC-HS
-      regionSpecificInstructions = `
+        `
+  },
+  [TargetRegion.INDIA]: {
+    statusMessage: "Searching ITC-HS & DGFT Policies...",
+    useSearchGrounding: true, // Use Search for ITC-HS
+    instructions: `
           - **TARGET DATABASE**: ITC-HS 2022 (Indian Trade Clarification).
           - **ACCURACY PROTOCOL**: Identify the specific 8-digit subheading. Example: 'Smartphones' -> '8517.13.00'.
           - **CITATION**: State "Verified against Indian ITC-HS 2022" in 'sourceReference'.
           - **TAX**: Calculate BCD + SWS + IGST.
           - **COMPLIANCE**: Check BIS (CRO), WPC (Wireless), and DGFT Import Policy.
-        `;
-    } else if (region === TargetRegion.MALAYSIA) {
-      if (onStatusUpdate) onStatusUpdate("Consulting Malaysian Customs (PDK)...");
-      tools = [{ googleSearch: {} }]; // Use Search for PDK
-      regionSpecificInstructions = `
+        `
+  },
+  [TargetRegion.MALAYSIA]: {
+    statusMessage: "Consulting Malaysian Customs (PDK)...",
+    useSearchGrounding: true, // Use Search for PDK
+    instructions: `
           - **TARGET DATABASE**: Malaysian Customs Duties Order (PDK 2022/2024).
           - **ACCURACY PROTOCOL**: Provide 10-digit codes where possible (PDK split).
           - **CITATION**: State "Verified against Malaysia PDK 2022/2024" in 'sourceReference'.
           - **TAX**: SST (Sales Tax 5% or 10%).
           - **COMPLIANCE**: Check SIRIM (Electronics) & MAQIS.
-        `;
-    } else {
-      if (onStatusUpdate) onStatusUpdate("Consulting Global WCO Standards...");
-      liveDataContext = await fetchUAEData(productDescription);
-      regionSpecificInstructions = `
+        `
+  },
+  [TargetRegion.QATAR]: {
+    ...GCC_PROFILE,
+    statusMessage: "Consulting Qatar Al-Nadeeb Tariff...",
+    instructions: GCC_PROFILE.instructions + `  - **TAX**: No VAT. Check excise on tobacco, energy drinks and sugary drinks.
+        `
+  },
+  [TargetRegion.OMAN]: {
+    ...GCC_PROFILE,
+    statusMessage: "Consulting Oman Bayan Tariff...",
+    instructions: GCC_PROFILE.instructions + `  - **TAX**: Standard VAT is 5%.
+        `
+  },
+  [TargetRegion.BAHRAIN]: {
+    ...GCC_PROFILE,
+    statusMessage: "Consulting Bahrain OFOQ Tariff...",
+    instructions: GCC_PROFILE.instructions + `  - **TAX**: Standard VAT is 10%.
+        `
+  },
+  [TargetRegion.KUWAIT]: {
+    ...GCC_PROFILE,
+    statusMessage: "Consulting Kuwait KGAC Tariff...",
+    instructions: GCC_PROFILE.instructions + `  - **TAX**: No VAT.
+          - **COMPLIANCE**: Commercial invoices and certificates of origin must be legalized.
+        `
+  },
+  [TargetRegion.GLOBAL]: {
+    statusMessage: "Consulting Global WCO Standards...",
+    useSearchGrounding: false,
+    instructions: `
           - **TARGET DATABASE**: WCO Harmonized System (2022 Edition).
           - **ACCURACY PROTOCOL**: Provide 6-digit global code.
           - **CITATION**: State "Based on WCO General Rules 2022" in 'sourceReference'.
-        `;
+        `
+  },
+};
+
+// --- Model Call Helpers ---
+
+const systemInstruction = (useSearch: boolean) =>
+  `You are a strict Trade Compliance Officer. Your only goal is ACCURACY. You prioritize official government tariff schedules over general knowledge. You verify every 8-digit code against the country's specific tariff book (AHTN, ITC-HS, etc.)${useSearch ? " using Google Search" : ""}. You never halluciante suffixes.`;
+
+async function generateClassification(contents: ModelTurn[], useSearch: boolean): Promise<string> {
+  return getClassificationModel().generate({
+    contents,
+    systemInstruction: systemInstruction(useSearch),
+    temperature: 0.05, // Very low temperature for maximum determinism and accuracy
+    useSearchGrounding: useSearch,
+  });
+}
+
+// Search grounding is used when the market's profile wants it and the configured model offers it
+const searchFor = (region: TargetRegion) =>
+  regionProfiles[region].useSearchGrounding && getClassificationModel().capabilities.searchGrounding;
+
+// What the user said about the product: the description, clarification answers and any follow-ups.
+// Control list keywords are screened against it as well as against the model's answer.
+const describedByUser = (productDescription: string, clarifications: ClarificationAnswer[] = [], followUps: string[] = []) =>
+  [productDescription, ...clarifications.map(c => c.answer), ...followUps].join(' ');
+
+// Post-processing shared by the first answer and any corrected answer
+async function finalizeResult(result: HSCodeResult, region: TargetRegion, useSearch: boolean, userText: string): Promise<HSCodeResult> {
+  // Accept both the structured rate shape and legacy "5%" strings
+  normalizeResultRates(result);
+
+  // If search tool was used, ensure source is marked correctly if high confidence
+  if (useSearch && result.confidenceScore > 85) {
+    result.source = 'Live API';
+  }
+
+  // Attach the exact line from the imported tariff book, if the code exists there
+  const matchedLine = await findTariffLine(region, result.hsCode);
+  result.matchedTariffLine = matchedLine || undefined;
+  if (matchedLine) {
+    result.source = 'Live API';
+    if (!result.sourceReference) result.sourceReference = `${matchedLine.edition} (${matchedLine.bookName})`;
+  }
+
+  const editionNotices = await checkResultEditions(result);
+  result.editionNotices = editionNotices.length > 0 ? editionNotices : undefined;
+
+  // Check every cited rule, note and heading text against the local notes corpus
+  result.legalBasis = Array.isArray(result.legalBasis) && result.legalBasis.length > 0
+    ? await checkCitations(result.legalBasis, region)
+    : undefined;
+
+  // Screen the code and both descriptions against the local strategic goods and dual-use lists.
+  // Hits replace any earlier screening entries in the restrictions, e.g. on a refined answer.
+  const controlHits = await screenControlLists(result, region, userText).catch(err => {
+    console.warn("[Control Lists] Screening failed:", err);
+    return [];
+  });
+  result.controlHits = controlHits.length > 0 ? controlHits : undefined;
+  result.restrictions = [
+    ...(result.restrictions || []).filter(restriction => !isControlRestriction(restriction)),
+    ...controlHits.map(formatControlRestriction),
+  ];
+  return result;
+}
+
+// --- Prompt Construction ---
+
+// Queries the imported tariff book first, then the providers registered for this region
+async function gatherContext(
+  productDescription: string,
+  region: TargetRegion,
+  onStatusUpdate?: (status: string) => void
+): Promise<string> {
+  let liveDataContext = "";
+  try {
+    const localLines = await searchTariffBook(region, productDescription);
+    if (localLines.length > 0) {
+      if (onStatusUpdate) onStatusUpdate(`Matched ${localLines.length} lines in local ${localLines[0].edition}...`);
+      liveDataContext += formatTariffLinesContext(localLines) + "\n";
     }
+
+    if (onStatusUpdate) onStatusUpdate(regionProfiles[region].statusMessage);
+    liveDataContext += await searchTariffProviders(region, productDescription, onStatusUpdate);
   } catch (err) {
     console.warn("Error during context gathering:", err);
     // Fail silently on context gathering to ensure main classification still proceeds
   }
+  return liveDataContext;
+}
 
-  // 2. Construct Parts for Multimodal Input
-  const parts: any[] = [];
-
-  // Add Image if present
-  if (imageBase64) {
-    if (onStatusUpdate) onStatusUpdate("Analyzing product image features...");
-    // Remove data url prefix if present (data:image/jpeg;base64,)
-    const cleanBase64 = imageBase64.split(',')[1] || imageBase64;
-    parts.push({
-      inlineData: {
-        data: cleanBase64,
-        mimeType: "image/jpeg"
-      }
-    });
-  }
+interface PromptOptions {
+  evidence: string[]; // How the prompt refers to each attached file, in the order they were sent
+  useSearch: boolean;
+  clarifications?: ClarificationAnswer[]; // Answers from the clarifying-question wizard
+  allowClarification?: boolean; // Model may ask questions instead of answering with a code
+}
+
+const formatClarifications = (clarifications: ClarificationAnswer[]) =>
+  clarifications.map(c => `    - ${c.question} → ${c.answer}`).join("\n");
+
+const CLARIFICATION_GUIDELINE = `
+    7. **AMBIGUITY (Ask, do not guess)**:
+       - If the description leaves open a fact that decides the heading or subheading and you would be less than 70% confident, DO NOT classify.
+       - Typical deciding facts: material or composition (GRI 1 and Section/Chapter Notes, GRI 3(b) for mixtures), intended use or function, whether the goods are put up for retail sale, and whether the article is complete or assembled (GRI 2(a)).
+       - Instead return ONLY this JSON: { "clarificationNeeded": true, "questions": [{ "id": "q1", "question": "string", "basis": "string (GRI step or legal note the answer decides, e.g. 'GRI 1 – Heading 3924 vs 7323')", "options": ["string", "string"] }] }
+       - Ask at most 3 questions, in the order the GRI would resolve them (heading terms and legal notes first, then GRI 2, then GRI 3). Each question needs 2 to 5 mutually exclusive options.
+`;
+
+// Shared by every prompt that answers with a full HSCodeResult
+const RESULT_FORMAT = `    **IMPORTANT: RESPONSE FORMAT**
+    You MUST return a VALID JSON object. Do not include markdown code blocks.
+    The JSON must follow this structure exactly:
+    {
+      "hsCode": "string (Prefer 8+ digits if verified, else 6)",
+      "productName": "string (Official Tariff Name)",
+      "description": "string (Full Description from Tariff Book)",
+      "dutyRate": {
+        "type": "ad_valorem" | "specific" | "compound" | "mixed" | "exempt" | "prohibited",
+        "percent": number (ad_valorem and compound only),
+        "amount": number (specific and compound only),
+        "currency": "string (ISO code, specific and compound only)",
+        "unit": "kg" | "litre" | "unit" | "pair" | "tonne" (specific and compound only),
+        "options": [ad_valorem and specific rates] (mixed only, applied as 'whichever is higher'),
+        "label": "string (duty name, e.g. 'BCD', 'Customs Duty')",
+        "text": "string (rate exactly as printed in the tariff, e.g. '5%', 'AED 2/kg', 'Free')"
+      },
+      "taxRate": { same structure as dutyRate, e.g. { "type": "ad_valorem", "percent": 9, "label": "GST", "text": "9% GST" } },
+      "restrictions": ["string (restriction 1)", "string (restriction 2)"],
+      "reasoning": "string (Explain exactly why this 8-digit code was chosen over others. Cite the specific tariff heading/subheading logic.)",
+      "legalBasis": [
+        {
+          "kind": "gri" | "section_note" | "chapter_note" | "subheading_note" | "heading_text" | "explanatory_note",
+          "reference": "string (as cited, e.g. 'GRI 3(b)', 'Note 7 to Section XI', 'Note 3 to Chapter 85', 'Heading 85.17')",
+          "section": "string (Roman numeral, section_note only)",
+          "chapter": "string (2 digits, chapter_note and subheading_note only)",
+          "note": "string (rule or note number, e.g. '3(b)', '1(a)'; gri and notes only)",
+          "code": "string (heading or subheading, heading_text and explanatory_note only)",
+          "text": "string (the rule, note or heading text, quoted verbatim; shorten with '...' only)",
+          "relevance": "string (1 sentence on how it decided this classification)"
+        }
+      ],
+      "confidenceScore": number (0-100),
+      "requiredDocuments": ["string (doc 1)", "string (doc 2)"],
+      "source": "Live API" | "AI Model",
+      "sourceReference": "string (Exact name of the Tariff Book or Authority verified against)",
+      "similarItems": [
+        {
+          "name": "string (similar product name)",
+          "hsCode": "string (HS Code)",
+          "reason": "string (1 sentence reason for similarity)"
+        }
+      ]
+    }
+`;
 
-  // Add Text Prompt with JSON Requirement
-  const promptText = `
+const buildClassificationPrompt = (
+  productDescription: string,
+  region: TargetRegion,
+  liveDataContext: string,
+  options: PromptOptions
+) => `
     Act as an expert Customs Broker and Trade Compliance Specialist for ${region}.
     
     Your task is to classify the following product into its correct Harmonized System (HS) Code and suggest similar items with HIGH ACCURACY.
     
-    ${imageBase64 ? "Note: An image of the product has been provided. Use visual details (material, packaging, type) to refine the classification." : ""}
+    ${options.evidence.length > 0 ? `The user attached this evidence; each file follows its label above:
+${options.evidence.map(label => `    - ${label}`).join('\n')}
+    Use visual details in photos (material, packaging, type) and the specifications, composition and intended use in datasheets and safety data sheets to refine the classification. Where a fact in 'reasoning' comes from a file, cite it as "Evidence N".` : ""}
     
     Product Description provided by user: "${productDescription}"
     Target Import Country: "${region}"
-    
+    ${options.clarifications && options.clarifications.length > 0 ? `
+    The user answered these clarifying questions. Treat the answers as facts about the product:
+${formatClarifications(options.clarifications)}
+    ` : ""}
     *** REAL-TIME DATA CONTEXT (High Priority) ***
-    ${liveDataContext ? liveDataContext : "No direct match in pre-fetched government databases. Rely on Google Search Tool."}
+    ${liveDataContext ? liveDataContext : options.useSearch
+      ? "No direct match in pre-fetched government databases. Rely on Google Search Tool."
+      : "No direct match in pre-fetched government databases. Rely on your knowledge of the official tariff schedule."}
     **********************************************
 
     Guidelines:
     1. **MAIN CLASSIFICATION (High Accuracy)**: 
        - Identify the exact 8-digit (or 10/12-digit) HS Code for ${region}. 
-       - **VERIFICATION**: You MUST use the Google Search Tool to find the official Tariff Schedule for ${region} (e.g., AHTN, ITC-HS, ZATCA).
+       - **VERIFICATION**: ${options.useSearch
+         ? `You MUST use the Google Search Tool to find the official Tariff Schedule for ${region} (e.g., AHTN, ITC-HS, ZATCA).`
+         : `Live search is not available. Check the code against the data context above and the official Tariff Schedule for ${region} as you know it, and lower 'confidenceScore' when the national subheading cannot be confirmed.`}
        - **ANTI-HALLUCINATION**: Do not invent generic suffixes (like .00 or .10) if they don't exist in the *current* tariff book (post-2022).
        - **LEGACY CHECK**: Ensure you are not using pre-2022 codes (e.g., check if '9705.00' is now split into '9705.29', etc.).
+       - **LOCAL TARIFF BOOK**: If the data context contains lines from a local tariff book and one fits the product, use that line's exact code and description.
     
     2. **CITATION (Crucial)**:
        - You MUST populate the 'sourceReference' field.
        - Tell the user EXACTLY which document you used (e.g., "Singapore TradeNet AHTN 2022", "ZATCA Integrated Tariff 2024"). 
        - If you inferred the code from general WCO rules because a national match wasn't found, state: "Inferred from WCO General Rules (National sub-heading not found)".
     
-    3. **SIMILAR ITEMS**: 
+    3. **LEGAL BASIS**:
+       - In 'legalBasis', list every General Interpretative Rule applied (always GRI 1 and GRI 6; GRI 2 to 5 only where they decided the outcome), the Section, Chapter and Subheading Notes that include or exclude the goods, and the heading text relied on.
+       - Quote each provision verbatim from the Harmonized System nomenclature. Do not cite a note you cannot quote; the citations are checked against the official notes.
+
+    4. **SIMILAR ITEMS**: 
        - Return at least 5 similar or related items from the same HS Chapter or functionality group.
        - This is crucial for users if their input was ambiguous.
        
-    4. **Region Specific Rules**: ${regionSpecificInstructions}
+    5. **Region Specific Rules**: ${regionProfiles[region].instructions}
 
-    5. **Source Attribution**: If you found the code via Google Search in an official document, set 'source' to 'Live API'.
+    6. **Source Attribution**: ${options.useSearch
+      ? "If you found the code via Google Search in an official document, set 'source' to 'Live API'."
+      : "Set 'source' to 'AI Model' unless the code was taken from the data context above."}
+    ${options.allowClarification ? CLARIFICATION_GUIDELINE : ""}
 
-    **IMPORTANT: RESPONSE FORMAT**
-    You MUST return a VALID JSON object. Do not include markdown code blocks.
-    The JSON must follow this structure exactly:
-    {
-      "hsCode": "string (Prefer 8+ digits if verified, else 6)",
-      "productName": "string (Official Tariff Name)",
-      "description": "string (Full Description from Tariff Book)",
-      "dutyRate": "string (e.g., '5%', 'Free')",
-      "taxRate": "string (e.g., '9% GST')",
-      "restrictions": ["string (restriction 1)", "string (restriction 2)"],
-      "reasoning": "string (Explain exactly why this 8-digit code was chosen over others. Cite the specific tariff heading/subheading logic.)",
-      "confidenceScore": number (0-100),
-      "requiredDocuments": ["string (doc 1)", "string (doc 2)"],
-      "source": "Live API" | "AI Model",
-      "sourceReference": "string (Exact name of the Tariff Book or Authority verified against)",
-      "similarItems": [
-        {
-          "name": "string (similar product name)",
-          "hsCode": "string (HS Code)",
-          "reason": "string (1 sentence reason for similarity)"
-        }
-      ]
-    }
+${RESULT_FORMAT}`;
+
+// Reverse lookup: the code is given and the model describes its tariff treatment
+const buildLookupPrompt = (code: string, region: TargetRegion, liveDataContext: string, useSearch: boolean) => `
+    Act as an expert Customs Broker and Trade Compliance Specialist for ${region}.
+
+    A broker already has an HS code and wants to check it. Return the full tariff profile of this code for imports into ${region}.
+
+    HS Code: "${formatHSCode(code)}"
+    Target Import Country: "${region}"
+
+    *** TARIFF DATA FOR THIS CODE (High Priority) ***
+    ${liveDataContext || (useSearch
+      ? "No record found in pre-fetched government databases. Use the Google Search Tool to find the official Tariff Schedule."
+      : "No record found in pre-fetched government databases. Rely on your knowledge of the official tariff schedule.")}
+    **********************************************
+
+    Guidelines:
+    1. **CODE**: Return 'hsCode' exactly as given. Do not substitute another code. If it does not exist in the current (post-2022) ${region} tariff book, say so at the start of 'reasoning' and set 'confidenceScore' below 30.
+    2. **DESCRIPTION**: 'description' is the official description of the line as printed in the tariff book; 'productName' is a short name for the goods it covers.
+    3. **DUTY & TAX**: Take the duty from the tariff data above when present. Give the VAT/GST that applies on import in 'taxRate'.
+    4. **COMPLIANCE**: List permits, licences, prohibitions and controlling agencies in 'restrictions', and the documents a declaration needs in 'requiredDocuments'.
+    5. **SIBLING SUBHEADINGS**: In 'similarItems', list up to 8 other lines under the same heading or subheading, with the criterion that separates each from this code in 'reason'.
+    6. **SCOPE**: In 'reasoning', summarize what the line covers and its limits (Section/Chapter notes, exclusions, where excluded goods go instead). Quote the heading text and the notes that set those limits in 'legalBasis'.
+    7. **CITATION**: Name the exact tariff book or authority in 'sourceReference'.
+    8. **Region Specific Rules**: ${regionProfiles[region].instructions}
+
+${RESULT_FORMAT}`;
+
+// Wraps a follow-up from the refinement thread so the model answers with a full, revised result
+const buildRefinementPrompt = (message: string, region: TargetRegion) => `
+    Follow-up from the user about this classification: "${message}"
+
+    Re-evaluate the classification for ${region} with everything said in this conversation so far.
+    - If the new information changes the correct code, return the revised classification.
+    - If the user proposes a different code, assess it against the tariff book and the General Rules of Interpretation; adopt it only if it is correct.
+    - If the classification does not change, return it unchanged and explain why in 'reasoning', addressing the user's point directly.
+
+    Return the complete JSON object in exactly the same structure as before. Do not include markdown code blocks.
   `;
 
-  parts.push({ text: promptText });
+// Each file is preceded by its label so the prompt can refer to it
+const buildEvidenceParts = (evidence: EvidenceFile[], onStatusUpdate?: (status: string) => void) => {
+  const capabilities = getClassificationModel().capabilities;
+  const parts: ModelTurn['parts'] = [];
+  const labels: string[] = [];
+  evidence.forEach(file => {
+    if (!canReadEvidence(file, capabilities)) {
+      console.warn(`[Evidence] ${file.name} (${file.mimeType}) skipped; the configured model cannot read it.`);
+      return;
+    }
+    const label = describeEvidence(file, labels.length);
+    labels.push(label);
+    parts.push({ text: label }, { inlineData: { data: evidenceData(file), mimeType: file.mimeType } });
+  });
+  if (labels.length > 0 && onStatusUpdate) {
+    onStatusUpdate(labels.length === 1 ? "Analyzing attached evidence..." : `Analyzing ${labels.length} evidence files...`);
+  }
+  return { parts, labels };
+};
+
+// The classification as the model gave it, without what finalizeResult derives from local data
+const withoutLocalEnrichment = (result: HSCodeResult): HSCodeResult => {
+  const { matchedTariffLine, editionNotices, legalBasis, controlHits, ...classification } = result;
+  return {
+    ...classification,
+    restrictions: classification.restrictions.filter(restriction => !isControlRestriction(restriction)),
+    legalBasis: legalBasis?.map(({ check, ...citation }) => citation),
+  };
+};
+
+// Only the classification itself goes back to the model; local enrichments are re-derived
+const serializeResultTurn = (result: HSCodeResult) => {
+  const { validation, ...classification } = withoutLocalEnrichment(result);
+  return JSON.stringify(classification);
+};
+
+// Tariff context for the first turn. Answers such as the material make the search far more specific.
+const gatherFirstTurnContext = (
+  productDescription: string,
+  region: TargetRegion,
+  clarifications: ClarificationAnswer[] = [],
+  onStatusUpdate?: (status: string) => void
+) => gatherContext([productDescription, ...clarifications.map(c => c.answer)].join(' '), region, onStatusUpdate);
+
+// The first turn of every classification: tariff context, attached files and the main prompt
+const buildFirstTurn = (
+  productDescription: string,
+  region: TargetRegion,
+  evidence: EvidenceFile[],
+  liveDataContext: string,
+  options: Omit<PromptOptions, 'evidence' | 'useSearch'>,
+  onStatusUpdate?: (status: string) => void
+): ModelTurn => {
+  const { parts, labels } = buildEvidenceParts(evidence, onStatusUpdate);
+  parts.push({ text: buildClassificationPrompt(productDescription, region, liveDataContext, { ...options, evidence: labels, useSearch: searchFor(region) }) });
+  return { role: 'user', parts };
+};
+
+// Keeps only well-formed questions; the wizard needs text and at least two options for each
+const sanitizeQuestions = (raw: any): ClarifyingQuestion[] => (Array.isArray(raw) ? raw : [])
+  .map((q: any, i: number) => ({
+    id: String(q?.id || `q${i + 1}`),
+    question: String(q?.question || '').trim(),
+    basis: String(q?.basis || '').trim(),
+    options: (Array.isArray(q?.options) ? q.options : []).map((o: any) => String(o).trim()).filter(Boolean),
+  }))
+  .filter(q => q.question && q.options.length >= 2)
+  .slice(0, 3);
+
+export const isClarificationRequest = (value: HSCodeResult | ClarificationRequest): value is ClarificationRequest =>
+  (value as ClarificationRequest).clarificationNeeded === true;
+
+// Generates, finalizes and validates a classification, re-prompting once if the code fails validation
+async function classifyConversation(
+  contents: ModelTurn[],
+  region: TargetRegion,
+  useSearch: boolean,
+  userText: string,
+  onStatusUpdate?: (status: string) => void
+): Promise<HSCodeResult> {
+  const textResponse = await generateClassification(contents, useSearch);
+  return completeClassification(contents, textResponse, region, useSearch, userText, onStatusUpdate);
+}
 
+// Parses and shape-checks an answer without throwing
+const inspectResponse = (text: string): { value: unknown; errors: SchemaError[] } => {
+  let value: unknown;
   try {
-    if (onStatusUpdate) onStatusUpdate("Synthesizing final compliance report...");
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts: parts },
-      config: {
-        // NOTE: responseMimeType cannot be set when using tools like Google Search.
-        // We rely on the prompt to enforce JSON format.
-        temperature: 0.05, // Very low temperature for maximum determinism and accuracy
-        systemInstruction: "You are a strict Trade Compliance Officer. Your only goal is ACCURACY. You prioritize official government tariff schedules over general knowledge. You verify every 8-digit code against the country's specific tariff book (AHTN, ITC-HS, etc.) using Google Search. You never halluciante suffixes.",
-        tools: tools.length > 0 ? tools : undefined,
-      },
-    });
+    value = cleanAndParseJSON(text);
+  } catch (e) {
+    return { value: undefined, errors: [{ field: '$', message: 'response is not valid JSON' }] };
+  }
+  return { value, errors: validateResultShape(value) };
+};
 
-    const textResponse = response.text;
-    if (!textResponse) {
-      throw new Error("No response from AI");
+// Unparseable answers rank below any parsed answer, however many fields it gets wrong
+const errorScore = (errors: SchemaError[]) => errors.some(error => error.field === '$') ? Infinity : errors.length;
+
+// Checks the answer against the HSCodeResult shape and sends one repair request listing the
+// field errors. Whatever is still wrong afterwards is defaulted and the result marked degraded.
+async function parseWithRepair(
+  contents: ModelTurn[],
+  textResponse: string,
+  useSearch: boolean,
+  onStatusUpdate?: (status: string) => void
+): Promise<{ result: HSCodeResult; text: string }> {
+  let text = textResponse;
+  let { value, errors } = inspectResponse(text);
+
+  if (errors.length > 0) {
+    if (onStatusUpdate) onStatusUpdate("Response incomplete. Requesting repair...");
+    try {
+      const repairedText = await generateClassification([
+        ...contents,
+        { role: 'model', parts: [{ text: textResponse }] },
+        { role: 'user', parts: [{ text: buildRepairPrompt(errors) }] },
+      ], useSearch);
+      const repaired = inspectResponse(repairedText);
+      if (errorScore(repaired.errors) <= errorScore(errors)) {
+        text = repairedText;
+        ({ value, errors } = repaired);
+      }
+    } catch (repairError) {
+      console.warn("Repair re-prompt failed:", repairError);
     }
+  }
 
-    // Robust Cleaning and Parsing
-    const result: HSCodeResult = cleanAndParseJSON(textResponse);
+  return { result: errors.length > 0 ? applyResultDefaults(value, errors) : value as HSCodeResult, text };
+}
 
-    // Post-process: If search tool was used, ensure source is marked correctly if high confidence
-    if (tools.length > 0 && result.confidenceScore > 85) {
-      result.source = 'Live API';
+async function completeClassification(
+  contents: ModelTurn[],
+  textResponse: string,
+  region: TargetRegion,
+  useSearch: boolean,
+  userText: string,
+  onStatusUpdate?: (status: string) => void
+): Promise<HSCodeResult> {
+  const answer = await parseWithRepair(contents, textResponse, useSearch, onStatusUpdate);
+  let result = await finalizeResult(answer.result, region, useSearch, userText);
+
+  if (onStatusUpdate) onStatusUpdate("Validating code against the nomenclature...");
+  let validation = await validateHSCode(result, region);
+
+  if (!validation.valid) {
+    if (onStatusUpdate) onStatusUpdate("Code failed validation. Requesting correction...");
+    try {
+      const correctedText = await generateClassification([
+        ...contents,
+        { role: 'model', parts: [{ text: answer.text }] },
+        { role: 'user', parts: [{ text: buildCorrectionPrompt(validation, region) }] },
+      ], useSearch);
+      const corrected = inspectResponse(correctedText);
+      if (corrected.errors.length === 0) {
+        result = await finalizeResult(corrected.value as HSCodeResult, region, useSearch, userText);
+        validation = await validateHSCode(result, region);
+      } else {
+        console.warn("Corrected answer does not match the result schema; keeping the first answer.");
+      }
+    } catch (correctionError) {
+      // Keep the first answer; it stays flagged as failing validation
+      console.warn("Corrective re-prompt failed:", correctionError);
     }
+    validation.correctionAttempted = true;
+  }
+
+  result.validation = validation;
+  return result;
+}
+
+// --- Main Classification Logic ---
+
+export interface ClassifyOptions {
+  clarifications?: ClarificationAnswer[]; // Answers from the clarifying-question wizard
+  bypassCache?: boolean; // Always ask the model; the fresh result replaces any cached one
+}
+
+const engineVersion = () => {
+  const { provider, modelId, promptVersion } = getEngineInfo();
+  return `${provider}/${modelId}@${promptVersion}`;
+};
+
+// Checked before any tariff lookup or model call, so a hit costs neither. The cache holds only the
+// model's classification; tariff book lines, citation checks, edition notices, control list screening
+// and validation are re-derived on every hit, so newly imported data applies to cached products too.
+async function readCache(request: CacheRequest, options: ClassifyOptions, onStatusUpdate?: (status: string) => void) {
+  if (options.bypassCache) return undefined;
+  const cached = await getCachedResult(request);
+  if (!cached) return undefined;
+  if (onStatusUpdate) onStatusUpdate("Loaded from result cache...");
+  const userText = request.mode === 'lookup' ? '' : describedByUser(request.description, request.clarifications);
+  const result = await finalizeResult(cached, request.region, false, userText);
+  if (request.mode === 'lookup') {
+    const digits = normalizeHSCode(request.description);
+    applyTariffBookFields(result, await findTariffLine(request.region, digits), await findSiblingLines(request.region, digits));
+  }
+  result.validation = {
+    ...await validateHSCode(result, request.region),
+    correctionAttempted: cached.validation?.correctionAttempted,
+  };
+  return result;
+}
+
+// Incomplete answers are not kept; the next attempt may well produce a complete one
+async function writeCache(request: CacheRequest, result: HSCodeResult) {
+  if (!result.degraded) await cacheResult(request, withoutLocalEnrichment(result));
+  return result;
+}
+
+export const identifyHSCode = async (
+  productDescription: string,
+  region: TargetRegion,
+  evidence: EvidenceFile[] = [],
+  onStatusUpdate?: (status: string) => void,
+  options: ClassifyOptions = {}
+): Promise<HSCodeResult> => {
+  const { clarifications } = options;
+  const cacheRequest: CacheRequest = { description: productDescription, region, evidence, clarifications, engineVersion: engineVersion() };
+  const cached = await readCache(cacheRequest, options, onStatusUpdate);
+  if (cached) return cached;
 
-    return result;
+  if (onStatusUpdate) onStatusUpdate("Initializing classification engine...");
 
+  // 1. Fetch Live Data (RAG Pattern) and construct the multimodal first turn
+  const useSearch = searchFor(region);
+  const liveDataContext = await gatherFirstTurnContext(productDescription, region, clarifications, onStatusUpdate);
+  const firstTurn = buildFirstTurn(productDescription, region, evidence, liveDataContext, { clarifications }, onStatusUpdate);
+
+  try {
+    if (onStatusUpdate) onStatusUpdate("Synthesizing final compliance report...");
+    // 2. Classify, then validate the code against the nomenclature
+    return await writeCache(cacheRequest, await classifyConversation([firstTurn], region, useSearch, describedByUser(productDescription, clarifications), onStatusUpdate));
   } catch (error) {
     console.error("Error identifying HS Code:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Like identifyHSCode, but lets the model return clarifying questions when the description is
+// too ambiguous to classify. Answers go back through identifyHSCode's `clarifications`.
+export const classifyOrClarify = async (
+  productDescription: string,
+  region: TargetRegion,
+  evidence: EvidenceFile[] = [],
+  onStatusUpdate?: (status: string) => void,
+  options: Pick<ClassifyOptions, 'bypassCache'> = {}
+): Promise<HSCodeResult | ClarificationRequest> => {
+  const cacheRequest: CacheRequest = { description: productDescription, region, evidence, engineVersion: engineVersion() };
+  const cached = await readCache(cacheRequest, options, onStatusUpdate);
+  if (cached) return cached;
+
+  if (onStatusUpdate) onStatusUpdate("Initializing classification engine...");
+
+  const useSearch = searchFor(region);
+  const liveDataContext = await gatherFirstTurnContext(productDescription, region, [], onStatusUpdate);
+  const firstTurn = buildFirstTurn(productDescription, region, evidence, liveDataContext, { allowClarification: true }, onStatusUpdate);
+
+  try {
+    if (onStatusUpdate) onStatusUpdate("Synthesizing final compliance report...");
+    const textResponse = await generateClassification([firstTurn], useSearch);
+    const { value: parsed } = inspectResponse(textResponse) as { value: any };
+    if (parsed?.clarificationNeeded) {
+      const questions = sanitizeQuestions(parsed.questions);
+      if (questions.length > 0) return { clarificationNeeded: true, questions };
+      // Questions were unusable; classify without the option to ask, from the same tariff context
+      const fallbackTurn = buildFirstTurn(productDescription, region, evidence, liveDataContext, {});
+      return await writeCache(cacheRequest, await classifyConversation([fallbackTurn], region, useSearch, productDescription, onStatusUpdate));
+    }
+    return await writeCache(cacheRequest, await completeClassification([firstTurn], textResponse, region, useSearch, productDescription, onStatusUpdate));
+  } catch (error) {
+    console.error("Error identifying HS Code:", error);
+    throw error;
+  }
+};
+
+// --- Reverse Lookup ---
+
+const siblingItems = (siblings: MatchedTariffLine[]) => siblings.map(line => ({
+  name: line.description,
+  hsCode: formatHSCode(line.code),
+  reason: line.duty ? `Sibling line in ${line.edition}; duty ${line.duty}` : `Sibling line in ${line.edition}`,
+}));
+
+// The tariff book is authoritative for the fields it carries, on fresh and cached lookups alike
+const applyTariffBookFields = (result: HSCodeResult, line: MatchedTariffLine | undefined, siblings: MatchedTariffLine[]) => {
+  if (!line) return;
+  result.description = line.description;
+  if (line.duty) result.dutyRate = parseRateText(line.duty, result.dutyRate.label);
+  if (siblings.length > 0) result.similarItems = siblingItems(siblings);
+};
+
+// Used when the model cannot be reached; the book has no tax, restriction or document data
+const profileFromTariffLine = (line: MatchedTariffLine, siblings: MatchedTariffLine[]): HSCodeResult => ({
+  hsCode: formatHSCode(line.code),
+  productName: line.description,
+  description: line.description,
+  dutyRate: parseRateText(line.duty),
+  taxRate: { type: 'unspecified', text: 'Not in tariff book' },
+  restrictions: line.notes ? [line.notes] : [],
+  reasoning: `Taken from the local ${line.edition} tariff book. The classification model was unavailable, so tax, restrictions and required documents were not assessed.`,
+  confidenceScore: 100,
+  requiredDocuments: [],
+  source: 'Live API',
+  sourceReference: `${line.edition} (${line.bookName})`,
+  similarItems: siblingItems(siblings),
+});
+
+// Code-to-profile lookup. Local tariff books and code-capable providers supply the data; the
+// model fills in what they lack and answers alone when neither knows the code.
+export const lookupHSCode = async (
+  code: string,
+  region: TargetRegion,
+  onStatusUpdate?: (status: string) => void,
+  options: Pick<ClassifyOptions, 'bypassCache'> = {}
+): Promise<HSCodeResult> => {
+  const digits = normalizeHSCode(code);
+  if (digits.length < 4) throw new Error("Enter an HS code with at least 4 digits.");
+
+  const cacheRequest: CacheRequest = { description: digits, region, mode: 'lookup', engineVersion: engineVersion() };
+  const cached = await readCache(cacheRequest, options, onStatusUpdate);
+  if (cached) return cached;
+
+  if (onStatusUpdate) onStatusUpdate("Checking local tariff books...");
+  const line = await findTariffLine(region, digits);
+  const siblings = await findSiblingLines(region, digits);
+  if (onStatusUpdate) onStatusUpdate(regionProfiles[region].statusMessage);
+  const providerData = await lookupTariffCode(region, digits);
+
+  const context = [
+    line || siblings.length > 0 ? formatTariffLinesContext(line ? [line, ...siblings] : siblings) : '',
+    providerData,
+  ].filter(Boolean).join("\n");
+  const useSearch = searchFor(region);
+  const contents: ModelTurn[] = [{ role: 'user', parts: [{ text: buildLookupPrompt(digits, region, context, useSearch) }] }];
+
+  let result: HSCodeResult;
+  try {
+    if (onStatusUpdate) onStatusUpdate("Compiling tariff profile...");
+    const answer = await parseWithRepair(contents, await generateClassification(contents, useSearch), useSearch, onStatusUpdate);
+    // The code under review is the user's, even if the model drifted to another one
+    answer.result.hsCode = formatHSCode(digits);
+    result = await finalizeResult(answer.result, region, useSearch, '');
+  } catch (error) {
+    if (!line) {
+      console.error("Error looking up HS Code:", error);
+      throw error;
+    }
+    console.warn("Model unavailable for code lookup; answering from the tariff book:", error);
+    result = await finalizeResult(profileFromTariffLine(line, siblings), region, false, '');
+  }
+
+  applyTariffBookFields(result, line, siblings);
+
+  if (onStatusUpdate) onStatusUpdate("Validating code against the nomenclature...");
+  result.validation = await validateHSCode(result, region);
+  return writeCache(cacheRequest, result);
+};
+
+// --- Conversational Refinement ---
+
+// Reclassifies with the whole refinement thread as context. The thread starts with the original
+// result and must end with the user's latest follow-up; 'system' messages are UI notes and are not sent.
+export const refineClassification = async (
+  productDescription: string,
+  region: TargetRegion,
+  thread: ChatMessage[],
+  evidence: EvidenceFile[] = [],
+  onStatusUpdate?: (status: string) => void,
+  clarifications?: ClarificationAnswer[]
+): Promise<HSCodeResult> => {
+  const last = thread[thread.length - 1];
+  if (!last || last.role !== 'user' || typeof last.content !== 'string') {
+    throw new Error("The refinement thread must end with a user message");
+  }
+
+  // Replay the original request so the model sees the same context it classified from
+  const useSearch = searchFor(region);
+  const liveDataContext = await gatherFirstTurnContext(productDescription, region, clarifications, onStatusUpdate);
+  const contents: ModelTurn[] = [buildFirstTurn(productDescription, region, evidence, liveDataContext, { clarifications }, onStatusUpdate)];
+
+  thread.filter(message => message.role !== 'system').forEach(message => {
+    const text = typeof message.content === 'string'
+      ? (message.role === 'user' ? buildRefinementPrompt(message.content, region) : message.content)
+      : serializeResultTurn(message.content);
+    contents.push({ role: message.role === 'user' ? 'user' : 'model', parts: [{ text }] });
+  });
+
+  try {
+    if (onStatusUpdate) onStatusUpdate("Reassessing classification...");
+    const followUps = thread.filter(message => message.role === 'user' && typeof message.content === 'string').map(message => message.content as string);
+    return await classifyConversation(contents, region, useSearch, describedByUser(productDescription, clarifications, followUps), onStatusUpdate);
+  } catch (error) {
+    console.error("Error refining HS Code:", error);
+    throw error;
+  }
+};
+
+// --- Invoice Extraction ---
+
+const INVOICE_PROMPT = `
+    The attached document is a supplier's commercial invoice or packing list.
+    Extract every goods line item exactly as printed. Do not classify the goods and do not invent values.
+
+    Return a single JSON object:
+    {
+      "supplier": "Seller name, or empty",
+      "invoiceNumber": "Invoice or packing list number, or empty",
+      "invoiceDate": "Date as printed, or empty",
+      "currency": "ISO 4217 code of the invoice prices (e.g. USD), or empty",
+      "lines": [
+        {
+          "description": "Full goods description, including material, model and specification text",
+          "quantity": 0,
+          "unitPrice": 0,
+          "origin": "Country of origin as printed, or empty",
+          "supplierCode": "Supplier's item, part or article number, or empty"
+        }
+      ]
+    }
+
+    - Use numbers without currency symbols or thousands separators for quantity and unitPrice; omit them when not printed.
+    - If only a line amount is printed, divide it by the quantity for unitPrice.
+    - A country of origin printed once for the whole document applies to every line.
+    - Skip freight, insurance, discounts, taxes and subtotal rows.
+    Do not include markdown code blocks.
+  `;
+
+const optionalString = (value: unknown) => (typeof value === 'string' || typeof value === 'number') && String(value).trim()
+  ? String(value).trim()
+  : undefined;
+
+// Reads the line items of an invoice or packing list (PDF or photo) with the multimodal model
+export const extractInvoice = async (
+  document: EvidenceFile,
+  onStatusUpdate?: (status: string) => void
+): Promise<InvoiceExtraction> => {
+  if (!canReadEvidence(document, getClassificationModel().capabilities)) {
+    throw new Error(`The configured model cannot read ${isImageEvidence(document) ? 'images' : 'PDF documents'}. Use a model with vision and document support.`);
+  }
+
+  if (onStatusUpdate) onStatusUpdate("Reading invoice line items...");
+  const text = await getClassificationModel().generate({
+    contents: [{
+      role: 'user',
+      parts: [
+        { inlineData: { data: evidenceData(document), mimeType: document.mimeType } },
+        { text: INVOICE_PROMPT },
+      ],
+    }],
+    systemInstruction: "You are a meticulous customs broker transcribing trade documents. You copy what is printed and never guess.",
+    temperature: 0,
+    useSearchGrounding: false,
+  });
+
+  const parsed = cleanAndParseJSON(text);
+  const lines: InvoiceLine[] = (Array.isArray(parsed?.lines) ? parsed.lines : [])
+    .map((line: any, index: number) => ({
+      id: `line-${index + 1}`,
+      description: optionalString(line?.description) || '',
+      quantity: parseAmount(line?.quantity),
+      unitPrice: parseAmount(line?.unitPrice),
+      origin: optionalString(line?.origin),
+      supplierCode: optionalString(line?.supplierCode),
+    }))
+    .filter((line: InvoiceLine) => line.description);
+
+  if (lines.length === 0) throw new Error("No line items were found on the document.");
+  return {
+    supplier: optionalString(parsed.supplier),
+    invoiceNumber: optionalString(parsed.invoiceNumber),
+    invoiceDate: optionalString(parsed.invoiceDate),
+    currency: optionalString(parsed.currency)?.toUpperCase().slice(0, 3),
+    lines,
+  };
+};
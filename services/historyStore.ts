@@ -0,0 +1,116 @@
+import * as XLSX from "xlsx";
+import { TargetRegion, HSCodeResult, ClassificationRecord, EvidenceFile } from "../types";
+import { STORES, getAllItems, putItem, deleteItem, clearStore } from "./localStore";
+import { getEngineInfo } from "./geminiService";
+import { normalizeResultRates, formatRate } from "./rateParser";
+import { isImageEvidence, fingerprintEvidence } from "./evidence";
+
+// --- Thumbnails ---
+
+const THUMBNAIL_SIZE = 160;
+
+// Downscales an image data URL so history records stay small. Falls back to no thumbnail
+// outside the browser or when the image cannot be decoded.
+export const createThumbnail = (dataUrl: string): Promise<string | undefined> => {
+  if (typeof document === 'undefined' || !dataUrl.startsWith('data:image')) return Promise.resolve(undefined);
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) return resolve(undefined);
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = dataUrl;
+  });
+};
+
+// --- Recording ---
+
+export const recordClassification = async (
+  input: string,
+  region: TargetRegion,
+  result: HSCodeResult,
+  evidence: EvidenceFile[] = []
+): Promise<ClassificationRecord> => {
+  const { modelId, promptVersion } = getEngineInfo();
+  const image = evidence.find(isImageEvidence);
+  const record: ClassificationRecord = {
+    id: `cls-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    input,
+    thumbnail: image ? await createThumbnail(image.dataUrl) : undefined,
+    evidenceFiles: evidence.length > 0 ? evidence.map(file => file.name) : undefined,
+    evidenceHashes: evidence.length > 0 ? evidence.map(fingerprintEvidence) : undefined,
+    region,
+    result,
+    modelId,
+    promptVersion,
+  };
+  try {
+    await putItem(STORES.history, record.id, record);
+  } catch (error) {
+    // History is an audit aid; a storage failure must not lose the classification itself
+    console.warn("[History] Failed to store classification:", error);
+  }
+  return record;
+};
+
+// --- Querying ---
+
+export interface HistoryFilters {
+  search?: string;
+  region?: TargetRegion;
+  from?: number; // Inclusive timestamp
+  to?: number;   // Inclusive timestamp
+}
+
+export const listHistory = async (filters: HistoryFilters = {}): Promise<ClassificationRecord[]> => {
+  const search = filters.search?.trim().toLowerCase();
+  const records = await getAllItems<ClassificationRecord>(STORES.history);
+  // Records written before rates were structured hold plain strings
+  records.forEach(record => normalizeResultRates(record.result));
+  return records
+    .filter(record => !filters.region || record.region === filters.region)
+    .filter(record => !filters.from || record.timestamp >= filters.from)
+    .filter(record => !filters.to || record.timestamp <= filters.to)
+    .filter(record => !search || [record.input, record.result.productName, record.result.hsCode]
+      .some(field => field?.toLowerCase().includes(search)))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteHistoryRecord = (id: string) => deleteItem(STORES.history, id);
+
+export const clearHistory = () => clearStore(STORES.history);
+
+// --- Audit Export ---
+
+export const exportAuditLog = (records: ClassificationRecord[]) => {
+  const sheetRows = records.map(record => ({
+    'Timestamp': new Date(record.timestamp).toISOString(),
+    'Input': record.input,
+    'Image': record.thumbnail ? 'Yes' : 'No',
+    'Evidence Files': (record.evidenceFiles || []).join('; '),
+    'Region': record.region,
+    'HS Code': record.result.hsCode,
+    'Tariff Name': record.result.productName,
+    'Duty Rate': formatRate(record.result.dutyRate),
+    'Tax Rate': formatRate(record.result.taxRate),
+    'Confidence (%)': record.result.confidenceScore,
+    'Reasoning': record.result.reasoning,
+    'Legal Basis': (record.result.legalBasis || []).map(citation => citation.reference).join('; '),
+    'Source': record.result.sourceReference || record.result.source || '',
+    'Validation': record.result.validation ? (record.result.validation.valid ? 'Passed' : 'Failed') : '',
+    'Model': record.modelId,
+    'Prompt Version': record.promptVersion,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheetRows), 'Audit Trail');
+  XLSX.writeFile(workbook, `Centrovert_Audit_${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
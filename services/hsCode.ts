@@ -0,0 +1,24 @@
+// --- HS Code Helpers ---
+
+// Strips dots, spaces and other separators: "8471.30.20" -> "84713020"
+export const normalizeHSCode = (code: string): string => (code || '').replace(/\D/g, '');
+
+// Codes read from spreadsheets often lose the leading zero of chapters 01-09 ("0101.21" -> 101.21).
+// HS codes always have an even number of digits, so an odd count means the zero was dropped.
+export const importedHSCode = (value: string): string => {
+  const digits = normalizeHSCode(value);
+  return digits.length % 2 === 1 ? `0${digits}` : digits;
+};
+
+// Formats a digit string in the common dotted layout: "84713020" -> "8471.30.20"
+export const formatHSCode = (code: string): string => {
+  const digits = normalizeHSCode(code);
+  if (digits.length <= 4) return digits;
+  const groups = [digits.slice(0, 4)];
+  for (let i = 4; i < digits.length; i += 2) groups.push(digits.slice(i, i + 2));
+  return groups.join('.');
+};
+
+export const chapterOf = (code: string): string => normalizeHSCode(code).slice(0, 2);
+
+export const headingOf = (code: string): string => normalizeHSCode(code).slice(0, 4);
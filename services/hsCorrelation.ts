@@ -0,0 +1,231 @@
+import { HSEdition, CorrelationRow, CorrelationTableInfo, CorrelationKind, CorrelationStep, CodeConversion, EditionNotice, HSCodeResult } from "../types";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { STORES, getAllItems, putItem, deleteItem } from "./localStore";
+import { normalizeHSCode, importedHSCode, formatHSCode } from "./hsCode";
+import bundledCorrelations from "../data/hs-correlations.json";
+
+// --- Editions ---
+
+export const HS_EDITIONS: HSEdition[] = ['HS2012', 'HS2017', 'HS2022', 'HS2027'];
+
+// The edition customs administrations apply today; HS 2027 enters into force on 1 January 2027
+export const CURRENT_EDITION: HSEdition = 'HS2022';
+
+const yearOf = (edition: HSEdition) => edition.slice(2);
+
+export const formatEdition = (edition: HSEdition) => `HS ${yearOf(edition)}`;
+
+export const nextEdition = (edition: HSEdition): HSEdition | undefined => HS_EDITIONS[HS_EDITIONS.indexOf(edition) + 1];
+
+// --- Tables ---
+
+interface StoredCorrelationTable extends CorrelationTableInfo {
+  rows: CorrelationRow[];
+}
+
+const BUILT_IN_TABLES: StoredCorrelationTable[] = bundledCorrelations.tables.map(table => ({
+  id: `builtin-${table.fromEdition}-${table.toEdition}`,
+  name: 'Bundled excerpt',
+  fromEdition: table.fromEdition as HSEdition,
+  toEdition: table.toEdition as HSEdition,
+  rowCount: table.rows.length,
+  importedAt: 0,
+  builtIn: true,
+  rows: table.rows,
+}));
+
+// WCO tables head their columns with the edition ("HS 2017", "HS2022"); headers are snake_cased on import
+const columnAliases = (edition: HSEdition, side: 'from' | 'to') => {
+  const year = yearOf(edition);
+  const generic = side === 'from'
+    ? ['from', 'from_code', 'old_code', 'source_code']
+    : ['to', 'to_code', 'new_code', 'target_code'];
+  return [`hs_${year}`, `hs${year}`, `hs_${year}_code`, `hs${year}_code`, ...generic];
+};
+
+const NOTE_ALIASES = ['note', 'notes', 'remarks', 'comments', 'description'];
+
+let tableCache: StoredCorrelationTable[] | null = null;
+
+const loadTables = async (): Promise<StoredCorrelationTable[]> => {
+  if (!tableCache) tableCache = await getAllItems<StoredCorrelationTable>(STORES.correlationTables);
+  return tableCache;
+};
+
+export const importCorrelationTable = async (
+  file: File,
+  fromEdition: HSEdition,
+  name: string = file.name
+): Promise<CorrelationTableInfo> => {
+  const toEdition = nextEdition(fromEdition);
+  if (!toEdition) throw new Error(`${formatEdition(fromEdition)} is the latest edition; there is nothing to correlate it to.`);
+
+  const rows: CorrelationRow[] = (await readRowsFromFile(file))
+    .map(row => ({
+      // Partial transfers are printed as "ex 8517.12"; only the digits matter here
+      from: importedHSCode(pickColumn(row, columnAliases(fromEdition, 'from'))).slice(0, 6),
+      to: importedHSCode(pickColumn(row, columnAliases(toEdition, 'to'))).slice(0, 6),
+      note: pickColumn(row, NOTE_ALIASES) || undefined,
+    }))
+    .filter(row => row.from.length === 6 && row.to.length === 6);
+
+  if (rows.length === 0) {
+    throw new Error(`No correlations found. Expected columns such as 'HS ${yearOf(fromEdition)}' and 'HS ${yearOf(toEdition)}' with 6-digit subheadings.`);
+  }
+
+  const table: StoredCorrelationTable = {
+    id: `correlation-${Date.now()}`,
+    name,
+    fromEdition,
+    toEdition,
+    rowCount: rows.length,
+    importedAt: Date.now(),
+    rows,
+  };
+  await putItem(STORES.correlationTables, table.id, table);
+  tableCache = null;
+  const { rows: _rows, ...info } = table;
+  return info;
+};
+
+export const listCorrelationTables = async (): Promise<CorrelationTableInfo[]> => {
+  const imported = (await loadTables()).sort((a, b) => b.importedAt - a.importedAt);
+  return [...imported, ...BUILT_IN_TABLES].map(({ rows, ...info }) => info);
+};
+
+export const deleteCorrelationTable = async (id: string): Promise<void> => {
+  await deleteItem(STORES.correlationTables, id);
+  tableCache = null;
+};
+
+// Imported tables replace the bundled excerpt for their editions. Null when nothing covers the step.
+const rowsForStep = async (fromEdition: HSEdition, toEdition: HSEdition): Promise<CorrelationRow[] | null> => {
+  const matches = (tables: StoredCorrelationTable[]) => tables.filter(t => t.fromEdition === fromEdition && t.toEdition === toEdition);
+  const imported = matches(await loadTables());
+  const tables = imported.length > 0 ? imported : matches(BUILT_IN_TABLES);
+  return tables.length > 0 ? tables.flatMap(table => table.rows) : null;
+};
+
+// --- Conversion ---
+
+const unique = <T,>(values: T[]) => Array.from(new Set(values));
+
+const kindOf = (sources: string[], targets: string[], split: boolean, merged: boolean): CorrelationKind => {
+  if (split) return merged ? 'restructured' : 'split';
+  if (merged) return 'merged';
+  return targets.every(code => sources.includes(code)) ? 'unchanged' : 'renumbered';
+};
+
+// Correlation tables are written oldest to newest; converting backwards reads them in reverse
+const convertStep = (codes: string[], rows: CorrelationRow[], forward: boolean) => {
+  const source = (row: CorrelationRow) => forward ? row.from : row.to;
+  const target = (row: CorrelationRow) => forward ? row.to : row.from;
+  const notes = new Map<string, string | undefined>();
+  let merged = false;
+
+  codes.forEach(code => {
+    const matches = rows.filter(row => source(row) === code);
+    // Codes a table does not mention were carried over unchanged
+    if (matches.length === 0) notes.set(code, undefined);
+    matches.forEach(row => {
+      notes.set(target(row), row.note || notes.get(target(row)));
+      if (unique(rows.filter(other => target(other) === target(row)).map(source)).length > 1) merged = true;
+    });
+  });
+
+  const targets = Array.from(notes.keys());
+  return { targets, notes, merged, split: targets.length > codes.length };
+};
+
+export const convertHSCode = async (code: string, fromEdition: HSEdition, toEdition: HSEdition): Promise<CodeConversion> => {
+  const digits = normalizeHSCode(code);
+  if (digits.length < 6) throw new Error("Enter at least a 6-digit subheading to convert.");
+
+  const from = HS_EDITIONS.indexOf(fromEdition);
+  const to = HS_EDITIONS.indexOf(toEdition);
+  const forward = to >= from;
+  const steps: CorrelationStep[] = [];
+  let codes = [digits.slice(0, 6)];
+  let notes = new Map<string, string | undefined>();
+  let split = false;
+  let merged = false;
+
+  for (let i = from; i !== to; i += forward ? 1 : -1) {
+    const stepFrom = HS_EDITIONS[i];
+    const stepTo = HS_EDITIONS[forward ? i + 1 : i - 1];
+    const rows = forward ? await rowsForStep(stepFrom, stepTo) : await rowsForStep(stepTo, stepFrom);
+    if (!rows) {
+      steps.push({ fromEdition: stepFrom, toEdition: stepTo, kind: 'unchanged', codes, tableLoaded: false });
+      continue;
+    }
+    const step = convertStep(codes, rows, forward);
+    steps.push({ fromEdition: stepFrom, toEdition: stepTo, kind: kindOf(codes, step.targets, step.split, step.merged), codes: step.targets, tableLoaded: true });
+    // A code the step carried over keeps the note from the step that produced it
+    notes = new Map(step.targets.map(target => [target, step.notes.get(target) ?? notes.get(target)]));
+    codes = step.targets;
+    split = split || step.split;
+    merged = merged || step.merged;
+  }
+
+  const kind = kindOf([digits.slice(0, 6)], codes, split, merged);
+
+  return {
+    code: digits,
+    fromEdition,
+    toEdition,
+    kind,
+    // An unchanged subheading keeps its national digits; anything else must be re-determined nationally
+    targets: kind === 'unchanged' ? [{ code: digits }] : codes.map(target => ({ code: target, note: notes.get(target) })),
+    steps,
+  };
+};
+
+// --- Legacy Code Detection ---
+
+// Walks the correlation steps newest first. A subheading that a step produces is valid from then
+// on; one a step only consumes was deleted, and the last edition it existed in is returned.
+export const findDeletedInEdition = async (code: string, edition: HSEdition = CURRENT_EDITION): Promise<HSEdition | undefined> => {
+  const subheading = normalizeHSCode(code).slice(0, 6);
+  if (subheading.length < 6) return undefined;
+
+  for (let i = HS_EDITIONS.indexOf(edition) - 1; i >= 0; i--) {
+    const rows = await rowsForStep(HS_EDITIONS[i], HS_EDITIONS[i + 1]);
+    if (!rows) continue;
+    if (rows.some(row => row.to === subheading)) return undefined;
+    if (rows.some(row => row.from === subheading)) return HS_EDITIONS[i];
+  }
+  return undefined;
+};
+
+const noticeFor = async (field: string, code: string): Promise<EditionNotice | undefined> => {
+  const edition = await findDeletedInEdition(code);
+  if (!edition) return undefined;
+  return { field, code, edition, conversion: await convertHSCode(code, edition, CURRENT_EDITION) };
+};
+
+// Flags the main code and the similar items when they belong to an older edition
+export const checkResultEditions = async (result: HSCodeResult): Promise<EditionNotice[]> => {
+  const notices = await Promise.all([
+    noticeFor('hsCode', result.hsCode),
+    ...(result.similarItems || []).map((item, i) => noticeFor(`similarItems[${i}].hsCode`, item.hsCode)),
+  ]);
+  return notices.filter((notice): notice is EditionNotice => !!notice);
+};
+
+const describeChange = (kind: CorrelationKind, fromEdition: HSEdition, toEdition: HSEdition, codes: string[]) => {
+  const targets = codes.map(formatHSCode).join(', ');
+  const editions = `${formatEdition(fromEdition)} → ${formatEdition(toEdition)}`;
+  switch (kind) {
+    case 'unchanged': return `${editions}: unchanged`;
+    case 'renumbered': return `${editions}: now ${targets}`;
+    case 'split': return `${editions}: split into ${targets}`;
+    case 'merged': return `${editions}: merged into ${targets}`;
+    case 'restructured': return `${editions}: split and merged into ${targets}`;
+  }
+};
+
+export const describeConversion = (conversion: CodeConversion) =>
+  describeChange(conversion.kind, conversion.fromEdition, conversion.toEdition, conversion.targets.map(target => target.code));
+
+export const describeStep = (step: CorrelationStep) =>
+  describeChange(step.kind, step.fromEdition, step.toEdition, step.codes);
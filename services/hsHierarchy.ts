@@ -0,0 +1,124 @@
+import { TargetRegion, HSNode, MatchedTariffLine } from "../types";
+import { getTariffLines } from "./tariffBook";
+import { normalizeHSCode, formatHSCode, chapterOf, headingOf } from "./hsCode";
+import nomenclature from "../data/hs-nomenclature.json";
+
+// --- Nomenclature ---
+
+const CHAPTER_TITLES: Record<string, string> = nomenclature.chapters;
+
+const padChapter = (chapter: number) => String(chapter).padStart(2, '0');
+
+const chaptersOfSection = (section: typeof nomenclature.sections[number]): string[] => {
+  const [first, last] = section.chapters;
+  const chapters: string[] = [];
+  for (let chapter = first; chapter <= last; chapter++) chapters.push(padChapter(chapter));
+  return chapters;
+};
+
+const sectionNode = (section: typeof nomenclature.sections[number]): HSNode => ({
+  id: `section-${section.number}`,
+  level: 'section',
+  code: section.number,
+  title: section.title,
+});
+
+const sectionOfChapter = (chapter: string) =>
+  nomenclature.sections.find(section => chaptersOfSection(section).includes(chapter));
+
+export const getSections = (): HSNode[] => nomenclature.sections.map(sectionNode);
+
+// --- Nodes ---
+
+// Headings and subheadings are not always printed as rows of their own in national tariff books,
+// so a code without an exact row gets a placeholder title.
+const fallbackTitle = (level: HSNode['level'], code: string) => {
+  switch (level) {
+    case 'chapter': return CHAPTER_TITLES[code] || `Chapter ${code}`;
+    case 'heading': return `Heading ${formatHSCode(code)}`;
+    case 'subheading': return `Subheading ${formatHSCode(code)}`;
+    default: return formatHSCode(code);
+  }
+};
+
+const levelOf = (digits: string): HSNode['level'] => {
+  if (digits.length <= 2) return 'chapter';
+  if (digits.length <= 4) return 'heading';
+  if (digits.length <= 6) return 'subheading';
+  return 'line';
+};
+
+// Lines come newest book first, so a code printed in several books takes the newest row
+const codeNode = (digits: string, lines: MatchedTariffLine[]): HSNode => {
+  const level = levelOf(digits);
+  const tariffLine = lines.find(line => line.code === digits);
+  return {
+    id: digits,
+    level,
+    code: digits,
+    title: level === 'chapter' ? fallbackTitle(level, digits) : tariffLine?.description || fallbackTitle(level, digits),
+    tariffLine,
+  };
+};
+
+const uniqueCodes = (codes: string[]) => Array.from(new Set(codes)).sort();
+
+export const getChildren = async (node: HSNode, region: TargetRegion): Promise<HSNode[]> => {
+  if (node.level === 'section') {
+    const section = nomenclature.sections.find(s => s.number === node.code);
+    return section ? chaptersOfSection(section).map(chapter => codeNode(chapter, [])) : [];
+  }
+  if (node.level === 'line') return [];
+
+  const lines = await getTariffLines(region);
+  const below = lines.filter(line => line.code.startsWith(node.code) && line.code !== node.code);
+  const codes = node.level === 'chapter'
+    ? below.map(line => headingOf(line.code))
+    : node.level === 'heading'
+      ? below.filter(line => line.code.length >= 6).map(line => line.code.slice(0, 6))
+      : below.filter(line => line.code.length > 6).map(line => line.code);
+
+  return uniqueCodes(codes).filter(code => code !== node.code).map(code => codeNode(code, lines));
+};
+
+// Breadcrumbs from the Section down to the code. Levels missing from the tariff book are
+// still listed so a code that is not in the book can be placed in the tree.
+export const getPath = async (code: string, region: TargetRegion): Promise<HSNode[]> => {
+  const digits = normalizeHSCode(code);
+  const section = sectionOfChapter(chapterOf(digits));
+  if (!section) return [];
+
+  const lines = await getTariffLines(region);
+  const prefixes = [2, 4, 6].filter(length => digits.length >= length).map(length => digits.slice(0, length));
+  if (digits.length > 6) prefixes.push(digits);
+  return [sectionNode(section), ...prefixes.map(prefix => codeNode(prefix, lines))];
+};
+
+// --- Search ---
+
+// A query of digits jumps by code prefix; anything else matches chapter titles and line descriptions
+export const searchHierarchy = async (query: string, region: TargetRegion, limit = 20): Promise<HSNode[]> => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const lines = await getTariffLines(region);
+  const digits = normalizeHSCode(trimmed);
+
+  if (/^[\d.\s]+$/.test(trimmed)) {
+    if (!digits) return [];
+    const chapters = digits.length <= 2
+      ? Object.keys(CHAPTER_TITLES).filter(chapter => chapter.startsWith(digits)).map(chapter => codeNode(chapter, []))
+      : [];
+    const matches = uniqueCodes(lines.map(line => line.code).filter(code => code.startsWith(digits)))
+      .map(code => codeNode(code, lines));
+    return [...chapters, ...matches].slice(0, limit);
+  }
+
+  const needle = trimmed.toLowerCase();
+  const chapters = Object.entries(CHAPTER_TITLES)
+    .filter(([, title]) => title.toLowerCase().includes(needle))
+    .map(([chapter]) => codeNode(chapter, []));
+  const matches = uniqueCodes(lines.filter(line => line.description.toLowerCase().includes(needle)).map(line => line.code))
+    .map(code => codeNode(code, lines));
+  return [...chapters, ...matches].slice(0, limit);
+};
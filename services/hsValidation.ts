@@ -0,0 +1,114 @@
+import { TargetRegion, HSCodeResult, HSCodeValidation, ValidationCheck } from "../types";
+import { normalizeHSCode, chapterOf, formatHSCode } from "./hsCode";
+import { findTariffLine, hasTariffBook } from "./tariffBook";
+import { findDeletedInEdition, convertHSCode, formatEdition, CURRENT_EDITION } from "./hsCorrelation";
+
+// --- National Code Lengths ---
+
+const CODE_LENGTHS: Record<TargetRegion, number> = {
+  [TargetRegion.SINGAPORE]: 8,
+  [TargetRegion.MALAYSIA]: 10,
+  [TargetRegion.INDIA]: 8,
+  [TargetRegion.UAE]: 8,
+  [TargetRegion.SAUDI_ARABIA]: 12,
+  [TargetRegion.QATAR]: 8,
+  [TargetRegion.OMAN]: 8,
+  [TargetRegion.BAHRAIN]: 8,
+  [TargetRegion.KUWAIT]: 8,
+  [TargetRegion.GLOBAL]: 6,
+};
+
+export const expectedCodeLength = (region: TargetRegion) => CODE_LENGTHS[region];
+
+// --- Checks ---
+
+const checkLength = (code: string, region: TargetRegion): ValidationCheck => {
+  const expected = expectedCodeLength(region);
+  const digits = normalizeHSCode(code);
+  return {
+    id: 'length',
+    label: 'Digit length',
+    passed: digits.length === expected,
+    message: digits.length === expected
+      ? `${expected}-digit code as required for ${region}.`
+      : `${region} requires ${expected} digits, got ${digits.length} ("${code}").`,
+  };
+};
+
+const checkNomenclature = async (code: string, region: TargetRegion): Promise<ValidationCheck> => {
+  if (!(await hasTariffBook(region))) {
+    return {
+      id: 'nomenclature',
+      label: 'Nomenclature',
+      passed: true,
+      skipped: true,
+      message: `No tariff book loaded for ${region}; existence not checked.`,
+    };
+  }
+  const line = await findTariffLine(region, code);
+  return {
+    id: 'nomenclature',
+    label: 'Nomenclature',
+    passed: !!line,
+    message: line
+      ? `Found in ${line.edition}: ${line.description}`
+      : `${formatHSCode(code)} does not exist in the loaded ${region} tariff book.`,
+  };
+};
+
+// Supplier paperwork often carries codes from an older HS edition; those no longer exist
+const checkEdition = async (code: string): Promise<ValidationCheck> => {
+  const edition = await findDeletedInEdition(code);
+  if (!edition) {
+    return { id: 'edition', label: 'HS edition', passed: true, message: `Not listed as deleted in the correlation tables up to ${formatEdition(CURRENT_EDITION)}.` };
+  }
+  const conversion = await convertHSCode(code, edition, CURRENT_EDITION);
+  return {
+    id: 'edition',
+    label: 'HS edition',
+    passed: false,
+    message: `${formatHSCode(code)} is an ${formatEdition(edition)} code; in ${formatEdition(CURRENT_EDITION)} it corresponds to ${conversion.targets.map(target => formatHSCode(target.code)).join(', ')}.`,
+  };
+};
+
+// Similar items are drawn from the same chapter or functionality group, so at least one
+// should share the main code's chapter. If none does, the heading is likely misplaced.
+const checkChapter = (result: HSCodeResult): ValidationCheck => {
+  const chapter = chapterOf(result.hsCode);
+  const similarChapters = (result.similarItems || []).map(item => chapterOf(item.hsCode)).filter(Boolean);
+  if (similarChapters.length === 0) {
+    return { id: 'chapter', label: 'Chapter consistency', passed: true, skipped: true, message: 'No similar items to compare.' };
+  }
+  const consistent = similarChapters.includes(chapter);
+  return {
+    id: 'chapter',
+    label: 'Chapter consistency',
+    passed: consistent,
+    message: consistent
+      ? `Heading agrees with Chapter ${chapter} of the similar items.`
+      : `Chapter ${chapter} does not match any similar item (chapters ${Array.from(new Set(similarChapters)).join(', ')}).`,
+  };
+};
+
+export const validateHSCode = async (result: HSCodeResult, region: TargetRegion): Promise<HSCodeValidation> => {
+  const checks = [
+    checkLength(result.hsCode, region),
+    await checkNomenclature(result.hsCode, region),
+    await checkEdition(result.hsCode),
+    checkChapter(result),
+  ];
+  return { valid: checks.every(check => check.passed), checks };
+};
+
+// Follow-up prompt sent when the first answer fails validation
+export const buildCorrectionPrompt = (validation: HSCodeValidation, region: TargetRegion): string => {
+  const failures = validation.checks.filter(check => !check.passed).map(check => `- ${check.label}: ${check.message}`);
+  return `
+    Your previous classification failed validation against the official ${region} nomenclature:
+    ${failures.join("\n    ")}
+
+    Re-check the tariff schedule and return a corrected classification.
+    The code MUST have exactly ${expectedCodeLength(region)} digits and exist in the current ${region} tariff book.
+    Return the full JSON object in the same structure as before, with no markdown.
+  `;
+};
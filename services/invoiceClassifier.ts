@@ -0,0 +1,105 @@
+import * as XLSX from "xlsx";
+import { TargetRegion, InvoiceExtraction, InvoiceLine, EvidenceFile } from "../types";
+import { BatchItem, BatchRow } from "./batchClassifier";
+import { calculateLandedCost } from "./landedCost";
+import { formatRate } from "./rateParser";
+import { normalizeHSCode } from "./hsCode";
+import { readEvidenceFile, evidenceBytes, MAX_EVIDENCE_BYTES } from "./evidence";
+
+// --- Document Upload ---
+
+// Invoices are read like product evidence: a PDF or a photo sent with its real MIME type
+export const readInvoiceDocument = async (file: File): Promise<EvidenceFile> => {
+  const document = await readEvidenceFile(file);
+  if (evidenceBytes([document]) > MAX_EVIDENCE_BYTES) throw new Error(`${file.name} is too large to send to the model.`);
+  return document;
+};
+
+// Invoice lines run through the batch classifier; the supplier code takes the SKU column
+export const toBatchItems = (lines: InvoiceLine[]): BatchItem[] => lines.map(line => ({
+  id: line.id,
+  description: line.description,
+  sku: line.supplierCode,
+  origin: line.origin,
+  quantity: line.quantity,
+  unitPrice: line.unitPrice,
+}));
+
+// --- Line Totals ---
+
+export interface InvoiceLineTotals {
+  lineValue?: number;
+  dutiesAndTaxes?: number; // On the invoice value; freight and insurance are not on the invoice
+  warnings: string[];
+}
+
+// Codes the user edited are not priced: the rates on the row belong to the classified code
+export const priceInvoiceLine = (row: BatchRow, region: TargetRegion, currency: string, codeEdited = false): InvoiceLineTotals => {
+  const { quantity, unitPrice } = row.item;
+  if (unitPrice === undefined) return { warnings: [] };
+  const lineValue = unitPrice * (quantity || 1);
+  if (!row.result || codeEdited) return { lineValue, warnings: [] };
+
+  const breakdown = calculateLandedCost(
+    { customsValue: unitPrice, freight: 0, insurance: 0, currency, quantity: quantity || 1 },
+    row.result,
+    region
+  );
+  return { lineValue, dutiesAndTaxes: breakdown.totalDutiesAndTaxes, warnings: breakdown.warnings };
+};
+
+export const sumInvoice = (totals: InvoiceLineTotals[]) => ({
+  value: totals.reduce((sum, t) => sum + (t.lineValue || 0), 0),
+  dutiesAndTaxes: totals.reduce((sum, t) => sum + (t.dutiesAndTaxes || 0), 0),
+});
+
+// --- Results Export ---
+
+export const exportInvoiceResults = (
+  rows: BatchRow[],
+  region: TargetRegion,
+  invoice: InvoiceExtraction,
+  currency: string,
+  editedCodes: Record<string, string>
+) => {
+  const totals = rows.map(row => priceInvoiceLine(row, region, currency, row.item.id in editedCodes));
+  const sheetRows: Record<string, string | number>[] = rows.map(({ item, status, result, error }, i) => {
+    const edited = editedCodes[item.id];
+    return {
+      'Line': i + 1,
+      'Supplier Code': item.sku || '',
+      'Description': item.description,
+      'Quantity': item.quantity ?? '',
+      'Unit Price': item.unitPrice ?? '',
+      'Currency': currency,
+      'Line Value': totals[i].lineValue ?? '',
+      'Origin': item.origin || '',
+      'HS Code': edited !== undefined ? normalizeHSCode(edited) : result?.hsCode || '',
+      'Code Edited': edited !== undefined ? 'Yes' : '',
+      'Tariff Name': result?.productName || '',
+      'Duty Rate': result && edited === undefined ? formatRate(result.dutyRate) : '',
+      'Tax Rate': result && edited === undefined ? formatRate(result.taxRate) : '',
+      'Duties & Taxes': totals[i].dutiesAndTaxes ?? '',
+      'Confidence (%)': result?.confidenceScore ?? '',
+      'Restrictions': result?.restrictions.join('; ') || '',
+      'Status': status,
+      'Error': error || '',
+    };
+  });
+  const sum = sumInvoice(totals);
+  sheetRows.push({ 'Description': 'Total', 'Line Value': sum.value, 'Duties & Taxes': sum.dutiesAndTaxes });
+
+  const header = [
+    ['Supplier', invoice.supplier || ''],
+    ['Invoice Number', invoice.invoiceNumber || ''],
+    ['Invoice Date', invoice.invoiceDate || ''],
+    ['Currency', currency],
+    ['Region', region],
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheetRows), 'Invoice Lines');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(header), 'Invoice');
+  const reference = (invoice.invoiceNumber || 'Invoice').replace(/\W+/g, '_');
+  XLSX.writeFile(workbook, `Centrovert_${reference}_${region.replace(/\W+/g, '_')}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
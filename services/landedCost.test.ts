@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLandedCost } from "./landedCost";
+import { parseRateText } from "./rateParser";
+import { HSCodeResult, TargetRegion } from "../types";
+
+const resultWith = (dutyRate: string, taxRate: string) =>
+  ({ hsCode: '85171300', dutyRate: parseRateText(dutyRate), taxRate: parseRateText(taxRate) }) as HSCodeResult;
+
+const input = { customsValue: 900, freight: 60, insurance: 40, currency: 'INR', quantity: 1 };
+
+test("cascades BCD, SWS on BCD and IGST on the value including both", () => {
+  const breakdown = calculateLandedCost(input, resultWith("10%", "18%"), TargetRegion.INDIA);
+  assert.equal(breakdown.cifValue, 1000);
+  assert.deepEqual(breakdown.lines.map(l => [l.label, l.base, l.amount]), [
+    ['Basic Customs Duty (BCD)', 1000, 100],
+    ['Social Welfare Surcharge (SWS)', 100, 10],
+    ['IGST', 1110, 199.8],
+  ]);
+  assert.equal(breakdown.totalDutiesAndTaxes, 309.8);
+  assert.equal(breakdown.landedCost, 1309.8);
+});
+
+test("reads labelled percentages when the whole cascade is in one rate", () => {
+  const cascade = "BCD 20% + SWS 5% + IGST 28%";
+  const breakdown = calculateLandedCost(input, resultWith(cascade, cascade), TargetRegion.INDIA);
+  assert.deepEqual(breakdown.lines.map(l => l.amount), [200, 10, 338.8]);
+});
+
+test("charges no SWS or IGST on an exempt line", () => {
+  const breakdown = calculateLandedCost(input, resultWith("Free", "Nil"), TargetRegion.INDIA);
+  assert.equal(breakdown.totalDutiesAndTaxes, 0);
+  assert.equal(breakdown.landedCost, 1000);
+});
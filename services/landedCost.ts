@@ -0,0 +1,217 @@
+import { TargetRegion, HSCodeResult, TariffRate } from "../types";
+import { formatRate } from "./rateParser";
+
+// --- Inputs & Outputs ---
+
+export interface LandedCostInput {
+  customsValue: number; // Per-unit invoice value
+  freight: number;      // Total for the shipment
+  insurance: number;    // Total for the shipment
+  currency: string;
+  quantity: number;
+  weightKg?: number;     // Net weight of the shipment, for per-kg specific duties
+  volumeLitres?: number; // Volume of the shipment, for per-litre specific duties
+}
+
+export interface LandedCostLine {
+  label: string;
+  base: number;
+  rateText: string;
+  amount: number;
+}
+
+export interface LandedCostBreakdown {
+  currency: string;
+  goodsValue: number;
+  cifValue: number;
+  lines: LandedCostLine[];
+  totalDutiesAndTaxes: number;
+  landedCost: number;
+  perUnit: number;
+  warnings: string[];
+}
+
+export const LOCAL_CURRENCIES: Record<TargetRegion, string> = {
+  [TargetRegion.SINGAPORE]: 'SGD',
+  [TargetRegion.MALAYSIA]: 'MYR',
+  [TargetRegion.INDIA]: 'INR',
+  [TargetRegion.UAE]: 'AED',
+  [TargetRegion.SAUDI_ARABIA]: 'SAR',
+  [TargetRegion.QATAR]: 'QAR',
+  [TargetRegion.OMAN]: 'OMR',
+  [TargetRegion.BAHRAIN]: 'BHD',
+  [TargetRegion.KUWAIT]: 'KWD',
+  [TargetRegion.GLOBAL]: 'USD',
+};
+
+// --- Rate Evaluation ---
+
+// Reads the percentage tagged with a label in a rate's original text, e.g. "SWS 10%". Each
+// text is read on its own so the end of one cannot label the start of the next.
+const labelledPercent = (rates: TariffRate[], label: string): number | null => {
+  for (const text of rates.map(rate => rate.text || '')) {
+    const before = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*%\\s*${label}`, 'i'));
+    if (before) return parseFloat(before[1]);
+    const after = text.match(new RegExp(`${label}[^0-9%]{0,12}(\\d+(?:\\.\\d+)?)\\s*%`, 'i'));
+    if (after) return parseFloat(after[1]);
+  }
+  return null;
+};
+
+interface Quantities {
+  quantity: number;
+  weightKg?: number;
+  volumeLitres?: number;
+}
+
+const specificQuantity = (unit: string, q: Quantities): number | undefined => {
+  if (unit === 'unit') return q.quantity;
+  if (unit === 'pair') return q.quantity;
+  if (unit === 'kg') return q.weightKg;
+  if (unit === 'tonne') return q.weightKg !== undefined ? q.weightKg / 1000 : undefined;
+  if (unit === 'litre') return q.volumeLitres;
+  return undefined;
+};
+
+// Amount payable for a rate on the given base value. Null when it cannot be computed
+// (unknown rate, missing weight/volume, or a specific rate in another currency).
+const rateAmount = (rate: TariffRate, base: number, q: Quantities, currency: string, warnings: string[]): number | null => {
+  switch (rate.type) {
+    case 'ad_valorem':
+      return base * rate.percent / 100;
+    case 'exempt':
+      return 0;
+    case 'specific':
+    case 'compound': {
+      const measured = specificQuantity(rate.unit, q);
+      if (measured === undefined) {
+        warnings.push(`${formatRate(rate)} needs the shipment quantity in ${rate.unit}.`);
+        return null;
+      }
+      if (rate.currency !== currency) {
+        warnings.push(`${formatRate(rate)} is in ${rate.currency}; enter values in ${rate.currency} to include it.`);
+        return null;
+      }
+      const specific = rate.amount * measured;
+      return rate.type === 'compound' ? specific + base * rate.percent / 100 : specific;
+    }
+    case 'mixed': {
+      const amounts = rate.options
+        .map(option => rateAmount(option, base, q, currency, warnings))
+        .filter((amount): amount is number => amount !== null);
+      return amounts.length > 0 ? Math.max(...amounts) : null;
+    }
+    case 'prohibited':
+      warnings.push("Import of this item is prohibited; no duty can be assessed.");
+      return null;
+    default:
+      warnings.push(`Could not interpret the rate "${formatRate(rate)}"; assumed 0.`);
+      return null;
+  }
+};
+
+// --- Cascades ---
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const line = (label: string, base: number, rate: TariffRate, amount: number | null): LandedCostLine => ({
+  label,
+  base: round(base),
+  rateText: formatRate(rate, false),
+  amount: round(amount ?? 0),
+});
+
+const TAX_LABELS: Partial<Record<TargetRegion, string>> = {
+  [TargetRegion.SINGAPORE]: 'GST',
+  [TargetRegion.MALAYSIA]: 'Sales Tax',
+  [TargetRegion.INDIA]: 'IGST',
+};
+
+interface CascadeContext {
+  cif: number;
+  result: HSCodeResult;
+  quantities: Quantities;
+  currency: string;
+  warnings: string[];
+}
+
+// India: BCD on the assessable (CIF) value, Social Welfare Surcharge on BCD,
+// then IGST on the value including BCD and SWS.
+const indiaCascade = ({ cif, result, quantities, currency, warnings }: CascadeContext): LandedCostLine[] => {
+  // Models often put the whole "BCD + SWS + IGST" cascade in one string; labelled
+  // percentages in the original text win over the first percentage parsed from it.
+  const labelled = (rate: TariffRate, label: string): TariffRate => {
+    if (rate.type !== 'ad_valorem' && rate.type !== 'unspecified') return rate;
+    const percent = labelledPercent([result.dutyRate, result.taxRate], label);
+    return percent !== null ? { type: 'ad_valorem', percent, label } : rate;
+  };
+  const dutyRate = labelled(result.dutyRate, 'BCD');
+  const igstRate = labelled(result.taxRate, 'IGST');
+  const swsPercent = labelledPercent([result.dutyRate, result.taxRate], 'SWS') ?? 10;
+  const swsRate: TariffRate = { type: 'ad_valorem', percent: swsPercent };
+
+  const bcdLine = line('Basic Customs Duty (BCD)', cif, dutyRate, rateAmount(dutyRate, cif, quantities, currency, warnings));
+  const swsLine = line('Social Welfare Surcharge (SWS)', bcdLine.amount, swsRate, bcdLine.amount * swsPercent / 100);
+  const igstBase = cif + bcdLine.amount + swsLine.amount;
+  const igstLine = line('IGST', igstBase, igstRate, rateAmount(igstRate, igstBase, quantities, currency, warnings));
+  return [bcdLine, swsLine, igstLine];
+};
+
+// Singapore, Malaysia and the GCC: duty on CIF, then GST/SST/VAT on CIF plus duty.
+const standardCascade = ({ cif, result, quantities, currency, warnings }: CascadeContext, region: TargetRegion): LandedCostLine[] => {
+  const dutyLine = line('Import Duty', cif, result.dutyRate, rateAmount(result.dutyRate, cif, quantities, currency, warnings));
+  const taxBase = cif + dutyLine.amount;
+  const taxLine = line(TAX_LABELS[region] || 'VAT', taxBase, result.taxRate, rateAmount(result.taxRate, taxBase, quantities, currency, warnings));
+  return [dutyLine, taxLine];
+};
+
+export const calculateLandedCost = (
+  input: LandedCostInput,
+  result: HSCodeResult,
+  region: TargetRegion
+): LandedCostBreakdown => {
+  const warnings: string[] = [];
+  const quantity = input.quantity > 0 ? input.quantity : 1;
+  const goodsValue = input.customsValue * quantity;
+  const cif = goodsValue + input.freight + input.insurance;
+
+  const context: CascadeContext = {
+    cif,
+    result,
+    quantities: { quantity, weightKg: input.weightKg, volumeLitres: input.volumeLitres },
+    currency: input.currency,
+    warnings,
+  };
+  const lines = region === TargetRegion.INDIA ? indiaCascade(context) : standardCascade(context, region);
+
+  const totalDutiesAndTaxes = round(lines.reduce((sum, l) => sum + l.amount, 0));
+  const landedCost = round(cif + totalDutiesAndTaxes);
+
+  return {
+    currency: input.currency,
+    goodsValue: round(goodsValue),
+    cifValue: round(cif),
+    lines,
+    totalDutiesAndTaxes,
+    landedCost,
+    perUnit: round(landedCost / quantity),
+    warnings,
+  };
+};
+
+// --- Formatting ---
+
+export const formatMoney = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatBreakdownText = (breakdown: LandedCostBreakdown): string => {
+  const { currency } = breakdown;
+  const rows = [
+    `- Goods Value: ${formatMoney(breakdown.goodsValue, currency)}`,
+    `- CIF Value: ${formatMoney(breakdown.cifValue, currency)}`,
+    ...breakdown.lines.map(l => `- ${l.label} (${l.rateText} on ${formatMoney(l.base, currency)}): ${formatMoney(l.amount, currency)}`),
+    `- Total Duties & Taxes: ${formatMoney(breakdown.totalDutiesAndTaxes, currency)}`,
+    `- Landed Cost: ${formatMoney(breakdown.landedCost, currency)} (${formatMoney(breakdown.perUnit, currency)} per unit)`,
+  ];
+  return rows.join('\n');
+};
@@ -0,0 +1,225 @@
+import { TargetRegion, CitationKind, CitationCheck, LegalCitation, LegalNote, LegalNotesCorpusInfo } from "../types";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { STORES, getAllItems, putItem, deleteItem } from "./localStore";
+import { findTariffLine } from "./tariffBook";
+import { normalizeHSCode, importedHSCode, chapterOf, headingOf } from "./hsCode";
+import bundledNotes from "../data/legal-notes.json";
+
+// --- Corpus ---
+
+const CITATION_KINDS: CitationKind[] = ['gri', 'section_note', 'chapter_note', 'subheading_note', 'heading_text', 'explanatory_note'];
+
+interface StoredLegalNotesCorpus extends LegalNotesCorpusInfo {
+  notes: LegalNote[];
+}
+
+const BUILT_IN_CORPUS: StoredLegalNotesCorpus = {
+  id: 'builtin-gri',
+  name: 'General Interpretative Rules',
+  noteCount: bundledNotes.notes.length,
+  importedAt: 0,
+  builtIn: true,
+  notes: bundledNotes.notes as LegalNote[],
+};
+
+// Headers are snake_cased on import
+const COLUMN_ALIASES = {
+  kind: ['kind', 'type', 'provision', 'category'],
+  section: ['section', 'section_number'],
+  chapter: ['chapter', 'chapter_number'],
+  note: ['note', 'note_number', 'note_no', 'rule', 'number'],
+  code: ['code', 'heading', 'subheading', 'hs_code'],
+  text: ['text', 'note_text', 'legal_text', 'content', 'body'],
+};
+
+// Published corpora label provisions in prose ("Chapter Note", "EN"); map them onto the kinds
+const parseKind = (value: string): CitationKind | undefined => {
+  const kind = value.toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '');
+  if (CITATION_KINDS.includes(kind as CitationKind)) return kind as CitationKind;
+  if (kind.startsWith('gri') || kind.startsWith('general')) return 'gri';
+  if (kind.startsWith('section')) return 'section_note';
+  if (kind.startsWith('subheading')) return 'subheading_note';
+  if (kind.startsWith('chapter')) return 'chapter_note';
+  if (kind.startsWith('heading')) return 'heading_text';
+  if (kind.startsWith('explanatory') || kind === 'en') return 'explanatory_note';
+  return undefined;
+};
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII', 'XIV', 'XV', 'XVI', 'XVII', 'XVIII', 'XIX', 'XX', 'XXI'];
+
+const normalizeSection = (value = '') => {
+  const section = value.trim().toUpperCase().replace(/^SECTION\s*/, '');
+  return /^\d+$/.test(section) ? ROMAN[Number(section) - 1] || section : section;
+};
+
+const normalizeChapter = (value = '') => {
+  const digits = normalizeHSCode(value);
+  return digits ? digits.padStart(2, '0').slice(0, 2) : '';
+};
+
+// "Rule 3 (b)", "GRI 3(b)" and "3 b" all become "3(b)"
+const normalizeNote = (value = '') => value
+  .toLowerCase()
+  .replace(/^(gri|rule|note)\s*/, '')
+  .replace(/\s+/g, '')
+  .replace(/^(\d+)([a-z])$/, '$1($2)');
+
+export const importLegalNotes = async (file: File, name: string = file.name): Promise<LegalNotesCorpusInfo> => {
+  const notes: LegalNote[] = [];
+  (await readRowsFromFile(file)).forEach(row => {
+    const kind = parseKind(pickColumn(row, COLUMN_ALIASES.kind));
+    const text = pickColumn(row, COLUMN_ALIASES.text);
+    if (!kind || !text) return;
+    const code = importedHSCode(pickColumn(row, COLUMN_ALIASES.code));
+    notes.push({
+      kind,
+      section: normalizeSection(pickColumn(row, COLUMN_ALIASES.section)) || undefined,
+      chapter: normalizeChapter(pickColumn(row, COLUMN_ALIASES.chapter)) || chapterOf(code) || undefined,
+      note: normalizeNote(pickColumn(row, COLUMN_ALIASES.note)) || undefined,
+      code: code || undefined,
+      text,
+    });
+  });
+
+  if (notes.length === 0) {
+    throw new Error("No notes found. Expected columns such as 'kind' (e.g. 'Chapter Note'), 'chapter', 'note' and 'text'.");
+  }
+
+  const corpus: StoredLegalNotesCorpus = {
+    id: `notes-${Date.now()}`,
+    name,
+    noteCount: notes.length,
+    importedAt: Date.now(),
+    notes,
+  };
+  await putItem(STORES.legalNotes, corpus.id, corpus);
+  corpusCache = null;
+  const { notes: _notes, ...info } = corpus;
+  return info;
+};
+
+let corpusCache: StoredLegalNotesCorpus[] | null = null;
+
+// Imported corpora first, so their wording wins over the bundled rules
+const loadCorpora = async (): Promise<StoredLegalNotesCorpus[]> => {
+  if (!corpusCache) {
+    const imported = await getAllItems<StoredLegalNotesCorpus>(STORES.legalNotes);
+    corpusCache = [...imported.sort((a, b) => b.importedAt - a.importedAt), BUILT_IN_CORPUS];
+  }
+  return corpusCache;
+};
+
+export const listLegalNotes = async (): Promise<LegalNotesCorpusInfo[]> =>
+  (await loadCorpora()).map(({ notes, ...info }) => info);
+
+export const deleteLegalNotes = async (id: string): Promise<void> => {
+  await deleteItem(STORES.legalNotes, id);
+  corpusCache = null;
+};
+
+// --- Citation Checks ---
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Quotes are often shortened with ellipses; each quoted fragment must appear in the provision,
+// or nearly all of the quote's words must when the model paraphrased slightly. An empty quote
+// verifies nothing.
+const quoteMatches = (quote: string, text: string) => {
+  const provision = normalizeText(text);
+  const fragments = (quote || '').split(/\.\.\.|…/).map(normalizeText).filter(Boolean);
+  if (fragments.length === 0) return false;
+  if (fragments.every(fragment => provision.includes(fragment))) return true;
+
+  const words = new Set(provision.split(' '));
+  const quoted = fragments.join(' ').split(' ').filter(word => word.length >= 3);
+  return quoted.length > 0 && quoted.filter(word => words.has(word)).length / quoted.length >= 0.8;
+};
+
+// Provisions of the same kind and Section/Chapter as the citation. An empty scope means the
+// corpus does not cover it, so a missing provision proves nothing.
+const inScope = (citation: LegalCitation, note: LegalNote) => {
+  if (note.kind !== citation.kind) return false;
+  switch (citation.kind) {
+    case 'gri': return true;
+    case 'section_note': return note.section === normalizeSection(citation.section);
+    case 'chapter_note':
+    case 'subheading_note':
+      return note.chapter === (normalizeChapter(citation.chapter) || chapterOf(citation.code || ''));
+    case 'heading_text':
+    case 'explanatory_note':
+      return chapterOf(note.code || '') === chapterOf(citation.code || '');
+  }
+};
+
+// A note cited as "3" covers "3(a)" to "3(c)"; one cited as "1(a)" is found in a corpus that
+// only splits notes by number
+const findProvision = (citation: LegalCitation, scope: LegalNote[]): LegalNote[] => {
+  if (citation.kind === 'heading_text' || citation.kind === 'explanatory_note') {
+    const code = normalizeHSCode(citation.code || '');
+    const exact = scope.filter(note => note.code === code);
+    return exact.length > 0 ? exact : scope.filter(note => note.code === headingOf(code));
+  }
+  // GRI are often cited by reference alone ("GRI 3(b)")
+  const key = normalizeNote(citation.note || (citation.kind === 'gri' ? citation.reference : ''));
+  if (!key) return [];
+  const exact = scope.filter(note => note.note === key || note.note?.startsWith(`${key}(`));
+  if (exact.length > 0) return exact;
+  const parent = key.replace(/\(.*$/, '');
+  return scope.filter(note => note.note === parent);
+};
+
+const checkCitation = async (citation: LegalCitation, region: TargetRegion): Promise<CitationCheck> => {
+  // Without a quote there is nothing to compare against the corpus
+  if (!citation.text?.trim()) return { status: 'unchecked' };
+  for (const corpus of await loadCorpora()) {
+    const scope = corpus.notes.filter(note => inScope(citation, note));
+    if (scope.length === 0) continue;
+    const provision = findProvision(citation, scope);
+    if (provision.length === 0) return { status: 'not_found', source: corpus.name };
+    const text = provision.map(note => note.text).join(' ');
+    return quoteMatches(citation.text, text)
+      ? { status: 'verified', source: corpus.name }
+      : { status: 'quote_mismatch', source: corpus.name, corpusText: text };
+  }
+
+  // Heading texts are printed in the tariff book as well
+  if (citation.kind === 'heading_text' && citation.code) {
+    const line = await findTariffLine(region, citation.code);
+    if (line) {
+      const source = `${line.edition} (${line.bookName})`;
+      return quoteMatches(citation.text, line.description)
+        ? { status: 'verified', source }
+        : { status: 'quote_mismatch', source, corpusText: line.description };
+    }
+  }
+  return { status: 'unchecked' };
+};
+
+const locator = (value: unknown) => value === undefined || value === null || value === '' ? undefined : String(value);
+
+export const checkCitations = async (citations: LegalCitation[], region: TargetRegion): Promise<LegalCitation[]> =>
+  Promise.all(citations.map(async raw => {
+    // Locators are not covered by the schema check and may arrive as numbers
+    const citation = { ...raw, section: locator(raw.section), chapter: locator(raw.chapter), note: locator(raw.note), code: locator(raw.code) };
+    try {
+      return { ...citation, check: await checkCitation(citation, region) };
+    } catch (err) {
+      console.warn("[Legal Notes] Citation check failed:", err);
+      return { ...citation, check: { status: 'unchecked' } as CitationCheck };
+    }
+  }));
+
+// --- Formatting ---
+
+export const CITATION_STATUS_LABELS: Record<CitationCheck['status'], string> = {
+  verified: 'Verified',
+  quote_mismatch: 'Quote differs',
+  not_found: 'Not found in corpus',
+  unchecked: 'Not checked',
+};
+
+// Plain-text form used by the copied result and the PDF
+export const formatCitation = (citation: LegalCitation) => {
+  const status = citation.check ? ` [${CITATION_STATUS_LABELS[citation.check.status]}${citation.check.source ? `: ${citation.check.source}` : ''}]` : '';
+  return `${citation.reference}${status}\n"${citation.text}"\n${citation.relevance}`;
+};
@@ -0,0 +1,84 @@
+// --- Browser Storage (IndexedDB) ---
+// Small promise wrapper around IndexedDB. Every object store used by the app is
+// declared here; adding a store requires bumping DB_VERSION.
+
+const DB_NAME = "centrovert";
+const DB_VERSION = 6;
+
+export const STORES = {
+  tariffBooks: "tariffBooks",
+  tariffLines: "tariffLines",
+  history: "history",
+  resultCache: "resultCache",
+  correlationTables: "correlationTables",
+  legalNotes: "legalNotes",
+  controlLists: "controlLists",
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDB is unavailable outside the browser (e.g. Node tooling). Callers treat
+// a missing database as an empty one.
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getItem = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  return runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+};
+
+export const getAllItems = async <T>(store: StoreName): Promise<T[]> => {
+  if (!isStorageAvailable()) return [];
+  return runRequest<T[]>(store, 'readonly', s => s.getAll());
+};
+
+export const putItem = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await runRequest(store, 'readwrite', s => s.put(value, key));
+};
+
+export const deleteItem = async (store: StoreName, key: string): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await runRequest(store, 'readwrite', s => s.delete(key));
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await runRequest(store, 'readwrite', s => s.clear());
+};
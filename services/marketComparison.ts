@@ -0,0 +1,103 @@
+import { TargetRegion, HSCodeResult, TariffRate, EvidenceFile } from "../types";
+import { identifyHSCode } from "./geminiService";
+import { recordClassification } from "./historyStore";
+import { normalizeHSCode } from "./hsCode";
+import { ratesEqual } from "./rateParser";
+
+// --- Parallel Classification ---
+
+export interface MarketEntry {
+  region: TargetRegion;
+  result?: HSCodeResult;
+  error?: string;
+}
+
+export const compareMarkets = async (
+  productDescription: string,
+  regions: TargetRegion[],
+  evidence: EvidenceFile[] = [],
+  onStatusUpdate?: (status: string) => void
+): Promise<MarketEntry[]> => {
+  let finished = 0;
+  const report = () => {
+    if (onStatusUpdate) onStatusUpdate(`Classified ${finished} of ${regions.length} markets...`);
+  };
+  report();
+
+  const settled = await Promise.allSettled(regions.map(async region => {
+    try {
+      const result = await identifyHSCode(productDescription, region, evidence);
+      await recordClassification(productDescription, region, result, evidence);
+      return result;
+    } finally {
+      finished++;
+      report();
+    }
+  }));
+
+  return settled.map((outcome, i) => outcome.status === 'fulfilled'
+    ? { region: regions[i], result: outcome.value }
+    : { region: regions[i], error: outcome.reason?.message || "Classification failed" });
+};
+
+// --- Difference Detection ---
+
+export type CodeDifference = 'same' | 'national' | 'subheading';
+
+export interface MarketDifferences {
+  // How each market's code relates to the others: identical, same 6-digit subheading
+  // with a different national split, or a different international subheading
+  hsCode: Record<string, CodeDifference>;
+  dutyRate: boolean;
+  taxRate: boolean;
+  // Items only found in one market, keyed by region
+  restrictions: Record<string, string[]>;
+  requiredDocuments: Record<string, string[]>;
+}
+
+const significantTokens = (text: string) => new Set(
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 3)
+);
+
+// Two list items are treated as the same requirement when they share most of their terms;
+// the model rarely words the same requirement identically for two markets.
+const isSameRequirement = (a: string, b: string) => {
+  const tokensA = significantTokens(a);
+  const tokensB = significantTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return shared / Math.min(tokensA.size, tokensB.size) >= 0.5;
+};
+
+const uniqueItems = (entries: MarketEntry[], field: 'restrictions' | 'requiredDocuments') => {
+  const unique: Record<string, string[]> = {};
+  entries.forEach(entry => {
+    const others = entries.filter(other => other !== entry).flatMap(other => other.result?.[field] || []);
+    unique[entry.region] = (entry.result?.[field] || []).filter(item => !others.some(other => isSameRequirement(item, other)));
+  });
+  return unique;
+};
+
+export const findMarketDifferences = (entries: MarketEntry[]): MarketDifferences => {
+  const classified = entries.filter(entry => entry.result);
+  const codes = classified.map(entry => normalizeHSCode(entry.result!.hsCode));
+
+  const hsCode: Record<string, CodeDifference> = {};
+  classified.forEach((entry, i) => {
+    const code = codes[i];
+    const others = codes.filter((_, j) => j !== i);
+    if (others.every(other => other === code)) hsCode[entry.region] = 'same';
+    else if (others.every(other => other.slice(0, 6) === code.slice(0, 6))) hsCode[entry.region] = 'national';
+    else hsCode[entry.region] = 'subheading';
+  });
+
+  const distinct = (rates: TariffRate[]) => rates.some(rate => !ratesEqual(rate, rates[0]));
+
+  return {
+    hsCode,
+    dutyRate: distinct(classified.map(entry => entry.result!.dutyRate)),
+    taxRate: distinct(classified.map(entry => entry.result!.taxRate)),
+    restrictions: uniqueItems(classified, 'restrictions'),
+    requiredDocuments: uniqueItems(classified, 'requiredDocuments'),
+  };
+};
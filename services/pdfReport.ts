@@ -0,0 +1,494 @@
+import { jsPDF } from "jspdf";
+import { TargetRegion, HSCodeResult } from "../types";
+import { formatHSCode } from "./hsCode";
+import { formatRate, describeRateType } from "./rateParser";
+import { describeConversion, formatEdition } from "./hsCorrelation";
+import { CITATION_STATUS_LABELS, formatCitation } from "./legalNotes";
+import { LandedCostBreakdown, formatBreakdownText } from "./landedCost";
+import { OriginReport, formatOriginReportText } from "./rulesOfOrigin";
+import { findPreferentialRates, formatPreferencesText, countryName } from "./preferentialRates";
+
+// --- Branding ---
+
+export interface ReportBranding {
+  companyName: string;
+  letterhead: string;   // Address and contact lines under the company name
+  logoDataUrl?: string; // PNG or JPEG
+  brandColor: string;   // Hex colour of the letterhead band
+  footerNote: string;   // e.g. "Confidential - prepared for customs broker review"
+  reviewerName: string; // Pre-fills the sign-off block
+  reviewerTitle: string;
+}
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  companyName: 'HScode.Centrovert',
+  letterhead: '',
+  brandColor: '#1a3a52',
+  footerNote: '',
+  reviewerName: '',
+  reviewerTitle: '',
+};
+
+const BRANDING_SETTING = 'centrovert.reportBranding';
+
+// Logos are kept in localStorage with the rest of the branding
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+export const getReportBranding = (): ReportBranding => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(BRANDING_SETTING) : null;
+  if (!saved) return DEFAULT_BRANDING;
+  try {
+    return { ...DEFAULT_BRANDING, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+};
+
+export const setReportBranding = (branding: ReportBranding) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(BRANDING_SETTING, JSON.stringify(branding));
+};
+
+export const readLogoFile = (file: File): Promise<string> => {
+  if (!['image/png', 'image/jpeg'].includes(file.type)) {
+    return Promise.reject(new Error("The logo must be a PNG or JPEG image."));
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    return Promise.reject(new Error("The logo must be smaller than 512 KB."));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// --- Report Contents ---
+
+export interface ReportEntry {
+  result: HSCodeResult;
+  region: TargetRegion;
+  input?: string;  // The product as described by the user
+  origin?: string; // ISO country of origin, for preferential rates
+  landedCost?: LandedCostBreakdown | null;
+  originReport?: OriginReport | null;
+}
+
+export interface ReportOptions {
+  title?: string;
+  branding?: ReportBranding;
+}
+
+type RGB = [number, number, number];
+
+const NAVY: RGB = [26, 58, 82];
+const ELECTRIC: RGB = [0, 102, 255];
+const SLATE: RGB = [100, 116, 139];
+const BODY: RGB = [50, 50, 50];
+const RED: RGB = [220, 38, 38];
+const AMBER: RGB = [217, 119, 6];
+
+const hexToRgb = (hex: string): RGB => {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : NAVY;
+};
+
+// The built-in PDF fonts only cover Latin-1; symbols outside it print as garbage
+const SUBSTITUTES: Record<string, string> = {
+  '–': '-', '—': '-', '−': '-', '‘': "'", '’': "'", '“': '"', '”': '"',
+  '≤': '<=', '≥': '>=', '→': '->', '•': '-', '…': '...', '✓': 'OK', '✗': 'X',
+};
+
+const pdfText = (text: string) => text
+  .replace(/[–—−‘’“”≤≥→•…✓✗]/g, char => SUBSTITUTES[char])
+  .replace(/[^\n\x20-\xFF]/g, '?');
+
+// --- Layout ---
+
+const MARGIN = 14;
+const PAGE_TOP = 28;        // First baseline below the running header
+const FOOTER_SPACE = 22;    // Kept clear at the bottom of every page for the footer
+const RUNNING_HEADER = 14;
+
+interface TextStyle {
+  size: number;
+  color: RGB;
+  bold?: boolean;
+}
+
+const BODY_STYLE: TextStyle = { size: 10, color: BODY };
+const MUTED_STYLE: TextStyle = { size: 8, color: SLATE };
+
+const lineHeight = (size: number) => size * 0.5;
+
+// Flows text down the page and starts a new page whenever the next line would reach the footer
+const createWriter = (doc: jsPDF, firstTop: number) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const bottom = doc.internal.pageSize.getHeight() - FOOTER_SPACE;
+  const width = pageWidth - MARGIN * 2;
+  let y = firstTop;
+
+  const setStyle = (style: TextStyle) => {
+    doc.setFont('helvetica', style.bold ? 'bold' : 'normal');
+    doc.setFontSize(style.size);
+    doc.setTextColor(...style.color);
+  };
+
+  const pageBreak = () => {
+    doc.addPage();
+    y = PAGE_TOP;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) pageBreak();
+  };
+
+  const split = (text: string, style: TextStyle, maxWidth: number): string[] => {
+    setStyle(style);
+    return doc.splitTextToSize(pdfText(text), maxWidth);
+  };
+
+  const text = (content: string, style: TextStyle = BODY_STYLE, indent = 0) => {
+    split(content, style, width - indent).forEach((line: string) => {
+      ensureSpace(lineHeight(style.size));
+      setStyle(style);
+      doc.text(line, MARGIN + indent, y);
+      y += lineHeight(style.size);
+    });
+  };
+
+  const gap = (height: number) => {
+    y += height;
+  };
+
+  // Section titles stay on the page with at least the first two lines of their content
+  const heading = (title: string, color: RGB = NAVY) => {
+    ensureSpace(6 + lineHeight(BODY_STYLE.size) * 2);
+    text(title.toUpperCase(), { size: 10, color, bold: true });
+    gap(1);
+  };
+
+  const section = (title: string, content: string) => {
+    heading(title);
+    text(content);
+    gap(6);
+  };
+
+  const rule = (color: RGB = ELECTRIC) => {
+    ensureSpace(6);
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, y, pageWidth - MARGIN, y);
+    y += 8;
+  };
+
+  // Column widths are fractions of the text width; the header row repeats after a page break
+  const table = (columns: { header: string; width: number }[], rows: string[][]) => {
+    const widths = columns.map(column => column.width * width);
+    const cellStyle: TextStyle = { size: 9, color: BODY };
+    const headerStyle: TextStyle = { size: 8, color: NAVY, bold: true };
+    const rowLines = (cells: string[], style: TextStyle) => cells.map((cell, i) => split(cell || '-', style, widths[i] - 3));
+
+    const drawRow = (lines: string[][], style: TextStyle, shaded: boolean) => {
+      const height = Math.max(...lines.map(cell => cell.length)) * lineHeight(style.size) + 3;
+      if (shaded) {
+        doc.setFillColor(241, 245, 249);
+        doc.rect(MARGIN, y - lineHeight(style.size), width, height, 'F');
+      }
+      let x = MARGIN;
+      lines.forEach((cell, i) => {
+        setStyle(style);
+        cell.forEach((line, j) => doc.text(line, x + 1, y + j * lineHeight(style.size)));
+        x += widths[i];
+      });
+      y += height;
+    };
+
+    const header = rowLines(columns.map(column => column.header.toUpperCase()), headerStyle);
+    const headerHeight = lineHeight(headerStyle.size) + 3;
+    ensureSpace(headerHeight + lineHeight(cellStyle.size) * 2);
+    drawRow(header, headerStyle, true);
+    rows.forEach(row => {
+      const lines = rowLines(row, cellStyle);
+      const height = Math.max(...lines.map(cell => cell.length)) * lineHeight(cellStyle.size) + 3;
+      if (y + height > bottom) {
+        pageBreak();
+        drawRow(header, headerStyle, true);
+      }
+      drawRow(lines, cellStyle, false);
+    });
+    gap(4);
+  };
+
+  // A labelled line to write on, with the value printed above it when known
+  const signatureLine = (label: string, value = '') => {
+    ensureSpace(10);
+    setStyle({ size: 9, color: SLATE, bold: true });
+    doc.text(label.toUpperCase(), MARGIN, y);
+    doc.setDrawColor(...SLATE);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN + 45, y + 1, pageWidth - MARGIN, y + 1);
+    if (value) {
+      setStyle(BODY_STYLE);
+      doc.text(pdfText(value), MARGIN + 46, y);
+    }
+    y += 10;
+  };
+
+  return { text, gap, heading, section, rule, table, signatureLine, pageBreak, ensureSpace };
+};
+
+type ReportWriter = ReturnType<typeof createWriter>;
+
+// --- Letterhead, Header & Footer ---
+
+const letterheadHeight = (branding: ReportBranding) =>
+  Math.max(40, 26 + branding.letterhead.split('\n').filter(line => line.trim()).length * 4.5);
+
+const drawLogo = (doc: jsPDF, logo: string, right: number, top: number, maxHeight: number) => {
+  try {
+    const { width, height } = doc.getImageProperties(logo);
+    const drawHeight = Math.min(maxHeight, 24);
+    const drawWidth = Math.min(60, (width / height) * drawHeight);
+    doc.setFillColor(255, 255, 255);
+    doc.roundedRect(right - drawWidth - 4, top - 2, drawWidth + 4, drawHeight + 4, 2, 2, 'F');
+    doc.addImage(logo, logo.startsWith('data:image/png') ? 'PNG' : 'JPEG', right - drawWidth - 2, top, drawWidth, drawHeight);
+  } catch (e) {
+    console.warn("[Report] Could not draw the logo:", e);
+  }
+};
+
+const drawLetterhead = (doc: jsPDF, branding: ReportBranding) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const height = letterheadHeight(branding);
+  doc.setFillColor(...hexToRgb(branding.brandColor));
+  doc.rect(0, 0, pageWidth, height, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.text(pdfText(branding.companyName || DEFAULT_BRANDING.companyName), MARGIN, 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  branding.letterhead.split('\n').filter(line => line.trim()).forEach((line, i) => {
+    doc.text(pdfText(line.trim()), MARGIN, 28 + i * 4.5);
+  });
+  if (branding.logoDataUrl) drawLogo(doc, branding.logoDataUrl, pageWidth - MARGIN, 8, height - 16);
+};
+
+const drawRunningHeader = (doc: jsPDF, branding: ReportBranding, title: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFillColor(...hexToRgb(branding.brandColor));
+  doc.rect(0, 0, pageWidth, RUNNING_HEADER, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text(pdfText(branding.companyName || DEFAULT_BRANDING.companyName), MARGIN, 9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(pdfText(title), pageWidth - MARGIN, 9, { align: 'right' });
+};
+
+const drawFooter = (doc: jsPDF, branding: ReportBranding, page: number, pages: number, reference: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - 12;
+  doc.setDrawColor(226, 232, 240);
+  doc.setLineWidth(0.3);
+  doc.line(MARGIN, y - 5, pageWidth - MARGIN, y - 5);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...SLATE);
+  doc.text(pdfText(branding.footerNote || `Generated by HScode.Centrovert on ${new Date().toLocaleDateString()}`), MARGIN, y);
+  doc.text(reference, pageWidth / 2, y, { align: 'center' });
+  doc.text(`Page ${page} of ${pages}`, pageWidth - MARGIN, y, { align: 'right' });
+};
+
+// --- Sections ---
+
+const entryLabel = (entry: ReportEntry) => `${entry.result.productName} (${entry.region})`;
+
+const writeSummary = (w: ReportWriter, entries: ReportEntry[]) => {
+  w.heading('Summary', ELECTRIC);
+  w.table(
+    [
+      { header: '#', width: 0.05 },
+      { header: 'Product', width: 0.3 },
+      { header: 'Market', width: 0.14 },
+      { header: 'HS Code', width: 0.15 },
+      { header: 'Duty', width: 0.14 },
+      { header: 'Tax', width: 0.12 },
+      { header: 'Conf.', width: 0.1 },
+    ],
+    entries.map(({ result, region, input }, i) => [
+      String(i + 1),
+      input && input !== result.productName ? `${result.productName}\n${input}` : result.productName,
+      region,
+      `${result.hsCode}${result.validation && !result.validation.valid ? ' (unverified)' : ''}`,
+      formatRate(result.dutyRate),
+      formatRate(result.taxRate),
+      `${result.confidenceScore}%`,
+    ])
+  );
+};
+
+const writeEntry = (w: ReportWriter, entry: ReportEntry, index: number, total: number) => {
+  const { result, region, origin, landedCost, originReport } = entry;
+  const editionNotices = result.editionNotices || [];
+  const legalBasis = result.legalBasis || [];
+
+  w.heading(total > 1 ? `Classification ${index + 1} of ${total}` : 'Classification Result', ELECTRIC);
+  w.ensureSpace(14);
+  w.gap(6);
+  w.text(result.hsCode, { size: 30, color: NAVY, bold: true });
+  w.gap(1);
+  w.text(`Market: ${region}  |  Confidence: ${result.confidenceScore}%  |  Source: ${result.sourceReference || result.source || 'AI Analysis'}`, { size: 9, color: SLATE });
+  if (result.validation && !result.validation.valid) {
+    w.text("UNVERIFIED CODE - failed nomenclature validation", { size: 9, color: RED, bold: true });
+  }
+  if (result.degraded) {
+    w.text(`INCOMPLETE RESPONSE - defaults used for: ${result.degraded.defaultedFields.join(', ')}`, { size: 9, color: AMBER });
+  }
+  if (result.cachedAt) {
+    w.text(`Cached result from ${new Date(result.cachedAt).toLocaleString()}`, MUTED_STYLE);
+  }
+  w.gap(6);
+
+  w.section("Product Name", result.productName);
+  if (entry.input && entry.input !== result.productName) w.section("Product as Described", entry.input);
+  w.section("Description", result.description);
+
+  w.rule();
+  w.table(
+    [{ header: 'Import Duty', width: 0.5 }, { header: 'Tax / VAT', width: 0.5 }],
+    [[`${formatRate(result.dutyRate)}\n${describeRateType(result.dutyRate)}`, `${formatRate(result.taxRate)}\n${describeRateType(result.taxRate)}`]]
+  );
+  w.rule();
+
+  if (result.matchedTariffLine) {
+    const line = result.matchedTariffLine;
+    w.section(`Matched Tariff Line (${line.edition})`, `${formatHSCode(line.code)} - ${line.description}${line.duty ? ` | Duty: ${line.duty}` : ''}${line.unit ? ` | Unit: ${line.unit}` : ''}`);
+  }
+  if (editionNotices.length > 0) {
+    w.section("Older HS Edition Codes", editionNotices.map(notice => `${notice.code} (${formatEdition(notice.edition)}): ${describeConversion(notice.conversion)}`).join("\n"));
+  }
+  w.section("Classification Reasoning", result.reasoning);
+  if (legalBasis.length > 0) {
+    w.section("Legal Basis", legalBasis.map(citation =>
+      `${citation.reference}${citation.check ? ` [${CITATION_STATUS_LABELS[citation.check.status]}]` : ''}: ${citation.relevance}`
+    ).join("\n") + "\nQuoted provisions are reproduced in Appendix B.");
+  }
+  if (origin) {
+    const preferences = findPreferentialRates(result.hsCode, region, origin, result.dutyRate);
+    w.section(`Preferential Rates (Origin: ${countryName(origin)})`, formatPreferencesText(preferences, origin));
+  }
+  if (originReport) {
+    w.section(`Rules of Origin (${originReport.agreement})`, formatOriginReportText(originReport));
+  }
+  if (landedCost) {
+    w.section("Landed Cost Estimate", formatBreakdownText(landedCost));
+  }
+  if (result.restrictions.length > 0) {
+    w.section("Restrictions & Requirements", result.restrictions.map(restriction => `- ${restriction}`).join("\n"));
+  }
+  if (result.requiredDocuments.length > 0) {
+    w.section("Required Documents", result.requiredDocuments.map(document => `- ${document}`).join("\n"));
+  }
+  if (result.similarItems && result.similarItems.length > 0) {
+    w.heading("Similar Classifications", ELECTRIC);
+    w.table(
+      [{ header: 'Product', width: 0.3 }, { header: 'HS Code', width: 0.18 }, { header: 'Why it differs', width: 0.52 }],
+      result.similarItems.map(item => [item.name, item.hsCode, item.reason])
+    );
+  }
+};
+
+const writeAppendix = (w: ReportWriter, entries: ReportEntry[]) => {
+  w.pageBreak();
+  w.heading("Appendix A - Sources", ELECTRIC);
+  w.table(
+    [{ header: 'Classification', width: 0.34 }, { header: 'Source', width: 0.33 }, { header: 'Tariff Book Line', width: 0.33 }],
+    entries.map(entry => [
+      entryLabel(entry),
+      `${entry.result.sourceReference || 'AI Analysis'}${entry.result.source ? ` (${entry.result.source})` : ''}`,
+      entry.result.matchedTariffLine
+        ? `${formatHSCode(entry.result.matchedTariffLine.code)} - ${entry.result.matchedTariffLine.edition}`
+        : 'No imported tariff book line',
+    ])
+  );
+  w.gap(4);
+
+  w.heading("Appendix B - Legal Notes", ELECTRIC);
+  const cited = entries.filter(entry => (entry.result.legalBasis || []).length > 0);
+  if (cited.length === 0) {
+    w.text("No GRI, legal notes or heading texts were cited.");
+    w.gap(6);
+  }
+  cited.forEach(entry => {
+    w.text(entryLabel(entry), { size: 9, color: NAVY, bold: true });
+    w.gap(1);
+    entry.result.legalBasis!.forEach(citation => {
+      w.ensureSpace(15);
+      w.text(formatCitation(citation), BODY_STYLE, 4);
+      w.gap(3);
+    });
+    w.gap(3);
+  });
+};
+
+const writeSignOff = (w: ReportWriter, branding: ReportBranding) => {
+  // The block is never split across pages
+  w.ensureSpace(95);
+  w.heading("Reviewer Sign-off", ELECTRIC);
+  w.text("The classifications above are model-assisted. A licensed customs broker or trade compliance officer must review them against the cited tariff and legal notes before they are relied on in a declaration.", MUTED_STYLE);
+  w.gap(8);
+  w.signatureLine("Reviewer", branding.reviewerName);
+  w.signatureLine("Title", branding.reviewerTitle);
+  w.signatureLine("Decision", "[  ] Approved     [  ] Approved with amendments     [  ] Rejected");
+  w.signatureLine("Comments");
+  w.signatureLine("");
+  w.signatureLine("Signature");
+  w.signatureLine("Date");
+};
+
+// --- Report ---
+
+// One or more classifications (several products, or one product in several markets) with a
+// summary, an appendix of sources and legal notes, and a sign-off block
+export const buildReport = (entries: ReportEntry[], options: ReportOptions = {}): jsPDF => {
+  const branding = options.branding || getReportBranding();
+  const generated = new Date();
+  const title = options.title || (entries.length > 1 ? 'Classification Report' : 'HS Classification Result');
+  const reference = `Ref. CV-${generated.toISOString().slice(0, 16).replace(/\D/g, '')}`;
+
+  const doc = new jsPDF();
+  const w = createWriter(doc, letterheadHeight(branding) + 14);
+
+  w.text(title, { size: 16, color: NAVY, bold: true });
+  w.text(`Generated ${generated.toLocaleString()}  |  ${Array.from(new Set(entries.map(entry => entry.region))).join(', ')}`, { size: 9, color: SLATE });
+  w.gap(8);
+
+  if (entries.length > 1) {
+    writeSummary(w, entries);
+  }
+  entries.forEach((entry, i) => {
+    if (entries.length > 1) w.pageBreak();
+    writeEntry(w, entry, i, entries.length);
+  });
+  writeAppendix(w, entries);
+  writeSignOff(w, branding);
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    if (page === 1) drawLetterhead(doc, branding);
+    else drawRunningHeader(doc, branding, title);
+    drawFooter(doc, branding, page, pages, reference);
+  }
+  return doc;
+};
+
+export const downloadReport = (entries: ReportEntry[], options: ReportOptions = {}) => {
+  if (entries.length === 0) return;
+  const fileName = entries.length === 1
+    ? `Centrovert_HS_${entries[0].result.hsCode}.pdf`
+    : `Centrovert_Report_${new Date().toISOString().slice(0, 10)}.pdf`;
+  buildReport(entries, options).save(fileName);
+};
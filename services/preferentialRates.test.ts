@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findPreferentialRates, findScheduleLine } from "./preferentialRates";
+import { parseRateText } from "./rateParser";
+import { TargetRegion } from "../types";
+
+const schedule = {
+  importers: ['Singapore', 'Malaysia'],
+  origins: ['TH'],
+  defaultRate: '0%',
+  rates: [
+    { code: '8703', rate: '10%' },
+    { code: '8703.23', rate: '5%' },
+    { code: '8703.23.10', rate: '20%', importers: ['Malaysia'] },
+  ],
+};
+
+test("takes the most specific schedule line for the code", () => {
+  assert.equal(findScheduleLine(schedule, '87032390', TargetRegion.SINGAPORE)?.rate, '5%');
+  assert.equal(findScheduleLine(schedule, '87039000', TargetRegion.SINGAPORE)?.rate, '10%');
+  assert.equal(findScheduleLine(schedule, '84713000', TargetRegion.SINGAPORE), undefined);
+});
+
+test("applies lines narrowed by importers only to those markets", () => {
+  assert.equal(findScheduleLine(schedule, '87032310', TargetRegion.MALAYSIA)?.rate, '20%');
+  assert.equal(findScheduleLine(schedule, '87032310', TargetRegion.SINGAPORE)?.rate, '5%');
+});
+
+test("reads the bundled ATIGA rice line for Malaysia only", () => {
+  const atiga = (region: TargetRegion) =>
+    findPreferentialRates('1006.30.99', region, 'TH', parseRateText('40%')).find(p => p.agreementId === 'atiga');
+  assert.deepEqual(atiga(TargetRegion.MALAYSIA)?.rate, parseRateText('20%'));
+  assert.equal(atiga(TargetRegion.MALAYSIA)?.scheduleCode, '1006');
+  assert.equal(atiga(TargetRegion.MALAYSIA)?.savingsPoints, 20);
+  assert.equal(atiga(TargetRegion.SINGAPORE)?.scheduleCode, undefined);
+  assert.deepEqual(atiga(TargetRegion.SINGAPORE)?.rate, parseRateText('0%'));
+});
+
+test("offers no preference on goods of the importing market's own origin", () => {
+  assert.deepEqual(findPreferentialRates('10063099', TargetRegion.MALAYSIA, 'MY'), []);
+});
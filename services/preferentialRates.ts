@@ -0,0 +1,128 @@
+import { TargetRegion, TariffRate, OriginCountry, PreferentialRate } from "../types";
+import { parseRateText, formatRate } from "./rateParser";
+import { normalizeHSCode, formatHSCode } from "./hsCode";
+import ftaRates from "../data/fta-rates.json";
+
+// --- Rate Tables ---
+// Schedules are bundled in data/fta-rates.json. A schedule covers one direction of trade:
+// goods from `origins` imported into `importers`.
+
+interface ScheduleLine {
+  code: string;
+  rate?: string;
+  excluded?: boolean;
+  note?: string;
+  importers?: string[]; // Narrows a line of a multi-market schedule to some of its markets
+}
+
+interface Schedule {
+  importers: string[];
+  origins: string[];
+  defaultRate?: string; // Rate for lines the schedule does not list
+  note?: string;
+  rates: ScheduleLine[];
+}
+
+interface Agreement {
+  id: string;
+  shortName: string;
+  name: string;
+  proofOfOrigin: string;
+  schedules: Schedule[];
+}
+
+const AGREEMENTS = ftaRates.agreements as Agreement[];
+
+export const ORIGIN_COUNTRIES: OriginCountry[] = ftaRates.countries;
+
+export const listAgreements = () => AGREEMENTS.map(({ id, shortName, name }) => ({ id, shortName, name }));
+
+// Goods of the importing market's own origin are not imports at all
+const REGION_COUNTRIES: Partial<Record<TargetRegion, string>> = {
+  [TargetRegion.SINGAPORE]: 'SG',
+  [TargetRegion.MALAYSIA]: 'MY',
+  [TargetRegion.INDIA]: 'IN',
+  [TargetRegion.UAE]: 'AE',
+  [TargetRegion.SAUDI_ARABIA]: 'SA',
+  [TargetRegion.QATAR]: 'QA',
+  [TargetRegion.OMAN]: 'OM',
+  [TargetRegion.BAHRAIN]: 'BH',
+  [TargetRegion.KUWAIT]: 'KW',
+};
+
+export const countryName = (code: string) => ORIGIN_COUNTRIES.find(country => country.code === code)?.name || code;
+
+// --- Lookup ---
+
+// Ad valorem share of a rate; null for specific and other rates that cannot be compared
+const percentOf = (rate: TariffRate): number | null => {
+  if (rate.type === 'ad_valorem') return rate.percent;
+  if (rate.type === 'exempt') return 0;
+  return null;
+};
+
+// The most specific schedule line whose code is a prefix of the classified code
+export const findScheduleLine = (schedule: Schedule, digits: string, region: TargetRegion) => schedule.rates
+  .filter(line => !line.importers || line.importers.includes(region))
+  .filter(line => digits.startsWith(normalizeHSCode(line.code)))
+  .sort((a, b) => normalizeHSCode(b.code).length - normalizeHSCode(a.code).length)[0];
+
+export const findPreferentialRates = (
+  code: string,
+  region: TargetRegion,
+  origin: string,
+  mfnRate?: TariffRate
+): PreferentialRate[] => {
+  const digits = normalizeHSCode(code);
+  if (!origin || !digits || REGION_COUNTRIES[region] === origin) return [];
+
+  const preferences: PreferentialRate[] = [];
+  AGREEMENTS.forEach(agreement => {
+    agreement.schedules
+      .filter(schedule => schedule.importers.includes(region) && schedule.origins.includes(origin))
+      .forEach(schedule => {
+        const line = findScheduleLine(schedule, digits, region);
+        const rateText = line ? line.rate : schedule.defaultRate;
+        const rate = !line?.excluded && rateText ? parseRateText(rateText) : undefined;
+        const mfnPercent = mfnRate ? percentOf(mfnRate) : null;
+        const preferentialPercent = rate ? percentOf(rate) : null;
+
+        preferences.push({
+          agreementId: agreement.id,
+          agreement: agreement.shortName,
+          agreementName: agreement.name,
+          rate,
+          excluded: line?.excluded || undefined,
+          savingsPoints: mfnPercent !== null && preferentialPercent !== null ? Math.max(0, mfnPercent - preferentialPercent) : undefined,
+          scheduleCode: line ? normalizeHSCode(line.code) : undefined,
+          proofOfOrigin: agreement.proofOfOrigin,
+          note: line?.note || schedule.note,
+        });
+      });
+  });
+
+  // Best rate first; exclusions and unknown rates last
+  return preferences.sort((a, b) => (b.savingsPoints ?? -1) - (a.savingsPoints ?? -1));
+};
+
+// --- Formatting ---
+
+export const formatPreferentialRate = (preference: PreferentialRate) => {
+  if (preference.excluded) return 'Excluded (MFN applies)';
+  return preference.rate ? formatRate(preference.rate) : 'Not in local schedule';
+};
+
+export const formatSavings = (preference: PreferentialRate) =>
+  preference.savingsPoints === undefined ? '—' : `${Number(preference.savingsPoints.toFixed(2))} pts`;
+
+// Plain-text form used by the copied result and the PDF
+export const formatPreferenceLine = (preference: PreferentialRate) =>
+  `${preference.agreement}: ${formatPreferentialRate(preference)}`
+  + (preference.savingsPoints !== undefined ? ` (saves ${formatSavings(preference)} vs MFN)` : '')
+  + (preference.scheduleCode ? ` [schedule line ${formatHSCode(preference.scheduleCode)}]` : '')
+  + `\n  Proof of origin: ${preference.proofOfOrigin}`
+  + (preference.note ? `\n  Note: ${preference.note}` : '');
+
+export const formatPreferencesText = (preferences: PreferentialRate[], origin: string) => preferences.length > 0
+  ? preferences.map(formatPreferenceLine).join('\n')
+  : `No trade agreement in the local rate tables covers goods from ${countryName(origin)}; MFN applies.`;
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseRateText } from "./rateParser";
+
+test("parses ad valorem, specific and mixed rates", () => {
+  assert.deepEqual(parseRateText("5%"), { text: "5%", label: undefined, type: 'ad_valorem', percent: 5 });
+  assert.equal(parseRateText("AED 2/kg").type, 'specific');
+  assert.equal(parseRateText("5% or SAR 10/unit, whichever is higher").type, 'mixed');
+  assert.equal(parseRateText("Free").type, 'exempt');
+});
+
+test("marks bans as prohibited", () => {
+  ["Prohibited", "Import ban", "Not permitted", "Banned under the Arms Act"].forEach(text =>
+    assert.equal(parseRateText(text).type, 'prohibited', text));
+});
+
+test("does not mark negated or excluded prohibitions as prohibited", () => {
+  assert.equal(parseRateText("Not prohibited").type, 'unspecified');
+  assert.equal(parseRateText("No import ban").type, 'unspecified');
+  assert.equal(parseRateText("Prohibited items excluded").type, 'unspecified');
+  assert.equal(parseRateText("Exempted from the prohibition").type, 'unspecified');
+  assert.equal(parseRateText("Not prohibited; 5%").type, 'ad_valorem');
+});
+
+test("keeps a ban when an unrelated exclusion is mentioned", () => {
+  assert.equal(parseRateText("Prohibited; excluded from ATIGA concession").type, 'prohibited');
+  assert.equal(parseRateText("Import prohibited, exempted from duty").type, 'prohibited');
+});
@@ -0,0 +1,160 @@
+import { TariffRate, AdValoremRate, SpecificRate, HSCodeResult } from "../types";
+
+// --- Legacy String Parsing ---
+// Older results (and models that ignore the structured schema) return rates as free
+// text such as "5%", "9% GST", "AED 2/kg" or "5% or SAR 10/unit, whichever is higher".
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  'rs': 'INR', 'rs.': 'INR', '₹': 'INR',
+  's$': 'SGD', 'rm': 'MYR', '$': 'USD', 'us$': 'USD',
+  'qr': 'QAR', 'ro': 'OMR', 'bd': 'BHD', 'kd': 'KWD', '€': 'EUR',
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  'kgs': 'kg', 'kilogram': 'kg', 'kilograms': 'kg',
+  'l': 'litre', 'lit': 'litre', 'liter': 'litre', 'liters': 'litre', 'litres': 'litre',
+  'u': 'unit', 'units': 'unit', 'piece': 'unit', 'pieces': 'unit', 'pc': 'unit', 'pcs': 'unit', 'no': 'unit',
+  'tonne': 'tonne', 'ton': 'tonne', 'tons': 'tonne', 'pairs': 'pair',
+};
+
+const SPECIFIC_PATTERN = /(AED|SAR|INR|SGD|MYR|USD|QAR|OMR|BHD|KWD|EUR|US\$|S\$|Rs\.?|RM|QR|RO|BD|KD|₹|\$|€)\s*([\d,]+(?:\.\d+)?)\s*(?:\/|per)\s*([a-z0-9]+)/i;
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s*%/;
+const LABEL_PATTERN = /\b(IGST|BCD|SWS|GST|VAT|SST|Sales Tax|Service Tax|Excise|Customs Duty)\b/i;
+// A ban unless the prohibition itself is negated or excluded: "Not prohibited", "No import ban",
+// "Prohibited items excluded", "Exempted from the prohibition". An exclusion from anything else
+// ("Prohibited; excluded from ATIGA concession") leaves the ban in place.
+const PROHIBITED_PATTERN = /\b(prohibited|prohibition|banned|not permitted|import ban)\b/i;
+const NOT_PROHIBITED_PATTERN = new RegExp([
+  /\b(not|no|non)[\s-]+(import\s+)?(prohibited|prohibition|banned|ban)\b/.source,
+  /\b(prohibited|banned)\s+(items|goods|articles)\s+(are\s+)?(excluded|exempted)\b/.source,
+  /\b(excluded|exempt|exempted)\s+from\s+(the\s+)?(import\s+)?(prohibition|ban)\b/.source,
+].join('|'), 'i');
+
+const normalizeCurrency = (raw: string) => CURRENCY_ALIASES[raw.toLowerCase()] || raw.toUpperCase();
+const normalizeUnit = (raw: string) => UNIT_ALIASES[raw.toLowerCase()] || raw.toLowerCase();
+
+export const parseRateText = (text: string, label?: string): TariffRate => {
+  const trimmed = (text || '').trim();
+  const foundLabel = label || trimmed.match(LABEL_PATTERN)?.[1];
+  const base = { text: trimmed || undefined, label: foundLabel };
+
+  if (!trimmed) return { type: 'unspecified' };
+  if (PROHIBITED_PATTERN.test(trimmed) && !NOT_PROHIBITED_PATTERN.test(trimmed)) return { ...base, type: 'prohibited' };
+
+  const percentMatch = trimmed.match(PERCENT_PATTERN);
+  const specificMatch = trimmed.match(SPECIFIC_PATTERN);
+
+  const adValorem: AdValoremRate | null = percentMatch
+    ? { type: 'ad_valorem', percent: parseFloat(percentMatch[1]) }
+    : null;
+  const specific: SpecificRate | null = specificMatch
+    ? {
+        type: 'specific',
+        currency: normalizeCurrency(specificMatch[1]),
+        amount: parseFloat(specificMatch[2].replace(/,/g, '')),
+        unit: normalizeUnit(specificMatch[3]),
+      }
+    : null;
+
+  if (adValorem && specific) {
+    if (/whichever|higher|greater|\bor\b/i.test(trimmed)) {
+      return { ...base, type: 'mixed', options: [adValorem, specific] };
+    }
+    return { ...base, type: 'compound', percent: adValorem.percent, amount: specific.amount, currency: specific.currency, unit: specific.unit };
+  }
+  if (specific) return { ...base, ...specific };
+  if (adValorem) return { ...base, ...adValorem };
+  if (/\b(free|nil|exempt|zero)\b/i.test(trimmed)) return { ...base, type: 'exempt' };
+  return { ...base, type: 'unspecified' };
+};
+
+// --- Structured Input ---
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Accepts a structured rate from the model, a legacy string, or anything else. Structured
+// rates with missing fields fall back to parsing their `text`.
+export const parseRate = (value: unknown, label?: string): TariffRate => {
+  if (typeof value === 'string') return parseRateText(value, label);
+  if (isNumber(value)) return { type: 'ad_valorem', percent: value, label };
+  if (!value || typeof value !== 'object') return { type: 'unspecified' };
+
+  const raw = value as Record<string, any>;
+  const base = {
+    text: typeof raw.text === 'string' ? raw.text : undefined,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : label,
+  };
+  const fallback = () => base.text ? parseRateText(base.text, base.label) : { ...base, type: 'unspecified' as const };
+  const currency = typeof raw.currency === 'string' ? normalizeCurrency(raw.currency) : '';
+  const unit = typeof raw.unit === 'string' ? normalizeUnit(raw.unit) : '';
+
+  switch (raw.type) {
+    case 'ad_valorem':
+      return isNumber(raw.percent) ? { ...base, type: 'ad_valorem', percent: raw.percent } : fallback();
+    case 'specific':
+      return isNumber(raw.amount) && currency && unit
+        ? { ...base, type: 'specific', amount: raw.amount, currency, unit }
+        : fallback();
+    case 'compound':
+      return isNumber(raw.percent) && isNumber(raw.amount) && currency && unit
+        ? { ...base, type: 'compound', percent: raw.percent, amount: raw.amount, currency, unit }
+        : fallback();
+    case 'mixed': {
+      const options = (Array.isArray(raw.options) ? raw.options : [])
+        .map((option: unknown) => parseRate(option))
+        .filter((option: TariffRate): option is AdValoremRate | SpecificRate => option.type === 'ad_valorem' || option.type === 'specific');
+      return options.length > 0 ? { ...base, type: 'mixed', options } : fallback();
+    }
+    case 'exempt':
+    case 'prohibited':
+      return { ...base, type: raw.type };
+    default:
+      return fallback();
+  }
+};
+
+// Converts legacy string rates on a stored or freshly parsed result in place
+export const normalizeResultRates = <T extends HSCodeResult>(result: T): T => {
+  result.dutyRate = parseRate(result.dutyRate as unknown);
+  result.taxRate = parseRate(result.taxRate as unknown);
+  return result;
+};
+
+// --- Display ---
+
+const formatAmount = (currency: string, amount: number, unit: string) =>
+  `${currency} ${amount.toLocaleString(undefined, { maximumFractionDigits: 3 })}/${unit}`;
+
+export const formatRate = (rate: TariffRate, withLabel = true): string => {
+  const suffix = withLabel && rate.label ? ` ${rate.label}` : '';
+  switch (rate.type) {
+    case 'ad_valorem':
+      return `${rate.percent}%${suffix}`;
+    case 'specific':
+      return `${formatAmount(rate.currency, rate.amount, rate.unit)}${suffix}`;
+    case 'compound':
+      return `${rate.percent}% + ${formatAmount(rate.currency, rate.amount, rate.unit)}${suffix}`;
+    case 'mixed':
+      return `${rate.options.map(option => formatRate(option, false)).join(' or ')}, whichever is higher${suffix}`;
+    case 'exempt':
+      return `Free${suffix}`;
+    case 'prohibited':
+      return 'Prohibited';
+    default:
+      return rate.text || 'Not specified';
+  }
+};
+
+// Plain-language name of the rate structure, shown under the rate
+export const describeRateType = (rate: TariffRate): string => ({
+  ad_valorem: 'Ad valorem',
+  specific: 'Specific',
+  compound: 'Compound',
+  mixed: 'Mixed (higher of)',
+  exempt: 'Exempt',
+  prohibited: 'Import prohibited',
+  unspecified: 'Unstructured',
+}[rate.type]);
+
+export const ratesEqual = (a: TariffRate, b: TariffRate) =>
+  formatRate(a, false).toLowerCase() === formatRate(b, false).toLowerCase();
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildCacheKey, CacheRequest } from "./resultCache";
+import { TargetRegion } from "../types";
+
+const request: CacheRequest = { description: "Stainless steel kitchen knife", region: TargetRegion.SINGAPORE, engineVersion: 'gemini:v1' };
+const photo = (data: string) => ({ name: 'knife.jpg', mimeType: 'image/jpeg', dataUrl: `data:image/jpeg;base64,${data}` });
+
+test("ignores case, spacing and punctuation in the description", () => {
+  assert.equal(buildCacheKey({ ...request, description: "  stainless-steel  KITCHEN knife! " }), buildCacheKey(request));
+  assert.notEqual(buildCacheKey({ ...request, description: "Stainless steel kitchen knife 12.5%" }), buildCacheKey(request));
+});
+
+test("keys by region, engine, mode, attachments and clarification answers", () => {
+  const key = buildCacheKey(request);
+  assert.notEqual(buildCacheKey({ ...request, region: TargetRegion.MALAYSIA }), key);
+  assert.notEqual(buildCacheKey({ ...request, engineVersion: 'gemini:v2' }), key);
+  assert.notEqual(buildCacheKey({ ...request, mode: 'lookup' }), key);
+  assert.notEqual(buildCacheKey({ ...request, evidence: [photo('AAAA')] }), key);
+  assert.notEqual(buildCacheKey({ ...request, evidence: [photo('AAAA')] }), buildCacheKey({ ...request, evidence: [photo('BBBB')] }));
+  assert.notEqual(buildCacheKey({ ...request, clarifications: [{ questionId: 'use', question: 'Use?', answer: 'Household' }] }), key);
+});
+
+test("keys attachments by content, not file name", () => {
+  const renamed = { ...photo('AAAA'), name: 'IMG_0001.jpg' };
+  assert.equal(buildCacheKey({ ...request, evidence: [renamed] }), buildCacheKey({ ...request, evidence: [photo('AAAA')] }));
+});
@@ -0,0 +1,100 @@
+import { TargetRegion, HSCodeResult, ClarificationAnswer, EvidenceFile } from "../types";
+import { STORES, getItem, putItem, deleteItem, clearStore } from "./localStore";
+import { readEnv } from "./tariffProviders";
+import { hashString } from "./hash";
+import { evidenceData } from "./evidence";
+
+// --- Cache Keys ---
+
+export interface CacheRequest {
+  description: string;
+  region: TargetRegion;
+  evidence?: EvidenceFile[];
+  clarifications?: ClarificationAnswer[];
+  mode?: 'lookup'; // Reverse lookups are keyed by the code; plain classifications leave this unset
+  engineVersion: string; // Provider, model and prompt version; a change invalidates old entries
+}
+
+interface CacheEntry {
+  key: string;
+  timestamp: number;
+  region: TargetRegion;
+  description: string;
+  engineVersion: string;
+  result: HSCodeResult;
+}
+
+// Case, spacing and punctuation do not change the product being classified
+export const normalizeDescription = (description: string) => description
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}%.]+/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export const buildCacheKey = (request: CacheRequest) => hashString(JSON.stringify([
+  normalizeDescription(request.description),
+  request.region,
+  (request.evidence || []).map(file => hashString(evidenceData(file))).join(','),
+  (request.clarifications || []).map(c => normalizeDescription(c.answer)),
+  request.engineVersion,
+  ...(request.mode ? [request.mode] : []),
+]));
+
+// --- Time To Live ---
+
+const TTL_SETTING = 'centrovert.resultCacheTtlHours';
+const DEFAULT_TTL_HOURS = 24;
+
+// A value saved in the browser wins over RESULT_CACHE_TTL_HOURS from the environment
+export const getCacheTtlHours = (): number => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(TTL_SETTING) : null;
+  const hours = parseFloat(saved || readEnv('RESULT_CACHE_TTL_HOURS') || '');
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS;
+};
+
+export const setCacheTtlHours = (hours: number) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(TTL_SETTING, String(hours));
+};
+
+// --- Reads & Writes ---
+
+// Returns the cached result with `cachedAt` set, or undefined when missing or expired
+export const getCachedResult = async (request: CacheRequest): Promise<HSCodeResult | undefined> => {
+  const key = buildCacheKey(request);
+  try {
+    const entry = await getItem<CacheEntry>(STORES.resultCache, key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.timestamp > getCacheTtlHours() * 3600 * 1000) {
+      await deleteItem(STORES.resultCache, key);
+      return undefined;
+    }
+    return { ...entry.result, cachedAt: entry.timestamp };
+  } catch (error) {
+    console.warn("[Result Cache] Lookup failed:", error);
+    return undefined;
+  }
+};
+
+export const cacheResult = async (request: CacheRequest, result: HSCodeResult): Promise<void> => {
+  // A TTL of zero turns caching off
+  if (getCacheTtlHours() === 0) return;
+  const { cachedAt, ...fresh } = result;
+  const entry: CacheEntry = {
+    key: buildCacheKey(request),
+    timestamp: Date.now(),
+    region: request.region,
+    description: normalizeDescription(request.description),
+    engineVersion: request.engineVersion,
+    result: fresh,
+  };
+  try {
+    await putItem(STORES.resultCache, entry.key, entry);
+  } catch (error) {
+    // The cache only saves time; failing to write it must not fail the classification
+    console.warn("[Result Cache] Failed to store result:", error);
+  }
+};
+
+export const invalidateCachedResult = (request: CacheRequest) => deleteItem(STORES.resultCache, buildCacheKey(request));
+
+export const clearResultCache = () => clearStore(STORES.resultCache);
@@ -0,0 +1,196 @@
+import { HSCodeResult, SchemaError, SimilarItem, LegalCitation } from "../types";
+import { normalizeHSCode } from "./hsCode";
+
+// --- Shape Validation ---
+// The model is asked for JSON in the HSCodeResult shape but nothing enforces it; a missing
+// array or a stringified number would otherwise surface as a crash in the UI.
+
+const RATE_TYPES = ['ad_valorem', 'specific', 'compound', 'mixed', 'exempt', 'prohibited', 'unspecified'];
+const SOURCES = ['Live API', 'AI Model'];
+const CITATION_KINDS = ['gri', 'section_note', 'chapter_note', 'subheading_note', 'heading_text', 'explanatory_note'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown) => value === undefined ? 'missing'
+  : value === null ? 'null'
+  : Array.isArray(value) ? 'an array'
+  : `a ${typeof value}`;
+
+const checkString = (errors: SchemaError[], value: unknown, field: string, required = true) => {
+  if (value === undefined && !required) return;
+  if (typeof value !== 'string') errors.push({ field, message: `must be a string, got ${describe(value)}` });
+  else if (required && !value.trim()) errors.push({ field, message: 'must not be empty' });
+};
+
+const checkStringArray = (errors: SchemaError[], value: unknown, field: string) => {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: `must be an array of strings, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') errors.push({ field: `${field}[${i}]`, message: `must be a string, got ${describe(item)}` });
+  });
+};
+
+// Rates may come as the structured object or a legacy string; both are normalized later
+const checkRate = (errors: SchemaError[], value: unknown, field: string) => {
+  if (typeof value === 'string' && value.trim()) return;
+  if (!isObject(value)) {
+    errors.push({ field, message: `must be a rate object or rate text, got ${describe(value)}` });
+    return;
+  }
+  if (!RATE_TYPES.includes(value.type)) {
+    errors.push({ field: `${field}.type`, message: `must be one of ${RATE_TYPES.join(', ')}` });
+  }
+};
+
+const checkHSCode = (errors: SchemaError[], value: unknown, field: string) => {
+  checkString(errors, value, field);
+  if (typeof value === 'string' && value.trim() && normalizeHSCode(value).length < 4) {
+    errors.push({ field, message: `must contain at least 4 digits, got "${value}"` });
+  }
+};
+
+export const validateResultShape = (value: unknown): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  if (!isObject(value)) return [{ field: '$', message: `response must be a JSON object, got ${describe(value)}` }];
+
+  checkHSCode(errors, value.hsCode, 'hsCode');
+  checkString(errors, value.productName, 'productName');
+  checkString(errors, value.description, 'description');
+  checkRate(errors, value.dutyRate, 'dutyRate');
+  checkRate(errors, value.taxRate, 'taxRate');
+  checkStringArray(errors, value.restrictions, 'restrictions');
+  checkString(errors, value.reasoning, 'reasoning');
+  checkStringArray(errors, value.requiredDocuments, 'requiredDocuments');
+  checkString(errors, value.sourceReference, 'sourceReference', false);
+
+  if (typeof value.confidenceScore !== 'number' || !Number.isFinite(value.confidenceScore)) {
+    errors.push({ field: 'confidenceScore', message: `must be a number, got ${describe(value.confidenceScore)}` });
+  } else if (value.confidenceScore < 0 || value.confidenceScore > 100) {
+    errors.push({ field: 'confidenceScore', message: `must be between 0 and 100, got ${value.confidenceScore}` });
+  }
+
+  if (value.source !== undefined && !SOURCES.includes(value.source)) {
+    errors.push({ field: 'source', message: `must be one of ${SOURCES.map(s => `"${s}"`).join(', ')}` });
+  }
+
+  if (!Array.isArray(value.similarItems)) {
+    errors.push({ field: 'similarItems', message: `must be an array, got ${describe(value.similarItems)}` });
+  } else {
+    value.similarItems.forEach((item: unknown, i: number) => {
+      const field = `similarItems[${i}]`;
+      if (!isObject(item)) {
+        errors.push({ field, message: `must be an object, got ${describe(item)}` });
+        return;
+      }
+      checkString(errors, item.name, `${field}.name`);
+      checkHSCode(errors, item.hsCode, `${field}.hsCode`);
+      checkString(errors, item.reason, `${field}.reason`, false);
+    });
+  }
+
+  // Optional so that answers from before citations were requested still pass
+  if (value.legalBasis !== undefined) {
+    if (!Array.isArray(value.legalBasis)) {
+      errors.push({ field: 'legalBasis', message: `must be an array, got ${describe(value.legalBasis)}` });
+    } else {
+      value.legalBasis.forEach((citation: unknown, i: number) => {
+        const field = `legalBasis[${i}]`;
+        if (!isObject(citation)) {
+          errors.push({ field, message: `must be an object, got ${describe(citation)}` });
+          return;
+        }
+        if (!CITATION_KINDS.includes(citation.kind)) {
+          errors.push({ field: `${field}.kind`, message: `must be one of ${CITATION_KINDS.join(', ')}` });
+        }
+        checkString(errors, citation.reference, `${field}.reference`);
+        checkString(errors, citation.text, `${field}.text`);
+        checkString(errors, citation.relevance, `${field}.relevance`, false);
+      });
+    }
+  }
+
+  return errors;
+};
+
+// --- Repair ---
+
+export const buildRepairPrompt = (errors: SchemaError[]) => `
+    Your previous answer does not match the required JSON structure:
+${errors.map(error => `    - ${error.field}: ${error.message}`).join('\n')}
+
+    Return the complete JSON object again with these fields corrected. Keep every other field as it was.
+    Do not include markdown code blocks or any text outside the JSON.
+  `;
+
+// --- Defaults ---
+
+const text = (value: unknown, fallback: string) => typeof value === 'string' && value.trim() ? value : fallback;
+
+const stringList = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const similarItems = (value: unknown): SimilarItem[] => (Array.isArray(value) ? value : [])
+  .filter(isObject)
+  .filter(item => typeof item.hsCode === 'string' && normalizeHSCode(item.hsCode).length >= 4)
+  .map(item => ({ name: text(item.name, item.hsCode), hsCode: item.hsCode, reason: text(item.reason, '') }));
+
+// Locators such as the chapter often come back as numbers
+const optionalText = (value: unknown) => typeof value === 'number' ? String(value)
+  : typeof value === 'string' && value.trim() ? value : undefined;
+
+const legalBasis = (value: unknown): LegalCitation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(isObject)
+    // A citation without its quoted text cannot be checked, so it is dropped rather than kept empty
+    .filter(citation => CITATION_KINDS.includes(citation.kind) && typeof citation.reference === 'string' && citation.reference.trim())
+    .filter(citation => typeof citation.text === 'string' && citation.text.trim())
+    .map(citation => ({
+      kind: citation.kind,
+      reference: citation.reference,
+      section: optionalText(citation.section),
+      chapter: optionalText(citation.chapter),
+      note: optionalText(citation.note),
+      code: optionalText(citation.code),
+      text: text(citation.text, ''),
+      relevance: text(citation.relevance, ''),
+    }));
+};
+
+const confidence = (value: unknown) => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? Math.min(100, Math.max(0, number)) : 0;
+};
+
+// Fills whatever is still invalid with safe defaults so the result can be displayed, and marks it
+// degraded. Only an answer without a usable code cannot be salvaged.
+export const applyResultDefaults = (value: unknown, errors: SchemaError[]): HSCodeResult => {
+  if (!isObject(value) || typeof value.hsCode !== 'string' || normalizeHSCode(value.hsCode).length < 4) {
+    throw new Error("Model response has no usable HS code");
+  }
+
+  const defaultedFields = Array.from(new Set(errors.map(error => error.field.split(/[.[]/)[0])));
+  const rate = (raw: unknown) => typeof raw === 'string' || (isObject(raw) && RATE_TYPES.includes(raw.type))
+    ? raw
+    : { type: 'unspecified', text: 'Not provided' };
+
+  return {
+    ...value,
+    hsCode: value.hsCode,
+    productName: text(value.productName, 'Unnamed tariff line'),
+    description: text(value.description, ''),
+    dutyRate: rate(value.dutyRate),
+    taxRate: rate(value.taxRate),
+    restrictions: stringList(value.restrictions),
+    reasoning: text(value.reasoning, 'No reasoning was provided.'),
+    legalBasis: legalBasis(value.legalBasis),
+    confidenceScore: confidence(value.confidenceScore),
+    requiredDocuments: stringList(value.requiredDocuments),
+    source: SOURCES.includes(value.source) ? value.source : 'AI Model',
+    sourceReference: typeof value.sourceReference === 'string' ? value.sourceReference : undefined,
+    similarItems: similarItems(value.similarItems),
+    degraded: { errors, defaultedFields },
+  } as HSCodeResult;
+};
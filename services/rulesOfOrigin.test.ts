@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkRulesOfOrigin, parseOriginRule, BomLine } from "./rulesOfOrigin";
+
+// ATIGA: "RVC40 or CTH" with a 10% de minimis allowance
+const check = (materials: BomLine[]) => checkRulesOfOrigin({
+  agreementId: 'atiga',
+  productCode: '8516.60.10',
+  producedIn: 'MY',
+  exWorksPrice: 1000,
+  currency: 'USD',
+  materials,
+});
+
+const material = (hsCode: string, origin: string, value: number): BomLine => ({ description: hsCode, hsCode, origin, value });
+
+test("parses alternatives and combined criteria", () => {
+  assert.deepEqual(parseOriginRule("CTSH + RVC40 or WO"), [[{ type: 'ctsh' }, { type: 'rvc', percent: 40 }], [{ type: 'wo' }]]);
+});
+
+test("computes RVC from the non-originating materials", () => {
+  const report = check([material('851680', 'CN', 300), material('7210', 'MY', 200)]);
+  assert.equal(report.nonOriginatingValue, 300);
+  assert.equal(report.rvc, 70);
+  assert.deepEqual(report.alternatives.map(a => a.passed), [true, false]);
+  assert.equal(report.qualifies, true);
+});
+
+test("passes a tariff shift when every non-originating material changes heading", () => {
+  const report = check([material('3926', 'CN', 700)]);
+  assert.equal(report.rvc, 30);
+  assert.deepEqual(report.alternatives.map(a => a.passed), [false, true]);
+  assert.equal(report.qualifies, true);
+});
+
+test("lets materials within the de minimis allowance fail the tariff shift", () => {
+  const within = check([material('851690', 'CN', 80), material('3926', 'CN', 600)]);
+  assert.equal(within.alternatives[1].passed, true);
+  assert.match(within.alternatives[1].criteria[0].explanation, /8% of the ex-works price, within the 10% de minimis/);
+
+  const beyond = check([material('851690', 'CN', 150), material('3926', 'CN', 600)]);
+  assert.equal(beyond.alternatives[1].passed, false);
+  assert.equal(beyond.qualifies, false);
+});
+
+test("treats materials of unknown origin as non-originating", () => {
+  const report = check([material('851690', '', 700)]);
+  assert.equal(report.rvc, 30);
+  assert.equal(report.qualifies, false);
+  assert.ok(report.warnings.some(w => w.includes('without a declared origin')));
+});
@@ -0,0 +1,292 @@
+import { normalizeHSCode, importedHSCode, formatHSCode } from "./hsCode";
+import { listAgreements, countryName, ORIGIN_COUNTRIES } from "./preferentialRates";
+import { formatMoney } from "./landedCost";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { parseAmount } from "./amounts";
+import originRules from "../data/origin-rules.json";
+
+// --- Rule Tables ---
+// Rules are bundled in data/origin-rules.json, keyed by the agreement ids of data/fta-rates.json.
+// A rule is written as alternatives separated by "or"; criteria joined by "+" must all be met,
+// e.g. "CTSH + RVC40" or "RVC40 or CTH".
+
+interface ProductRule {
+  code: string;
+  rule: string;
+}
+
+interface AgreementRules {
+  id: string;
+  members: string[];
+  generalRule: string;
+  deMinimis?: number; // Percent of the ex-works price non-originating materials may fail a tariff shift by
+  productRules: ProductRule[];
+}
+
+const RULES = originRules.agreements as AgreementRules[];
+
+// wo: wholly obtained; cc/cth/ctsh: change of chapter, heading or subheading; rvc: regional value content
+export type OriginCriterion =
+  | { type: 'wo' }
+  | { type: 'cc' | 'cth' | 'ctsh' }
+  | { type: 'rvc'; percent: number };
+
+// --- Inputs & Outputs ---
+
+export interface BomLine {
+  description: string;
+  hsCode: string;
+  origin: string; // ISO alpha-2 code; empty when unknown
+  value: number;
+}
+
+export interface OriginCheckInput {
+  agreementId: string;
+  productCode: string;
+  producedIn: string; // Country where the final product was made
+  exWorksPrice: number;
+  currency: string;
+  materials: BomLine[];
+}
+
+export interface CriterionResult {
+  label: string;
+  passed: boolean;
+  explanation: string;
+}
+
+export interface OriginAlternative {
+  passed: boolean;
+  criteria: CriterionResult[];
+}
+
+export interface OriginReport {
+  agreementId: string;
+  agreement: string;
+  productCode: string;
+  producedIn: string;
+  exWorksPrice: number;
+  currency: string;
+  rule: string;
+  ruleSource: string; // "Product-specific rule for 8471" or "General rule"
+  originatingValue: number;
+  nonOriginatingValue: number;
+  rvc: number;
+  alternatives: OriginAlternative[];
+  qualifies: boolean;
+  warnings: string[];
+}
+
+export const listOriginAgreements = () => listAgreements().filter(agreement => RULES.some(rules => rules.id === agreement.id));
+
+// --- Bill of Materials Import ---
+
+const BOM_COLUMNS = {
+  description: ['description', 'material', 'item', 'component', 'part'],
+  hsCode: ['hs_code', 'hscode', 'code', 'tariff_code', 'hs'],
+  origin: ['origin', 'country_of_origin', 'country', 'coo'],
+  value: ['value', 'cost', 'amount', 'price'],
+};
+
+// Accepts ISO codes or country names; anything else is left undeclared
+const originCode = (text: string) => ORIGIN_COUNTRIES.find(country =>
+  country.code === text.toUpperCase() || country.name.toLowerCase() === text.toLowerCase())?.code || '';
+
+// Reads a bill of materials from CSV, XLSX or JSON, one material per row
+export const importBillOfMaterials = async (file: File): Promise<BomLine[]> => {
+  const lines = (await readRowsFromFile(file))
+    .map(row => ({
+      description: pickColumn(row, BOM_COLUMNS.description),
+      hsCode: importedHSCode(pickColumn(row, BOM_COLUMNS.hsCode)),
+      origin: originCode(pickColumn(row, BOM_COLUMNS.origin)),
+      value: parseAmount(pickColumn(row, BOM_COLUMNS.value)) ?? 0,
+    }))
+    .filter(line => line.description || line.hsCode || line.value > 0);
+
+  if (lines.length === 0) {
+    throw new Error("No materials found. Expected columns such as description, hs_code, origin and value.");
+  }
+  return lines;
+};
+
+// --- Rule Parsing ---
+
+const CRITERION_LABELS: Record<OriginCriterion['type'], string> = {
+  wo: 'Wholly obtained',
+  cc: 'Change of chapter (CC)',
+  cth: 'Change of tariff heading (CTH)',
+  ctsh: 'Change of tariff subheading (CTSH)',
+  rvc: 'Regional value content',
+};
+
+const parseCriterion = (token: string): OriginCriterion | null => {
+  const text = token.trim().toUpperCase();
+  if (text === 'WO') return { type: 'wo' };
+  if (text === 'CC' || text === 'CTH' || text === 'CTSH') return { type: text.toLowerCase() as 'cc' | 'cth' | 'ctsh' };
+  const rvc = text.match(/^RVC\s*(\d+(?:\.\d+)?)%?$/);
+  return rvc ? { type: 'rvc', percent: parseFloat(rvc[1]) } : null;
+};
+
+export const parseOriginRule = (rule: string): OriginCriterion[][] => rule
+  .split(/\s+or\s+/i)
+  .map(alternative => alternative.split(/\s*\+\s*|\s+and\s+/i)
+    .map(parseCriterion)
+    .filter((criterion): criterion is OriginCriterion => criterion !== null))
+  .filter(criteria => criteria.length > 0);
+
+// The most specific product-specific rule for the code, or the agreement's general rule
+export const getOriginRule = (agreementId: string, code: string) => {
+  const rules = RULES.find(r => r.id === agreementId);
+  if (!rules) return null;
+  const digits = normalizeHSCode(code);
+  const productRule = rules.productRules
+    .filter(r => digits.startsWith(normalizeHSCode(r.code)))
+    .sort((a, b) => normalizeHSCode(b.code).length - normalizeHSCode(a.code).length)[0];
+  return productRule
+    ? { rule: productRule.rule, source: `Product-specific rule for ${formatHSCode(productRule.code)}` }
+    : { rule: rules.generalRule, source: 'General rule' };
+};
+
+// --- Evaluation ---
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const SHIFT_DIGITS = { cc: 2, cth: 4, ctsh: 6 };
+const SHIFT_LEVELS = { cc: 'chapter', cth: 'heading', ctsh: 'subheading' };
+
+interface Context {
+  input: OriginCheckInput;
+  rules: AgreementRules;
+  nonOriginating: BomLine[];
+  nonOriginatingValue: number;
+  rvc: number;
+}
+
+const materialName = (line: BomLine) => line.description || formatHSCode(line.hsCode) || 'Unnamed material';
+
+const evaluateCriterion = (criterion: OriginCriterion, { input, rules, nonOriginating, nonOriginatingValue, rvc }: Context): CriterionResult => {
+  const label = criterion.type === 'rvc' ? `${CRITERION_LABELS.rvc} of at least ${criterion.percent}%` : CRITERION_LABELS[criterion.type];
+  const money = (amount: number) => formatMoney(amount, input.currency);
+
+  if (criterion.type === 'wo') {
+    return nonOriginating.length === 0
+      ? { label, passed: true, explanation: 'Every material originates in a member country.' }
+      : { label, passed: false, explanation: `${nonOriginating.map(materialName).join(', ')} ${nonOriginating.length === 1 ? 'is' : 'are'} non-originating, so the product is not wholly obtained.` };
+  }
+
+  if (criterion.type === 'rvc') {
+    const passed = rvc >= criterion.percent;
+    return {
+      label,
+      passed,
+      explanation: `RVC = (ex-works price - non-originating materials) / ex-works price x 100 = (${money(input.exWorksPrice)} - ${money(nonOriginatingValue)}) / ${money(input.exWorksPrice)} x 100 = ${rvc}%, `
+        + (passed ? `at least the ${criterion.percent}% required.` : `below the ${criterion.percent}% required.`),
+    };
+  }
+
+  // Tariff shift: every non-originating material must sit in a different chapter, heading or subheading
+  const digits = SHIFT_DIGITS[criterion.type];
+  const level = SHIFT_LEVELS[criterion.type];
+  const productLevel = normalizeHSCode(input.productCode).slice(0, digits);
+  if (nonOriginating.length === 0) {
+    return { label, passed: true, explanation: 'There are no non-originating materials to change classification.' };
+  }
+
+  const failing = nonOriginating.filter(line => {
+    const materialLevel = normalizeHSCode(line.hsCode).slice(0, digits);
+    return materialLevel.length < digits || materialLevel === productLevel;
+  });
+  if (failing.length === 0) {
+    return { label, passed: true, explanation: `${nonOriginating.length === 1 ? 'The non-originating material is' : `All ${nonOriginating.length} non-originating materials are`} classified outside ${level} ${formatHSCode(productLevel)}.` };
+  }
+
+  const failingValue = round(failing.reduce((sum, line) => sum + line.value, 0));
+  const reasons = failing.map(line => normalizeHSCode(line.hsCode).length < digits
+    ? `${materialName(line)} (no ${digits}-digit code)`
+    : `${materialName(line)} (${formatHSCode(line.hsCode)})`);
+  const explanation = `${reasons.join(', ')} ${failing.length === 1 ? 'does' : 'do'} not change ${level} from ${formatHSCode(productLevel)}`;
+
+  if (rules.deMinimis !== undefined) {
+    const share = round(failingValue / input.exWorksPrice * 100);
+    if (share <= rules.deMinimis) {
+      return {
+        label,
+        passed: true,
+        explanation: `${explanation}, but ${money(failingValue)} is ${share}% of the ex-works price, within the ${rules.deMinimis}% de minimis allowance.`,
+      };
+    }
+    return { label, passed: false, explanation: `${explanation}; at ${share}% of the ex-works price they exceed the ${rules.deMinimis}% de minimis allowance.` };
+  }
+  return { label, passed: false, explanation: `${explanation}.` };
+};
+
+export const checkRulesOfOrigin = (input: OriginCheckInput): OriginReport => {
+  const rules = RULES.find(r => r.id === input.agreementId);
+  if (!rules) throw new Error(`No rules of origin are loaded for ${input.agreementId}.`);
+  if (!(input.exWorksPrice > 0)) throw new Error("Enter the ex-works price of the product.");
+
+  const agreement = listAgreements().find(a => a.id === rules.id)?.shortName || rules.id;
+  const { rule, source } = getOriginRule(rules.id, input.productCode)!;
+  const warnings: string[] = [];
+
+  const materials = input.materials.filter(line => line.value > 0);
+  // Materials of unknown origin are treated as non-originating
+  const nonOriginating = materials.filter(line => !rules.members.includes(line.origin));
+  const nonOriginatingValue = round(nonOriginating.reduce((sum, line) => sum + line.value, 0));
+  const originatingValue = round(materials.reduce((sum, line) => sum + line.value, 0) - nonOriginatingValue);
+  const rvc = round((input.exWorksPrice - nonOriginatingValue) / input.exWorksPrice * 100);
+
+  if (materials.some(line => !line.origin)) warnings.push("Materials without a declared origin were treated as non-originating.");
+  if (originatingValue + nonOriginatingValue > input.exWorksPrice) warnings.push("The materials cost more than the ex-works price; check the values entered.");
+
+  const context: Context = { input, rules, nonOriginating, nonOriginatingValue, rvc };
+  const alternatives = parseOriginRule(rule).map(criteria => {
+    const results = criteria.map(criterion => evaluateCriterion(criterion, context));
+    return { passed: results.every(r => r.passed), criteria: results };
+  });
+
+  const producedInMember = rules.members.includes(input.producedIn);
+  if (!input.producedIn) {
+    warnings.push("Select the country where the product was made.");
+  } else if (!producedInMember) {
+    warnings.push(`${countryName(input.producedIn)} is not a party to ${agreement}; the product cannot originate under it.`);
+  }
+
+  return {
+    agreementId: rules.id,
+    agreement,
+    productCode: normalizeHSCode(input.productCode),
+    producedIn: input.producedIn,
+    exWorksPrice: round(input.exWorksPrice),
+    currency: input.currency,
+    rule,
+    ruleSource: source,
+    originatingValue,
+    nonOriginatingValue,
+    rvc,
+    alternatives,
+    qualifies: producedInMember && alternatives.some(a => a.passed),
+    warnings,
+  };
+};
+
+// --- Formatting ---
+
+// Plain-text form used by the copied result and the PDF
+export const formatOriginReportText = (report: OriginReport): string => {
+  const { currency } = report;
+  const rows = [
+    `- Agreement: ${report.agreement} (goods produced in ${countryName(report.producedIn)})`,
+    `- Rule for ${formatHSCode(report.productCode)}: ${report.rule} [${report.ruleSource}]`,
+    `- Ex-works Price: ${formatMoney(report.exWorksPrice, currency)}`,
+    `- Originating Materials: ${formatMoney(report.originatingValue, currency)}`,
+    `- Non-originating Materials: ${formatMoney(report.nonOriginatingValue, currency)}`,
+    ...report.alternatives.flatMap((alternative, i) => [
+      `- Option ${i + 1}: ${alternative.passed ? 'MET' : 'NOT MET'}`,
+      ...alternative.criteria.map(c => `  [${c.passed ? 'PASS' : 'FAIL'}] ${c.label}: ${c.explanation}`),
+    ]),
+    ...report.warnings.map(warning => `- Note: ${warning}`),
+    `- Result: ${report.qualifies ? `QUALIFIES as originating under ${report.agreement}` : `DOES NOT QUALIFY under ${report.agreement}`}`,
+  ];
+  return rows.join('\n');
+};
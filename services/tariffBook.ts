@@ -0,0 +1,171 @@
+import { TargetRegion, TariffLine, TariffBookInfo, MatchedTariffLine } from "../types";
+import { readRowsFromFile, pickColumn } from "./fileImport";
+import { STORES, getItem, getAllItems, putItem, deleteItem } from "./localStore";
+import { normalizeHSCode, importedHSCode, formatHSCode } from "./hsCode";
+
+// --- Edition Presets ---
+// Which markets an imported schedule applies to.
+
+export const TARIFF_BOOK_EDITIONS: { edition: string; regions: TargetRegion[] }[] = [
+  { edition: "AHTN 2022", regions: [TargetRegion.SINGAPORE, TargetRegion.MALAYSIA] },
+  { edition: "GCC Common Tariff", regions: [TargetRegion.UAE, TargetRegion.QATAR, TargetRegion.OMAN, TargetRegion.BAHRAIN, TargetRegion.KUWAIT] },
+  { edition: "ITC-HS 2022", regions: [TargetRegion.INDIA] },
+  { edition: "ZATCA Integrated Tariff", regions: [TargetRegion.SAUDI_ARABIA] },
+  { edition: "WCO HS 2022", regions: [TargetRegion.GLOBAL] },
+];
+
+// Header aliases seen in published schedules (headers are normalized to snake_case on import)
+const COLUMN_ALIASES = {
+  code: ['code', 'hs_code', 'hscode', 'tariff_code', 'ahtn_code', 'itc_hs_code', 'tariff_item', 'item_code', 'heading', 'hs'],
+  description: ['description', 'desc', 'product_description', 'goods_description', 'article_description', 'item_description'],
+  duty: ['duty', 'duty_rate', 'rate', 'mfn', 'mfn_rate', 'customs_duty', 'import_duty', 'bcd', 'basic_duty'],
+  unit: ['unit', 'uom', 'unit_of_measure', 'unit_of_quantity', 'statistical_unit'],
+  notes: ['notes', 'note', 'remarks', 'policy', 'conditions'],
+};
+
+// --- Import & Management ---
+
+export const importTariffBook = async (
+  file: File,
+  edition: string,
+  regions: TargetRegion[],
+  name: string = file.name
+): Promise<TariffBookInfo> => {
+  const rows = await readRowsFromFile(file);
+  const lines: TariffLine[] = rows
+    .map(row => ({
+      code: importedHSCode(pickColumn(row, COLUMN_ALIASES.code)),
+      description: pickColumn(row, COLUMN_ALIASES.description),
+      duty: pickColumn(row, COLUMN_ALIASES.duty),
+      unit: pickColumn(row, COLUMN_ALIASES.unit),
+      notes: pickColumn(row, COLUMN_ALIASES.notes),
+    }))
+    .filter(line => line.code.length >= 4 && line.description);
+
+  if (lines.length === 0) {
+    throw new Error("No tariff lines found. Expected columns such as 'code' and 'description'.");
+  }
+
+  const info: TariffBookInfo = {
+    id: `book-${Date.now()}`,
+    name,
+    edition,
+    regions,
+    lineCount: lines.length,
+    importedAt: Date.now(),
+  };
+
+  await putItem(STORES.tariffLines, info.id, lines);
+  await putItem(STORES.tariffBooks, info.id, info);
+  lineCache.set(info.id, lines);
+  return info;
+};
+
+export const listTariffBooks = async (): Promise<TariffBookInfo[]> => {
+  const books = await getAllItems<TariffBookInfo>(STORES.tariffBooks);
+  return books.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const deleteTariffBook = async (id: string): Promise<void> => {
+  await deleteItem(STORES.tariffLines, id);
+  await deleteItem(STORES.tariffBooks, id);
+  lineCache.delete(id);
+};
+
+// --- Lookup ---
+
+// Lines are kept in memory after the first read; a book is a few MB at most.
+const lineCache = new Map<string, TariffLine[]>();
+
+const loadLines = async (book: TariffBookInfo): Promise<TariffLine[]> => {
+  const cached = lineCache.get(book.id);
+  if (cached) return cached;
+  const lines = (await getItem<TariffLine[]>(STORES.tariffLines, book.id)) || [];
+  lineCache.set(book.id, lines);
+  return lines;
+};
+
+const booksForRegion = async (region: TargetRegion) =>
+  (await listTariffBooks()).filter(book => book.regions.includes(region));
+
+export const hasTariffBook = async (region: TargetRegion): Promise<boolean> =>
+  (await booksForRegion(region)).length > 0;
+
+const toMatch = (line: TariffLine, book: TariffBookInfo): MatchedTariffLine => ({
+  ...line,
+  bookName: book.name,
+  edition: book.edition,
+});
+
+// Returns every imported line for the region, newest book first
+export const getTariffLines = async (region: TargetRegion): Promise<MatchedTariffLine[]> => {
+  const matches: MatchedTariffLine[] = [];
+  for (const book of await booksForRegion(region)) {
+    (await loadLines(book)).forEach(line => matches.push(toMatch(line, book)));
+  }
+  return matches;
+};
+
+export const findTariffLine = async (region: TargetRegion, code: string): Promise<MatchedTariffLine | undefined> => {
+  const digits = normalizeHSCode(code);
+  if (!digits) return undefined;
+  for (const book of await booksForRegion(region)) {
+    const line = (await loadLines(book)).find(l => l.code === digits);
+    if (line) return toMatch(line, book);
+  }
+  return undefined;
+};
+
+// Lines under the same parent as the code: the same subheading for a national line, the same
+// heading for a subheading. Falls back to the whole heading when the parent has no other lines.
+export const findSiblingLines = async (region: TargetRegion, code: string, limit = 10): Promise<MatchedTariffLine[]> => {
+  const digits = normalizeHSCode(code);
+  if (digits.length < 4) return [];
+  const lines = (await getTariffLines(region)).filter(line => line.code !== digits);
+  const parent = digits.length > 6 ? digits.slice(0, 6) : digits.slice(0, 4);
+  const siblings = lines.filter(line => line.code.startsWith(parent));
+  const pool = siblings.length > 0 ? siblings : lines.filter(line => line.code.startsWith(digits.slice(0, 4)));
+  return pool.sort((a, b) => a.code.localeCompare(b.code)).slice(0, limit);
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'of', 'or', 'other', 'made', 'new', 'used']);
+
+const tokenize = (text: string) =>
+  text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3 && !STOP_WORDS.has(token))
+    .map(token => token.replace(/(es|s)$/, ''));
+
+// Keyword search over line descriptions. A line must contain at least half of the query terms.
+export const searchTariffBook = async (
+  region: TargetRegion,
+  query: string,
+  limit = 5
+): Promise<MatchedTariffLine[]> => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const scored = (await getTariffLines(region))
+    .map(line => {
+      const haystack = line.description.toLowerCase();
+      const hits = terms.filter(term => haystack.includes(term)).length;
+      return { line, score: hits / terms.length };
+    })
+    .filter(({ score }) => score >= 0.5)
+    // Prefer better coverage, then the more specific (longer) national line
+    .sort((a, b) => b.score - a.score || b.line.code.length - a.line.code.length);
+
+  return scored.slice(0, limit).map(({ line }) => line);
+};
+
+export const formatTariffLinesContext = (lines: MatchedTariffLine[]): string => {
+  const edition = lines[0]?.edition || "Local Tariff Book";
+  const records = lines.map(line => ({
+    code: formatHSCode(line.code),
+    description: line.description,
+    duty: line.duty || "N/A",
+    unit: line.unit || undefined,
+    notes: line.notes || undefined,
+  }));
+  return `Match found in local ${edition} tariff book: ${JSON.stringify(records)}`;
+};
@@ -0,0 +1,287 @@
+import { TargetRegion } from "../types";
+
+// --- Provider Contract ---
+
+export interface TariffProviderCapabilities {
+  search: boolean;       // Free-text product description search
+  codeLookup: boolean;   // Direct lookup by HS code
+  requiresAuth: boolean; // Provider refuses requests without credentials
+}
+
+export interface TariffProviderCredentials {
+  token?: string;
+  clientId?: string;
+}
+
+export interface TariffProvider {
+  id: string;
+  name: string; // Used as the log prefix, e.g. "[Singapore API]"
+  region: TargetRegion;
+  capabilities: TariffProviderCapabilities;
+  timeoutMs: number;
+  credentials?: TariffProviderCredentials;
+  statusMessage?: string; // Shown to the user while the provider is queried
+  search?: (query: string, signal: AbortSignal) => Promise<string>;
+  lookupCode?: (hsCode: string, signal: AbortSignal) => Promise<string>;
+}
+
+// --- Environment Helpers ---
+
+// Credentials can come from Vite (VITE_ prefixed, browser) or from process.env (Node tooling)
+export const readEnv = (name: string): string | undefined => {
+  const viteEnv: Partial<Record<string, string>> | undefined = typeof import.meta.env !== 'undefined' ? import.meta.env : undefined;
+  const fromVite = viteEnv?.[`VITE_${name}`] || viteEnv?.[name];
+  if (fromVite) return fromVite;
+  if (typeof process !== 'undefined' && process.env) return process.env[name] || process.env[`VITE_${name}`];
+  return undefined;
+};
+
+const hasCredentials = (provider: TariffProvider) =>
+  !provider.capabilities.requiresAuth || !!provider.credentials?.token;
+
+// --- Registry ---
+
+const registry = new Map<TargetRegion, TariffProvider[]>();
+
+export const registerTariffProvider = (provider: TariffProvider) => {
+  const existing = (registry.get(provider.region) || []).filter(p => p.id !== provider.id);
+  registry.set(provider.region, [...existing, provider]);
+};
+
+export const unregisterTariffProvider = (id: string) => {
+  registry.forEach((providers, region) => {
+    registry.set(region, providers.filter(p => p.id !== id));
+  });
+};
+
+export const getTariffProviders = (region: TargetRegion): TariffProvider[] => registry.get(region) || [];
+
+// Runs a provider call with the provider's own timeout. Failures are logged and yield "".
+async function runWithTimeout(
+  provider: TariffProvider,
+  call: (signal: AbortSignal) => Promise<string>
+): Promise<string> {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), provider.timeoutMs);
+  try {
+    return await call(controller.signal);
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      console.warn(`[${provider.name}] Request timed out (exceeded ${provider.timeoutMs}ms).`);
+    } else {
+      console.warn(`[${provider.name}] Network/Parsing Error:`, error.message);
+    }
+    return "";
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+// Queries every search-capable provider registered for the region and joins their findings.
+export const searchTariffProviders = async (
+  region: TargetRegion,
+  query: string,
+  onStatusUpdate?: (status: string) => void
+): Promise<string> => {
+  const results: string[] = [];
+  for (const provider of getTariffProviders(region)) {
+    if (!provider.capabilities.search || !provider.search) continue;
+    if (!hasCredentials(provider)) {
+      console.warn(`[${provider.name}] Skipping: No API credentials configured.`);
+      continue;
+    }
+    if (onStatusUpdate && provider.statusMessage) onStatusUpdate(provider.statusMessage);
+    const data = await runWithTimeout(provider, signal => provider.search!(query, signal));
+    if (data) results.push(data);
+  }
+  return results.join("\n");
+};
+
+// Looks up a single HS code with the first provider that supports it and returns a hit.
+export const lookupTariffCode = async (region: TargetRegion, hsCode: string): Promise<string> => {
+  for (const provider of getTariffProviders(region)) {
+    if (!provider.capabilities.codeLookup || !provider.lookupCode || !hasCredentials(provider)) continue;
+    const data = await runWithTimeout(provider, signal => provider.lookupCode!(hsCode, signal));
+    if (data) return data;
+  }
+  return "";
+};
+
+// --- Built-in Providers ---
+
+// 1. Singapore Data (data.gov.sg)
+const SG_RESOURCE_ID = "d_8cfe111e0a5a5cf5b598e78851e58ad4";
+
+const singaporeProvider: TariffProvider = {
+  id: 'sg-data-gov',
+  name: 'Singapore API',
+  region: TargetRegion.SINGAPORE,
+  capabilities: { search: true, codeLookup: false, requiresAuth: false },
+  timeoutMs: 5000,
+  statusMessage: "Searching Singapore TradeNet & AHTN...",
+  search: async (query, signal) => {
+    const url = `https://data.gov.sg/api/action/datastore_search?resource_id=${SG_RESOURCE_ID}&q=${encodeURIComponent(query)}&limit=3`;
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      console.warn(`[Singapore API] Request failed. Status: ${response.status} ${response.statusText}`);
+      if (response.status === 429) console.warn("[Singapore API] Rate limit exceeded.");
+      return "";
+    }
+
+    const data = await response.json();
+
+    // Robust check for data structure
+    if (data?.result?.records && Array.isArray(data.result.records) && data.result.records.length > 0) {
+      const records = data.result.records.map((r: any) => ({
+        product: r.device_name || r.product_name || "Unknown Product",
+        risk_class: r.risk_classification || "N/A",
+        description: r.description || ""
+      }));
+      return `Match found in Singapore HSA Database: ${JSON.stringify(records)}`;
+    }
+    return "";
+  }
+};
+
+// 2. UAE Data (Dubai Pulse)
+const uaeProvider: TariffProvider = {
+  id: 'ae-dubai-pulse',
+  name: 'UAE API',
+  region: TargetRegion.UAE,
+  capabilities: { search: true, codeLookup: false, requiresAuth: true },
+  timeoutMs: 5000,
+  credentials: { token: readEnv('UAE_API_TOKEN') },
+  statusMessage: "Checking Dubai Customs Records...",
+  search: async (query, signal) => {
+    const url = `https://api.dubaipulse.gov.ae/shared/customs?commoditydescription=${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      signal,
+      headers: {
+        'Authorization': `Bearer ${uaeProvider.credentials?.token}`,
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        console.error("[UAE API] Authentication failed. Check UAE_API_TOKEN validity.");
+      } else {
+        console.warn(`[UAE API] Request failed. Status: ${response.status} ${response.statusText}`);
+      }
+      return "";
+    }
+
+    // Robust check for text/json content type before parsing
+    const contentType = response.headers.get("content-type");
+    if (contentType && contentType.indexOf("application/json") !== -1) {
+      const data = await response.json();
+      return `Match found in Dubai Customs Database: ${JSON.stringify(data)}`;
+    }
+    return "";
+  }
+};
+
+// 3. Saudi Arabia Data (ZATCA)
+const zatcaRequest = async (params: string, signal: AbortSignal): Promise<string> => {
+  const url = `https://zatca.gov.sa/api/tariff/v1/search?${params}&language=en`;
+  const response = await fetch(url, {
+    signal,
+    headers: {
+      'Authorization': `Bearer ${saudiProvider.credentials?.token}`,
+      'X-Client-ID': saudiProvider.credentials?.clientId || 'HScodeCentrovert-App',
+      'Accept': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      console.error("[Saudi API] Authentication failed. Check SAUDI_API_TOKEN.");
+    } else if (response.status === 503) {
+      console.warn("[Saudi API] Service unavailable (Maintenance).");
+    } else {
+      console.warn(`[Saudi API] Request failed. Status: ${response.status} ${response.statusText}`);
+    }
+    return "";
+  }
+
+  const data = await response.json();
+  // ZATCA API structure validation
+  if (data && (Array.isArray(data) || data.items)) {
+    return `Match found in ZATCA Tariff Schedule: ${JSON.stringify(data)}`;
+  }
+  return "";
+};
+
+const saudiProvider: TariffProvider = {
+  id: 'sa-zatca',
+  name: 'Saudi API',
+  region: TargetRegion.SAUDI_ARABIA,
+  capabilities: { search: true, codeLookup: true, requiresAuth: true },
+  timeoutMs: 5000,
+  credentials: { token: readEnv('SAUDI_API_TOKEN') },
+  statusMessage: "Querying ZATCA Tariff Database...",
+  search: (query, signal) => zatcaRequest(`description=${encodeURIComponent(query)}`, signal),
+  lookupCode: (hsCode, signal) => zatcaRequest(`code=${encodeURIComponent(hsCode)}`, signal)
+};
+
+// 4. GCC national systems (Al-Nadeeb, Bayan, OFOQ, KGAC)
+// These portals publish no open API, so each provider points at a configurable endpoint
+// (an authorised gateway or a local stand-in service) that accepts `?q=` or `?code=`.
+interface GatewayProviderConfig {
+  id: string;
+  name: string;
+  region: TargetRegion;
+  system: string;
+  envPrefix: string;
+}
+
+const createGatewayProvider = ({ id, name, region, system, envPrefix }: GatewayProviderConfig): TariffProvider | null => {
+  const baseUrl = readEnv(`${envPrefix}_TARIFF_URL`);
+  if (!baseUrl) return null;
+  // Authorised gateways need a token; a local stand-in can opt out with <PREFIX>_REQUIRES_AUTH=false
+  const requiresAuth = readEnv(`${envPrefix}_REQUIRES_AUTH`)?.toLowerCase() !== 'false';
+
+  const request = async (params: string, signal: AbortSignal): Promise<string> => {
+    const token = provider.credentials?.token;
+    const response = await fetch(`${baseUrl}?${params}`, {
+      signal,
+      headers: {
+        'Accept': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+      }
+    });
+    if (!response.ok) {
+      console.warn(`[${name}] Request failed. Status: ${response.status} ${response.statusText}`);
+      return "";
+    }
+    const data = await response.json();
+    if (!data || (Array.isArray(data) && data.length === 0)) return "";
+    return `Match found in ${system}: ${JSON.stringify(data)}`;
+  };
+
+  const token = readEnv(`${envPrefix}_API_TOKEN`);
+  const provider: TariffProvider = {
+    id,
+    name,
+    region,
+    capabilities: { search: true, codeLookup: true, requiresAuth },
+    timeoutMs: 8000,
+    credentials: { token },
+    statusMessage: `Querying ${system}...`,
+    search: (query, signal) => request(`q=${encodeURIComponent(query)}`, signal),
+    lookupCode: (hsCode, signal) => request(`code=${encodeURIComponent(hsCode)}`, signal)
+  };
+  return provider;
+};
+
+const gatewayProviders = [
+  createGatewayProvider({ id: 'qa-al-nadeeb', name: 'Qatar API', region: TargetRegion.QATAR, system: 'Qatar Al-Nadeeb Tariff', envPrefix: 'QATAR' }),
+  createGatewayProvider({ id: 'om-bayan', name: 'Oman API', region: TargetRegion.OMAN, system: 'Oman Bayan Tariff', envPrefix: 'OMAN' }),
+  createGatewayProvider({ id: 'bh-ofoq', name: 'Bahrain API', region: TargetRegion.BAHRAIN, system: 'Bahrain OFOQ Tariff', envPrefix: 'BAHRAIN' }),
+  createGatewayProvider({ id: 'kw-kgac', name: 'Kuwait API', region: TargetRegion.KUWAIT, system: 'Kuwait KGAC Tariff', envPrefix: 'KUWAIT' }),
+];
+
+[singaporeProvider, uaeProvider, saudiProvider, ...gatewayProviders].forEach(provider => {
+  if (provider) registerTariffProvider(provider);
+});
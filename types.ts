@@ -17,19 +17,320 @@ export interface SimilarItem {
   reason: string;
 }
 
+// --- Duty & Tax Rates ---
+
+interface RateBase {
+  label?: string; // Tax or duty name, e.g. "GST", "BCD", "IGST"
+  text?: string;  // Rate as printed in the tariff book or as originally returned
+}
+
+export interface AdValoremRate extends RateBase {
+  type: 'ad_valorem';
+  percent: number;
+}
+
+export interface SpecificRate extends RateBase {
+  type: 'specific';
+  amount: number;
+  currency: string;
+  unit: string; // "kg", "litre", "unit", ...
+}
+
+// Ad valorem plus specific, e.g. "5% + AED 2/kg"
+export interface CompoundRate extends RateBase {
+  type: 'compound';
+  percent: number;
+  amount: number;
+  currency: string;
+  unit: string;
+}
+
+// "5% or AED 2/kg, whichever is higher"
+export interface MixedRate extends RateBase {
+  type: 'mixed';
+  options: (AdValoremRate | SpecificRate)[];
+}
+
+export interface ExemptRate extends RateBase {
+  type: 'exempt';
+}
+
+export interface ProhibitedRate extends RateBase {
+  type: 'prohibited';
+}
+
+// The source gave a rate we cannot interpret (e.g. "As per schedule")
+export interface UnspecifiedRate extends RateBase {
+  type: 'unspecified';
+}
+
+export type TariffRate = AdValoremRate | SpecificRate | CompoundRate | MixedRate | ExemptRate | ProhibitedRate | UnspecifiedRate;
+
+export interface TariffLine {
+  code: string; // Digits only, as printed in the tariff book without separators
+  description: string;
+  duty: string;
+  unit: string;
+  notes: string;
+}
+
+export interface TariffBookInfo {
+  id: string;
+  name: string;
+  edition: string; // e.g. "AHTN 2022", "GCC Common Tariff"
+  regions: TargetRegion[];
+  lineCount: number;
+  importedAt: number;
+}
+
+export interface MatchedTariffLine extends TariffLine {
+  bookName: string;
+  edition: string;
+}
+
+// --- HS Edition Correlation ---
+
+export type HSEdition = 'HS2012' | 'HS2017' | 'HS2022' | 'HS2027';
+
+// One row of a WCO correlation table: an older-edition subheading and (part of) where it went
+export interface CorrelationRow {
+  from: string; // 6 digits
+  to: string;   // 6 digits
+  note?: string;
+}
+
+export interface CorrelationTableInfo {
+  id: string;
+  name: string;
+  fromEdition: HSEdition;
+  toEdition: HSEdition; // Always the edition directly after fromEdition
+  rowCount: number;
+  importedAt: number;
+  builtIn?: boolean; // Bundled excerpt; replaced by any imported table for the same editions
+}
+
+// split: one code became several; merged: several codes became one; restructured: both
+export type CorrelationKind = 'unchanged' | 'renumbered' | 'split' | 'merged' | 'restructured';
+
+export interface CorrelationStep {
+  fromEdition: HSEdition;
+  toEdition: HSEdition;
+  kind: CorrelationKind;
+  codes: string[];
+  tableLoaded: boolean; // False when no table covers these editions and codes were carried over as-is
+}
+
+export interface CodeConversion {
+  code: string;
+  fromEdition: HSEdition;
+  toEdition: HSEdition;
+  kind: CorrelationKind;
+  targets: { code: string; note?: string }[];
+  steps: CorrelationStep[];
+}
+
+// A code in a result that was deleted in a later HS edition
+export interface EditionNotice {
+  field: string; // "hsCode" or e.g. "similarItems[1].hsCode"
+  code: string;
+  edition: HSEdition; // Last edition in which the code existed
+  conversion: CodeConversion;
+}
+
+// --- HS Hierarchy ---
+
+export type HSLevel = 'section' | 'chapter' | 'heading' | 'subheading' | 'line';
+
+export interface HSNode {
+  id: string; // "section-XVI" for sections, otherwise the code digits
+  level: HSLevel;
+  code: string; // Roman numeral for sections, digits below
+  title: string;
+  tariffLine?: MatchedTariffLine; // The tariff book row for this exact code, when there is one
+}
+
+// --- Legal Basis ---
+
+export type CitationKind = 'gri' | 'section_note' | 'chapter_note' | 'subheading_note' | 'heading_text' | 'explanatory_note';
+
+// verified: the provision exists and the quote matches it; quote_mismatch: it exists but reads
+// differently; not_found: the corpus covers that Section/Chapter but has no such provision;
+// unchecked: nothing loaded covers it
+export type CitationStatus = 'verified' | 'quote_mismatch' | 'not_found' | 'unchecked';
+
+export interface CitationCheck {
+  status: CitationStatus;
+  source?: string; // Corpus or tariff book the provision was checked against
+  corpusText?: string; // The provision as printed, when the quote differs
+}
+
+// One rule, note or heading text the classification rests on
+export interface LegalCitation {
+  kind: CitationKind;
+  reference: string; // As cited, e.g. "GRI 3(b)", "Note 7 to Section XI", "Heading 85.17"
+  section?: string; // Roman numeral, for Section Notes
+  chapter?: string; // 2 digits, for Chapter and Subheading Notes
+  note?: string; // Rule or note number, e.g. "3(b)", "1(a)"
+  code?: string; // Heading or subheading, for heading texts and Explanatory Notes
+  text: string; // Quoted provision
+  relevance: string; // How it decided the classification
+  check?: CitationCheck;
+}
+
+// A provision in the local notes corpus
+export interface LegalNote {
+  kind: CitationKind;
+  section?: string;
+  chapter?: string;
+  note?: string;
+  code?: string;
+  text: string;
+}
+
+export interface LegalNotesCorpusInfo {
+  id: string;
+  name: string;
+  noteCount: number;
+  importedAt: number;
+  builtIn?: boolean; // Bundled General Interpretative Rules
+}
+
+// --- Preferential Rates ---
+
+export interface OriginCountry {
+  code: string; // ISO 3166 alpha-2
+  name: string;
+}
+
+// The treatment one trade agreement gives the code for goods of the selected origin
+export interface PreferentialRate {
+  agreementId: string;
+  agreement: string; // Short name, e.g. "ATIGA"
+  agreementName: string;
+  rate?: TariffRate; // Missing when the goods are excluded or the local schedule has no rate for the code
+  excluded?: boolean; // Line is excluded from the agreement's tariff concessions
+  savingsPoints?: number; // MFN minus preferential rate in percentage points, when both are ad valorem
+  scheduleCode?: string; // Schedule line the rate was taken from; missing for the agreement-wide rate
+  proofOfOrigin: string;
+  note?: string;
+}
+
+// --- Export Control Screening ---
+
+// One controlled item of a strategic goods or dual-use list
+export interface ControlListEntry {
+  entry: string; // Control number, e.g. "5A002", "ML10"
+  description: string;
+  hsCodes: string[]; // HS code prefixes the entry correlates to
+  keywords: string[]; // Terms in a product description that suggest the entry
+  permit?: string; // Overrides the list's permit for this entry
+}
+
+export interface ControlListInfo {
+  id: string;
+  name: string;
+  regions: TargetRegion[]; // Markets the list is enforced in; empty for every market
+  permit: string; // Permit or licence needed for listed goods
+  entryCount: number;
+  importedAt: number;
+  builtIn?: boolean; // Bundled excerpt
+}
+
+// A control list entry the classified code or product description matched
+export interface ControlListHit {
+  list: string; // Name of the control list
+  entry: string;
+  description: string;
+  permit: string;
+  matchedOn: ('hs_code' | 'keyword')[];
+  matchedTerms: string[]; // The code prefix and keywords that matched
+}
+
+// --- Invoice Extraction ---
+
+// One line item read from a commercial invoice or packing list
+export interface InvoiceLine {
+  id: string;
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  origin?: string; // Country of origin as printed
+  supplierCode?: string; // Supplier's part or article number
+}
+
+export interface InvoiceExtraction {
+  supplier?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  currency?: string; // ISO 4217 code
+  lines: InvoiceLine[];
+}
+
+export interface ValidationCheck {
+  id: 'length' | 'nomenclature' | 'chapter' | 'edition';
+  label: string;
+  passed: boolean;
+  skipped?: boolean; // Check could not run (e.g. no tariff book loaded)
+  message: string;
+}
+
+export interface HSCodeValidation {
+  valid: boolean;
+  checks: ValidationCheck[];
+  correctionAttempted?: boolean; // A corrective re-prompt was sent after the first answer failed
+}
+
+// A field of the model's answer that did not match the HSCodeResult shape
+export interface SchemaError {
+  field: string; // Dotted path, e.g. "similarItems[2].hsCode"
+  message: string;
+}
+
+export interface DegradedInfo {
+  errors: SchemaError[]; // Problems left after the repair round-trip
+  defaultedFields: string[]; // Top-level fields filled with defaults
+}
+
 export interface HSCodeResult {
   hsCode: string;
   productName: string;
   description: string;
-  dutyRate: string;
-  taxRate: string; // VAT or GST
+  dutyRate: TariffRate;
+  taxRate: TariffRate; // VAT or GST
   restrictions: string[];
   reasoning: string;
+  legalBasis?: LegalCitation[]; // GRI, notes and heading texts the classification rests on
   confidenceScore: number; // 0-100
   requiredDocuments: string[];
   source?: 'Live API' | 'AI Model'; // Broad category
   sourceReference?: string; // Specific document/authority (e.g., "Singapore TradeNet AHTN 2022")
   similarItems: SimilarItem[];
+  matchedTariffLine?: MatchedTariffLine; // Exact line from a locally imported tariff book
+  validation?: HSCodeValidation;
+  editionNotices?: EditionNotice[]; // Codes from an older HS edition, with their current equivalents
+  controlHits?: ControlListHit[]; // Possible strategic goods or dual-use list entries, from local lists
+  degraded?: DegradedInfo; // Set when the model's answer was incomplete even after repair
+  cachedAt?: number; // Original classification time when served from the result cache
+}
+
+// A multiple-choice question the engine asks instead of guessing when the description
+// leaves a classification-deciding fact open (material, intended use, retail packing, ...)
+export interface ClarifyingQuestion {
+  id: string;
+  question: string;
+  basis: string; // The GRI step or legal note the answer decides, e.g. "GRI 3(b) – essential character"
+  options: string[];
+}
+
+export interface ClarificationAnswer {
+  questionId: string;
+  question: string;
+  answer: string;
+}
+
+export interface ClarificationRequest {
+  clarificationNeeded: true;
+  questions: ClarifyingQuestion[];
 }
 
 export interface ChatMessage {
@@ -37,4 +338,26 @@ export interface ChatMessage {
   role: 'user' | 'model' | 'system';
   content: string | HSCodeResult;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+// --- Product Evidence ---
+
+// A photo, datasheet or safety data sheet attached to a classification request
+export interface EvidenceFile {
+  name: string;
+  mimeType: string; // As detected from the file, e.g. "image/png", "application/pdf"
+  dataUrl: string;
+}
+
+export interface ClassificationRecord {
+  id: string;
+  timestamp: number;
+  input: string;
+  thumbnail?: string; // Downscaled JPEG data URL of the first product image
+  evidenceFiles?: string[]; // Names of all files attached to the request
+  evidenceHashes?: string[]; // Fingerprints of those files, checked when they are re-attached for a re-run
+  region: TargetRegion;
+  result: HSCodeResult;
+  modelId: string;
+  promptVersion: string;
+}
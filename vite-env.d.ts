@@ -2,6 +2,30 @@
 
 interface ImportMetaEnv {
     readonly VITE_GEMINI_API_KEY: string
+    // Classification model selection (optional, defaults to Gemini)
+    readonly VITE_CLASSIFIER_PROVIDER?: 'gemini' | 'openai' | 'mock'
+    readonly VITE_CLASSIFIER_MODEL?: string
+    readonly VITE_OPENAI_BASE_URL?: string
+    readonly VITE_OPENAI_API_KEY?: string
+    readonly VITE_OPENAI_VISION?: string
+    readonly VITE_CLASSIFIER_FIXTURES_URL?: string
+    // Hours a cached classification stays valid (0 disables the cache)
+    readonly VITE_RESULT_CACHE_TTL_HOURS?: string
+    // Tariff provider credentials and gateway endpoints (optional)
+    readonly VITE_UAE_API_TOKEN?: string
+    readonly VITE_SAUDI_API_TOKEN?: string
+    readonly VITE_QATAR_TARIFF_URL?: string
+    readonly VITE_QATAR_API_TOKEN?: string
+    readonly VITE_QATAR_REQUIRES_AUTH?: string
+    readonly VITE_OMAN_TARIFF_URL?: string
+    readonly VITE_OMAN_API_TOKEN?: string
+    readonly VITE_OMAN_REQUIRES_AUTH?: string
+    readonly VITE_BAHRAIN_TARIFF_URL?: string
+    readonly VITE_BAHRAIN_API_TOKEN?: string
+    readonly VITE_BAHRAIN_REQUIRES_AUTH?: string
+    readonly VITE_KUWAIT_TARIFF_URL?: string
+    readonly VITE_KUWAIT_API_TOKEN?: string
+    readonly VITE_KUWAIT_REQUIRES_AUTH?: string
 }
 
 interface ImportMeta {